@@ -1,18 +1,79 @@
 import { ServiceType } from '../core/types.js';
 import { validateIP as validateIPUtil } from '../utils/validation.js';
 import { sanitizeUserInput } from '../utils/validation.js';
+import { ServiceProfiles } from './profiles.js';
 
 const USAGE = `
 Usage: hal [options]
+       hal <command> [services] [options]
+
+Commands:
+  add <service...>     Install services (and missing dependencies) into an existing installation
+  remove <service...>  Uninstall services and undo their routes, DNS entries and state
+                       --cascade  also remove installed services that depend on them
+                       --purge    also delete named volumes and ~/<data path>/<service>
+  upgrade [service...] Pull newer images, recreate containers and roll back unhealthy ones
+                       (all installed services when none is given)
+  status               Show container state, uptime, restarts, ports and URL of installed services
+                       --json     print machine-readable output
+  export compose       Write the installed stack as compose.yml plus a setup.sh bootstrap script
+  export k8s           Write Deployments, Services, PVCs and Ingress objects to homelab.yaml
+  export systemd       Write systemd units (Docker) or Quadlet files (Podman) grouped in homelab.target
+                       --output <dir>  target directory (default: ./hal-<format>)
+                       --apply         k8s: apply into the k3d service container
+                                       systemd: install the units and enable homelab.target
+  resume               Continue an interrupted installation from the first unfinished service
+  retry-failed         Install again the services whose last attempt failed
+  doctor               Check the host (distribution, runtime, docker group, Podman socket, ports
+                       80/443/53, disk, memory, IP) and print a fix for each problem
+                       --json     print machine-readable output (exit code 1 on failures)
+  credentials [service...]
+                       Show the generated passwords of all or the given services
+                       --json     print machine-readable output
+  rotate-secret <service>
+                       Change the database passwords of a service (postgresql, mariadb, mongodb
+                       or an application user such as immich) and recreate the services using them
+  backup [service...]  Dump databases (PostgreSQL, MariaDB, MongoDB, Redis), archive volumes and data
+                       directories plus the config directory into one archive (all services when
+                       none is given; databases of the given services are included)
+                       --output <dir>  directory for the archive (default: ~/ws/backups)
+                       --bucket        upload to the hal-backups bucket of RustFS or MinIO
+  backup list          Show the restore points in ~/ws/backups (or --output) and the bucket
+                       --json     print machine-readable output
+  backup schedule      Install a systemd timer per service with a backup schedule in hal.yml
+                       --config <file>  save the backup schedules of this file first
+  restore [service...] Restore a backup per service (all services and the config directory when
+                       none is given)
+                       --archive <file>  archive to restore (its name with --bucket)
+                       --bucket          download the archive from the hal-backups bucket
+  migrate export       Write one bundle to move the installation to a new host: full backup,
+                       config directory (state, credentials, cloudflared tunnel) and credentials key
+                       --output <dir>  directory for the bundle (default: ~/ws/backups)
+  migrate import       Install a bundle on a fresh host with its IP, restoring each service's
+                       data before its dependents start
+                       --archive <file>  bundle to import
+                       --ip <address>    IP of this host (auto-detected if omitted)
 
 Options:
+  --config <file>      Declarative configuration (hal.yml): settings, services and per-service
+                       overrides; --ip, --domain and --password take priority over it
   --ip <address>       Server IP address (auto-detected if omitted)
   --domain <domain>    Domain name (default: homelab.lan)
   --list <services>    Comma-separated list of optional services to include
-                       Use 'defaults' to include default optional services
-                       Example: --list defaults,n8n,goose
+                       Use 'defaults', 'profile:<name>' (ai, observability, devops, office,
+                       identity or custom) and 'tag:<name>' (e.g. database), '-' excludes
+                       Example: --list defaults,n8n,goose or --list profile:ai,tag:database,-kafka
   --nolist <services>  Comma-separated list of optional services to exclude (all others included)
-  --password <base64>  Database password (base64-encoded)
+  --password <base64>  One shared password for every service instead of generated credentials
+                       (legacy mode, base64-encoded)
+  --dry-run            Print the commands, files and sudo operations without changing the host
+  --parallel <N>       Install up to N independent services at the same time (also for add)
+  --no-rollback        Keep partially installed services when a core service fails or on Ctrl+C
+                       (also for add)
+  --force              Install even when the estimated RAM or disk of the selection exceeds the
+                       host (also for add, resume and retry-failed)
+  --auto-ports         Reassign host ports that are taken by another service or process and
+                       save them in the state (also for add, resume and retry-failed)
   --help               Show this help message
 
 Note: --list and --nolist are mutually exclusive. --nolist takes priority.
@@ -20,12 +81,33 @@ Note: --list and --nolist are mutually exclusive. --nolist takes priority.
 
 export { USAGE };
 
+export const COMMANDS = ['add', 'remove', 'status', 'upgrade', 'export', 'resume', 'retry-failed', 'doctor', 'credentials', 'rotate-secret', 'backup', 'restore', 'migrate'] as const;
+
+export type CliCommand = typeof COMMANDS[number];
+
 export interface CliArgs {
+  command?: CliCommand;
+  targets?: string[];
+  cascade?: boolean;
+  purge?: boolean;
+  json?: boolean;
+  output?: string;
+  apply?: boolean;
   ip?: string;
   domain?: string;
   list?: string[];
   nolist?: string[];
   password?: string;
+  dryRun?: boolean;
+  parallel?: number;
+  noRollback?: boolean;
+  force?: boolean;
+  autoPorts?: boolean;
+  bucket?: boolean;
+  archive?: string;
+  /** Run by a backup timer: label, prune and notify (see BackupScheduler) */
+  scheduled?: boolean;
+  configFile?: string;
   scriptMode?: boolean;
   help?: boolean;
 }
@@ -42,10 +124,67 @@ function hasFlag(args: string[], flag: string): boolean {
   return args.includes(flag);
 }
 
+function parallelValue(args: string[]): number | undefined {
+  const value = Number(flagValue(args, '--parallel'));
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+const FLAGS_WITH_VALUE = ['--ip', '--domain', '--list', '--nolist', '--password', '--output', '--parallel', '--config', '--archive'];
+
+/**
+ * Collect positional service names after a subcommand (comma or space separated).
+ * Names are not checked against ServiceType here so commands can report typos.
+ */
+function positionalNames(args: string[]): string[] {
+  const names: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith('--')) {
+      // Skip the value of flags that take one
+      if (FLAGS_WITH_VALUE.includes(arg)) i++;
+      continue;
+    }
+    names.push(...arg.split(','));
+  }
+  const sanitized = names
+    .map(s => sanitizeUserInput(s.trim().toLowerCase()))
+    .filter(s => s.length > 0);
+  return [...new Set(sanitized)];
+}
+
+function parseCommand(command: CliCommand, rest: string[]): CliArgs {
+  return {
+    command,
+    targets: positionalNames(rest),
+    cascade: hasFlag(rest, '--cascade'),
+    purge: hasFlag(rest, '--purge'),
+    json: hasFlag(rest, '--json'),
+    output: flagValue(rest, '--output'),
+    apply: hasFlag(rest, '--apply'),
+    parallel: parallelValue(rest),
+    noRollback: hasFlag(rest, '--no-rollback'),
+    force: hasFlag(rest, '--force'),
+    autoPorts: hasFlag(rest, '--auto-ports'),
+    bucket: hasFlag(rest, '--bucket'),
+    archive: flagValue(rest, '--archive'),
+    ip: flagValue(rest, '--ip')?.trim(),
+    scheduled: hasFlag(rest, '--scheduled'),
+    configFile: flagValue(rest, '--config'),
+  };
+}
+
 export function parseArgs(argv: string[]): CliArgs {
   const raw = argv.slice(2);
   if (raw.length === 0) return {};
 
+  const first = raw[0];
+  if ((COMMANDS as readonly string[]).includes(first)) {
+    if (hasFlag(raw, '--help')) {
+      return { scriptMode: true, help: true };
+    }
+    return parseCommand(first as CliCommand, raw.slice(1));
+  }
+
   if (hasFlag(raw, '--help')) {
     return { scriptMode: true, help: true };
   }
@@ -85,7 +224,33 @@ export function parseArgs(argv: string[]): CliArgs {
     result.list = list
       .split(',')
       .map(s => sanitizeUserInput(s.trim().toLowerCase()))
-      .filter(s => s.length > 0 && (s === 'defaults' || Object.values(ServiceType).includes(s as ServiceType)));
+      .filter(s => s.length > 0 && ServiceProfiles.isSelector(s));
+  }
+
+  if (hasFlag(raw, '--dry-run')) {
+    result.dryRun = true;
+  }
+
+  const configFile = flagValue(raw, '--config');
+  if (configFile) {
+    result.configFile = configFile.trim();
+  }
+
+  if (hasFlag(raw, '--no-rollback')) {
+    result.noRollback = true;
+  }
+
+  const parallel = parallelValue(raw);
+  if (parallel) {
+    result.parallel = parallel;
+  }
+
+  if (hasFlag(raw, '--force')) {
+    result.force = true;
+  }
+
+  if (hasFlag(raw, '--auto-ports')) {
+    result.autoPorts = true;
   }
 
   const password = flagValue(raw, '--password');
@@ -0,0 +1,34 @@
+/**
+ * hal add <service...>
+ */
+
+import { CliArgs } from '../args.js';
+import { HomelabError } from '../../utils/errors.js';
+import { HomelabApplication } from '../../core/application.js';
+import { loadInstallation, toServiceTypes } from './common.js';
+
+export async function addCommand(args: CliArgs): Promise<void> {
+  const requested = toServiceTypes(args.targets);
+  if (requested.length === 0) {
+    throw new HomelabError('Specify at least one service to add', 'MISSING_SERVICE', false);
+  }
+
+  const { config } = await loadInstallation();
+  const app = new HomelabApplication();
+  app.setConfig(config);
+  if (args.parallel) {
+    app.setParallel(args.parallel);
+  }
+  if (args.force) {
+    app.setForce(true);
+  }
+  if (args.autoPorts) {
+    app.setAutoPorts(true);
+  }
+
+  const added = await app.add(requested);
+  if (added.length > 0) {
+    console.log('');
+    console.log(`✅ Added ${added.length} service(s): ${added.join(', ')}`);
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * hal backup [service...] [--output <dir>] [--bucket]
+ * hal backup list [--output <dir>]
+ * hal backup schedule [--config <file>]
+ */
+
+import { CliArgs } from '../args.js';
+import { ConfigFile } from '../config-file.js';
+import { BackupManager, RestorePoint } from '../../core/backup.js';
+import { BackupScheduler } from '../../core/backup-schedule.js';
+import { BackupSchedule, HomelabConfig, ServiceType } from '../../core/types.js';
+import { HomelabError } from '../../utils/errors.js';
+import { StateManager } from '../../utils/state.js';
+import { loadInstallation, toServiceTypes, Installation } from './common.js';
+
+export async function backupCommand(args: CliArgs): Promise<void> {
+  const [action] = args.targets || [];
+  if (action === 'list') {
+    return listRestorePoints(args);
+  }
+  if (action === 'schedule') {
+    return installSchedules(args);
+  }
+
+  const targets = toServiceTypes(args.targets);
+  const { config } = await loadInstallation();
+
+  if (args.scheduled) {
+    return runScheduled(config, targets);
+  }
+
+  const { location, manifest } = await new BackupManager(config).backup(targets, {
+    output: args.output,
+    bucket: args.bucket,
+  });
+
+  console.log('');
+  console.log('📋 Backup contents:');
+  for (const entry of manifest.services) {
+    const parts = [
+      entry.dump && `${entry.dump.engine} dump`,
+      ...entry.volumes.map(v => `volume ${v.name}`),
+      entry.data && 'data directory',
+    ].filter(Boolean);
+    console.log(`   💾 ${entry.service}: ${parts.length > 0 ? parts.join(', ') : 'nothing to save'}`);
+  }
+  console.log('   ⚙️  config directory (state, credentials, generated configs)');
+  console.log('');
+  console.log(`✅ Backup written to ${location}`);
+}
+
+async function listRestorePoints(args: CliArgs): Promise<void> {
+  const { config } = await loadInstallation();
+  const points = await new BackupManager(config).list(args.output);
+
+  if (args.json) {
+    console.log(JSON.stringify(points, null, 2));
+    return;
+  }
+  if (points.length === 0) {
+    console.log('📭 No restore points found');
+    return;
+  }
+
+  console.log('🗄️  Restore points (newest first):');
+  for (const point of points) {
+    const details = [
+      point.createdAt.toISOString().slice(0, 16).replace('T', ' '),
+      point.label ? `scheduled ${point.label}` : 'manual',
+      point.size !== undefined && formatSize(point.size),
+      point.inBucket ? 'bucket' : 'local',
+    ].filter(Boolean);
+    console.log(`   ${point.inBucket ? '☁️ ' : '💾'} ${point.name}  (${details.join(', ')})`);
+  }
+  console.log('');
+  console.log('💡 Restore one with: hal restore --archive <name> (add --bucket for bucket archives)');
+}
+
+async function installSchedules(args: CliArgs): Promise<void> {
+  const installation = await loadInstallation();
+  if (args.configFile) {
+    await saveSchedules(installation, args.configFile);
+  }
+
+  const schedules = BackupScheduler.getSchedules(installation.config);
+  const result = await BackupScheduler.install(installation.config);
+
+  if (result.crontab) {
+    console.log('⚠️  systemd not found: add these lines to your crontab (crontab -e):');
+    result.crontab.forEach(line => console.log(`   ${line}`));
+    return;
+  }
+  for (const service of result.installed) {
+    console.log(`   ⏰ ${service}: ${schedules[service]!.schedule} (${BackupScheduler.toOnCalendar(schedules[service]!.schedule)})`);
+  }
+  for (const timer of result.removed) {
+    console.log(`   🗑️  removed ${timer}`);
+  }
+  console.log(result.installed.length > 0
+    ? `✅ ${result.installed.length} backup timer(s) installed (systemctl list-timers 'hal-backup-*')`
+    : '✅ No service has a backup schedule');
+}
+
+/**
+ * Replace the backup schedules of the saved installation with those of a hal.yml file
+ */
+async function saveSchedules({ state, config }: Installation, path: string): Promise<void> {
+  const file = await ConfigFile.load(path);
+  const overrides = { ...(config.serviceOverrides || {}) };
+  for (const service of Object.keys(overrides) as ServiceType[]) {
+    const { backup, ...rest } = overrides[service]!;
+    overrides[service] = rest;
+  }
+  for (const [service, override] of Object.entries(file.services || {}) as [ServiceType, { backup?: BackupSchedule }][]) {
+    if (override?.backup) {
+      overrides[service] = { ...overrides[service], backup: override.backup };
+    }
+  }
+
+  config.serviceOverrides = overrides;
+  await StateManager.save(config, state.managementUI);
+}
+
+/**
+ * Backup run by a timer: one service, pruned by its retention policy, result sent to Ntfy
+ */
+async function runScheduled(config: HomelabConfig, targets: ServiceType[]): Promise<void> {
+  const [service] = targets;
+  const schedule = service && BackupScheduler.getSchedules(config)[service];
+  if (targets.length !== 1 || !schedule) {
+    throw new HomelabError(
+      'Scheduled backups run for one service with a backup schedule (hal backup schedule installs them)',
+      'BACKUP_NOT_SCHEDULED',
+      false,
+      { services: targets },
+    );
+  }
+
+  const manager = new BackupManager(config);
+  try {
+    const { location } = await manager.backup([service], { bucket: schedule.bucket, label: service, unattended: true });
+    const own = (await manager.list()).filter((p: RestorePoint) => p.label === service && p.inBucket === !!schedule.bucket);
+    const expired = BackupScheduler.selectExpired(own, schedule);
+    await manager.delete(expired);
+
+    const message = `Backup written to ${location}${expired.length > 0 ? `, ${expired.length} old restore point(s) pruned` : ''}`;
+    console.log(`✅ ${message}`);
+    await BackupScheduler.notify(config, `Backup of ${service} succeeded`, message, true);
+  } catch (error) {
+    await BackupScheduler.notify(
+      config,
+      `Backup of ${service} failed`,
+      error instanceof Error ? error.message : String(error),
+      false,
+    );
+    throw error;
+  }
+}
+
+function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${size.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
@@ -0,0 +1,63 @@
+/**
+ * Shared helpers for commands that operate on an existing installation
+ */
+
+import { HomelabConfig, DistributionType, ServiceType } from '../../core/types.js';
+import { HomelabError } from '../../utils/errors.js';
+import { HalState, StateManager } from '../../utils/state.js';
+import { CredentialStore } from '../../utils/credentials.js';
+
+export interface Installation {
+  state: HalState;
+  config: HomelabConfig;
+}
+
+/**
+ * Load the saved installation state as a complete configuration
+ */
+export async function loadInstallation(): Promise<Installation> {
+  const state = await StateManager.load();
+  if (!state) {
+    throw new HomelabError(
+      'No previous installation found (onmind-hal.json). Run hal to install first.',
+      'STATE_NOT_FOUND',
+      false,
+    );
+  }
+
+  const config: HomelabConfig = {
+    ip: state.ip,
+    domain: state.domain,
+    tunnelDomain: state.tunnelDomain,
+    networkName: state.networkName,
+    configPath: state.configPath,
+    dataPath: state.dataPath,
+    storagePassword: state.storagePassword,
+    // Without a shared password the secrets are per service (store created on first use)
+    credentials: state.storagePasswordRef ? undefined : (await CredentialStore.load(state.configPath)) ?? {},
+    selectedServices: [...state.selectedServices],
+    serviceOverrides: state.serviceOverrides,
+    portMappings: state.portMappings,
+    // Distribution is not persisted; commands only touch containers and files
+    distribution: DistributionType.UBUNTU,
+  };
+
+  return { state, config };
+}
+
+/**
+ * Convert command targets to service types, rejecting unknown names
+ */
+export function toServiceTypes(targets: string[] = []): ServiceType[] {
+  const validServices = Object.values(ServiceType) as string[];
+  const unknown = targets.filter(t => !validServices.includes(t));
+  if (unknown.length > 0) {
+    throw new HomelabError(
+      `Unknown service(s): ${unknown.join(', ')}`,
+      'UNKNOWN_SERVICE',
+      false,
+      { services: unknown },
+    );
+  }
+  return targets as ServiceType[];
+}
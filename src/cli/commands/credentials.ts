@@ -0,0 +1,44 @@
+/**
+ * hal credentials [service...] [--json]
+ */
+
+import { CliArgs } from '../args.js';
+import { CredentialStore } from '../../utils/credentials.js';
+import { loadInstallation, toServiceTypes } from './common.js';
+
+export async function credentialsCommand(args: CliArgs): Promise<void> {
+  const targets = toServiceTypes(args.targets);
+  const { state, config } = await loadInstallation();
+
+  if (!config.credentials) {
+    if (args.json) {
+      console.log(JSON.stringify({ mode: 'shared', password: state.storagePassword ?? null }, null, 2));
+      return;
+    }
+    console.log('🔐 Shared password mode (legacy): every service uses the same password');
+    console.log(`   ${state.storagePassword || '(not set)'}`);
+    return;
+  }
+
+  const secrets = targets.length > 0
+    ? Object.assign({}, ...targets.map(service => CredentialStore.forService(config.credentials!, service)))
+    : config.credentials;
+
+  if (args.json) {
+    console.log(JSON.stringify({ mode: 'per-service', credentials: secrets }, null, 2));
+    return;
+  }
+
+  const keys = Object.keys(secrets).sort();
+  if (keys.length === 0) {
+    console.log(`ℹ️  No credentials stored${targets.length > 0 ? ` for ${targets.join(', ')}` : ''}`);
+    return;
+  }
+
+  console.log(`🔐 Credentials (${CredentialStore.getPath(config.configPath)})`);
+  console.log('');
+  const width = Math.max(...keys.map(key => key.length));
+  for (const key of keys) {
+    console.log(`   ${key.padEnd(width)}  ${secrets[key]}`);
+  }
+}
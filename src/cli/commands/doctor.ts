@@ -0,0 +1,41 @@
+/**
+ * hal doctor [--json]
+ */
+
+import { CliArgs } from '../args.js';
+import { HostDoctor, DoctorCheck } from '../../core/doctor.js';
+
+const ICONS: Record<DoctorCheck['status'], string> = { pass: '✅', warn: '⚠️ ', fail: '❌' };
+
+export async function doctorCommand(args: CliArgs): Promise<void> {
+  if (!args.json) {
+    console.log('🩺 Checking host...');
+    console.log('');
+  }
+
+  const checks = await new HostDoctor().run();
+  process.exitCode = HostDoctor.exitCode(checks);
+
+  if (args.json) {
+    console.log(JSON.stringify({ ok: process.exitCode === 0, checks }, null, 2));
+    return;
+  }
+
+  for (const check of checks) {
+    console.log(`${ICONS[check.status]} ${check.name}: ${check.message}`);
+    if (check.fix && check.status !== 'pass') {
+      console.log(`   💡 Fix: ${check.fix}`);
+    }
+  }
+
+  const failed = checks.filter(c => c.status === 'fail').length;
+  const warned = checks.filter(c => c.status === 'warn').length;
+  console.log('');
+  if (failed > 0) {
+    console.log(`❌ ${failed} check(s) failed, ${warned} warning(s)`);
+  } else if (warned > 0) {
+    console.log(`⚠️  All checks passed with ${warned} warning(s)`);
+  } else {
+    console.log(`✅ All ${checks.length} checks passed`);
+  }
+}
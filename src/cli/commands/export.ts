@@ -0,0 +1,83 @@
+/**
+ * hal export <compose|k8s|systemd> [--output <dir>] [--apply]
+ */
+
+import { CliArgs } from '../args.js';
+import { ComposeExporter } from '../../export/compose.js';
+import { K8sExporter } from '../../export/k8s.js';
+import { SystemdExporter } from '../../export/systemd.js';
+import { HomelabError } from '../../utils/errors.js';
+import { loadInstallation } from './common.js';
+import { resolve } from 'path';
+
+const FORMATS = ['compose', 'k8s', 'systemd'];
+
+function printWarnings(warnings: string[]): void {
+  for (const warning of warnings) {
+    console.log(`   ⚠️  ${warning}`);
+  }
+}
+
+export async function exportCommand(args: CliArgs): Promise<void> {
+  const [format] = args.targets || [];
+  if (!format || !FORMATS.includes(format)) {
+    throw new HomelabError(
+      `Unknown export format: ${format || '(none)'}. Available: ${FORMATS.join(', ')}`,
+      'UNKNOWN_EXPORT_FORMAT',
+      false,
+      { format },
+    );
+  }
+
+  const { config } = await loadInstallation();
+  const outputDir = resolve(args.output || `hal-${format}`);
+
+  console.log(`📦 Exporting ${config.selectedServices.length} service(s) to ${outputDir}`);
+
+  if (format === 'compose') {
+    const { files, warnings } = await new ComposeExporter(config).write(outputDir);
+    printWarnings(warnings);
+    for (const file of files) {
+      console.log(`   📄 ${file}`);
+    }
+
+    console.log('');
+    console.log(`✅ Export complete. Run ${files[1]} once, then use docker compose in ${outputDir}`);
+    return;
+  }
+
+  if (format === 'systemd') {
+    const exporter = new SystemdExporter(config);
+    const { files, result } = await exporter.write(outputDir);
+    printWarnings(result.warnings);
+    console.log(`   📄 ${files.length} ${result.runtime === 'podman' ? 'Quadlet' : 'systemd'} file(s) in ${outputDir}`);
+
+    if (args.apply) {
+      console.log('');
+      console.log('⚙️  Installing units...');
+      await exporter.install(files, result);
+    }
+
+    console.log('');
+    console.log(args.apply
+      ? '✅ Units installed, services will start in dependency order at boot (homelab.target)'
+      : '✅ Export complete. Install with: hal export systemd --apply');
+    return;
+  }
+
+  const exporter = new K8sExporter(config);
+  const { file, warnings } = await exporter.write(outputDir);
+  printWarnings(warnings);
+  console.log(`   📄 ${file}`);
+
+  if (args.apply) {
+    console.log('');
+    console.log('☸️  Applying manifests to k3s...');
+    console.log(await exporter.apply(file));
+  }
+
+  console.log('');
+  console.log(args.apply
+    ? '✅ Export applied'
+    : `✅ Export complete. Apply with: hal export k8s --apply (or kubectl apply -f ${file})`);
+}
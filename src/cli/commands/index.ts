@@ -0,0 +1,54 @@
+/**
+ * Subcommand dispatcher for operations on an existing installation
+ */
+
+import { CliArgs } from '../args.js';
+import { addCommand } from './add.js';
+import { backupCommand } from './backup.js';
+import { credentialsCommand } from './credentials.js';
+import { doctorCommand } from './doctor.js';
+import { exportCommand } from './export.js';
+import { migrateCommand } from './migrate.js';
+import { removeCommand } from './remove.js';
+import { restoreCommand } from './restore.js';
+import { resumeCommand } from './resume.js';
+import { retryFailedCommand } from './retry-failed.js';
+import { rotateSecretCommand } from './rotate-secret.js';
+import { statusCommand } from './status.js';
+import { upgradeCommand } from './upgrade.js';
+
+/**
+ * Run the subcommand selected in the parsed arguments
+ */
+export async function runCommand(args: CliArgs): Promise<void> {
+  switch (args.command) {
+    case 'add':
+      return addCommand(args);
+    case 'remove':
+      return removeCommand(args);
+    case 'status':
+      return statusCommand(args);
+    case 'upgrade':
+      return upgradeCommand(args);
+    case 'export':
+      return exportCommand(args);
+    case 'resume':
+      return resumeCommand(args);
+    case 'retry-failed':
+      return retryFailedCommand(args);
+    case 'doctor':
+      return doctorCommand(args);
+    case 'credentials':
+      return credentialsCommand(args);
+    case 'rotate-secret':
+      return rotateSecretCommand(args);
+    case 'backup':
+      return backupCommand(args);
+    case 'restore':
+      return restoreCommand(args);
+    case 'migrate':
+      return migrateCommand(args);
+    default:
+      throw new Error(`Unknown command: ${args.command}`);
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * hal migrate export [--output <dir>]
+ * hal migrate import --archive <bundle> [--ip <address>]
+ */
+
+import { CliArgs } from '../args.js';
+import { HomelabApplication } from '../../core/application.js';
+import { RestoreStep } from '../../core/backup.js';
+import { MigrationManager } from '../../core/migration.js';
+import { HomelabError } from '../../utils/errors.js';
+import { loadInstallation } from './common.js';
+
+const ACTIONS = ['export', 'import'];
+
+const STATUS_ICONS: Record<RestoreStep['status'], string> = {
+  'restored': '✅',
+  'skipped': '⏭️ ',
+  'failed': '❌',
+};
+
+export async function migrateCommand(args: CliArgs): Promise<void> {
+  const [action] = args.targets || [];
+  if (!action || !ACTIONS.includes(action)) {
+    throw new HomelabError(
+      `Unknown migrate action: ${action || '(none)'}. Available: ${ACTIONS.join(', ')}`,
+      'UNKNOWN_MIGRATE_ACTION',
+      false,
+      { action },
+    );
+  }
+
+  if (action === 'export') {
+    return exportBundle(args);
+  }
+  return importBundle(args);
+}
+
+async function exportBundle(args: CliArgs): Promise<void> {
+  const { config } = await loadInstallation();
+  console.log(`📦 Exporting ${config.selectedServices.length} service(s) for migration`);
+
+  const { location, manifest } = await new MigrationManager(config).export(args.output);
+
+  console.log('');
+  console.log(`✅ Migration bundle written to ${location}`);
+  if (manifest.keyFile) {
+    console.log('🔐 The bundle contains the key of the credentials file: keep it private');
+  } else if (manifest.passphrase) {
+    console.log('🔐 Set the same HAL_SECRETS_PASSPHRASE on the new host before importing');
+  }
+  console.log('💡 On the new host: hal migrate import --archive <bundle>');
+}
+
+async function importBundle(args: CliArgs): Promise<void> {
+  if (!args.archive) {
+    throw new HomelabError('Specify the bundle to import with --archive <file>', 'MISSING_ARCHIVE', false);
+  }
+
+  const plan = await MigrationManager.open(args.archive, args.ip);
+  try {
+    console.log(`📦 Migrating ${plan.config.selectedServices.length} service(s) from ${plan.manifest.hostname}`);
+    if (plan.previousIp !== plan.config.ip) {
+      console.log(`🌐 IP changes from ${plan.previousIp} to ${plan.config.ip} (Caddy, dnsmasq and URLs are regenerated)`);
+    }
+
+    const app = new HomelabApplication();
+    app.setConfig(plan.config);
+    app.setInstallHooks(plan.hooks);
+    if (args.parallel) {
+      app.setParallel(args.parallel);
+    }
+    if (args.force) {
+      app.setForce(true);
+    }
+    if (args.autoPorts) {
+      app.setAutoPorts(true);
+    }
+
+    try {
+      await app.run();
+    } finally {
+      console.log('');
+      console.log('📋 Data restore report:');
+      for (const step of plan.hooks.steps) {
+        console.log(`   ${STATUS_ICONS[step.status]} ${step.service}: ${step.status}${step.message ? ` (${step.message})` : ''}`);
+      }
+    }
+
+    if (plan.hooks.steps.some(s => s.status === 'failed')) {
+      process.exitCode = 1;
+    }
+  } finally {
+    await plan.close();
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * hal remove <service...> [--cascade] [--purge]
+ */
+
+import { CliArgs } from '../args.js';
+import { HomelabError } from '../../utils/errors.js';
+import { ServiceRemover } from '../../core/remover.js';
+import { loadInstallation, toServiceTypes } from './common.js';
+
+export async function removeCommand(args: CliArgs): Promise<void> {
+  const targets = toServiceTypes(args.targets);
+  if (targets.length === 0) {
+    throw new HomelabError('Specify at least one service to remove', 'MISSING_SERVICE', false);
+  }
+
+  const { state, config } = await loadInstallation();
+  const remover = new ServiceRemover(config, state.managementUI);
+  const removed = await remover.remove(targets, { cascade: args.cascade, purge: args.purge });
+
+  console.log('');
+  console.log(`✅ Removed ${removed.length} service(s): ${removed.join(', ')}`);
+  if (!args.purge) {
+    console.log('   Volumes and data were kept. Use --purge to delete them.');
+  }
+}
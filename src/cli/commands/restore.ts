@@ -0,0 +1,37 @@
+/**
+ * hal restore --archive <file> [service...] [--bucket]
+ */
+
+import { CliArgs } from '../args.js';
+import { HomelabError } from '../../utils/errors.js';
+import { BackupManager, RestoreStep } from '../../core/backup.js';
+import { loadInstallation, toServiceTypes } from './common.js';
+
+const STATUS_ICONS: Record<RestoreStep['status'], string> = {
+  'restored': '✅',
+  'skipped': '⏭️ ',
+  'failed': '❌',
+};
+
+export async function restoreCommand(args: CliArgs): Promise<void> {
+  if (!args.archive) {
+    throw new HomelabError('Specify the backup to restore with --archive <file>', 'MISSING_ARCHIVE', false);
+  }
+  const targets = toServiceTypes(args.targets);
+  const { config } = await loadInstallation();
+
+  const steps = await new BackupManager(config).restore(args.archive, targets, args.bucket);
+
+  console.log('');
+  console.log('📋 Restore report:');
+  for (const step of steps) {
+    console.log(`   ${STATUS_ICONS[step.status]} ${step.service}: ${step.status}${step.message ? ` (${step.message})` : ''}`);
+  }
+
+  const restored = steps.filter(s => s.status === 'restored' && s.service !== 'config');
+  console.log('');
+  console.log(`✅ ${restored.length} service(s) restored`);
+  if (steps.some(s => s.status === 'failed')) {
+    process.exitCode = 1;
+  }
+}
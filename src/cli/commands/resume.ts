@@ -0,0 +1,40 @@
+/**
+ * hal resume
+ */
+
+import { CliArgs } from '../args.js';
+import { HomelabApplication } from '../../core/application.js';
+import { StateManager } from '../../utils/state.js';
+import { loadInstallation } from './common.js';
+
+export async function resumeCommand(args: CliArgs): Promise<void> {
+  const { state, config } = await loadInstallation();
+  const unfinished = StateManager.getUnfinished(state);
+  const failed = state.failedServices || [];
+
+  if (unfinished.length === 0) {
+    console.log('✅ Nothing to resume, every service finished installing');
+    if (failed.length > 0) {
+      console.log(`💡 ${failed.length} service(s) failed: ${failed.join(', ')}. Run: hal retry-failed`);
+    }
+    return;
+  }
+
+  console.log(`▶️  Resuming installation of ${unfinished.length} service(s): ${unfinished.join(', ')}`);
+
+  const app = new HomelabApplication();
+  app.setConfig(config);
+  if (args.parallel) {
+    app.setParallel(args.parallel);
+  }
+  if (args.force) {
+    app.setForce(true);
+  }
+  if (args.autoPorts) {
+    app.setAutoPorts(true);
+  }
+
+  const installed = await app.resume(unfinished, failed);
+  console.log('');
+  console.log(`✅ Resumed ${installed.length} of ${unfinished.length} service(s)`);
+}
@@ -0,0 +1,35 @@
+/**
+ * hal retry-failed
+ */
+
+import { CliArgs } from '../args.js';
+import { HomelabApplication } from '../../core/application.js';
+import { loadInstallation } from './common.js';
+
+export async function retryFailedCommand(args: CliArgs): Promise<void> {
+  const { state, config } = await loadInstallation();
+  const failed = state.failedServices || [];
+
+  if (failed.length === 0) {
+    console.log('✅ No failed services to retry');
+    return;
+  }
+
+  console.log(`🔁 Retrying ${failed.length} failed service(s): ${failed.join(', ')}`);
+
+  const app = new HomelabApplication();
+  app.setConfig(config);
+  if (args.parallel) {
+    app.setParallel(args.parallel);
+  }
+  if (args.force) {
+    app.setForce(true);
+  }
+  if (args.autoPorts) {
+    app.setAutoPorts(true);
+  }
+
+  const installed = await app.resume(failed);
+  console.log('');
+  console.log(`✅ ${installed.length} of ${failed.length} service(s) installed`);
+}
@@ -0,0 +1,39 @@
+/**
+ * hal rotate-secret <service>
+ */
+
+import { CliArgs } from '../args.js';
+import { HomelabError } from '../../utils/errors.js';
+import { SecretRotator, RotationStep } from '../../core/rotator.js';
+import { loadInstallation, toServiceTypes } from './common.js';
+
+const STATUS_ICONS: Record<RotationStep['status'], string> = {
+  'recreated': '✅',
+  'failed': '❌',
+  'skipped': '⏭️ ',
+};
+
+export async function rotateSecretCommand(args: CliArgs): Promise<void> {
+  const targets = toServiceTypes(args.targets);
+  if (targets.length !== 1) {
+    throw new HomelabError('Specify one service whose secrets to rotate', 'MISSING_SERVICE', false);
+  }
+
+  const { config } = await loadInstallation();
+  const result = await new SecretRotator(config).rotate(targets[0]);
+
+  console.log('');
+  console.log(`🔐 Rotated: ${result.rotated.join(', ')}`);
+  if (result.unchanged.length > 0) {
+    console.log(`   Not database passwords, kept: ${result.unchanged.join(', ')}`);
+  }
+  for (const step of result.services) {
+    console.log(`   ${STATUS_ICONS[step.status]} ${step.service}: ${step.status}${step.message ? ` (${step.message})` : ''}`);
+  }
+
+  if (result.services.some(s => s.status !== 'recreated')) {
+    console.log('');
+    console.log('❌ Some services did not come up with the new password; it is already saved (see hal credentials)');
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * hal status [--json]
+ */
+
+import { CliArgs } from '../args.js';
+import { StatusReporter, ServiceStatus, ContainerStatus } from '../../core/status.js';
+import { loadInstallation } from './common.js';
+
+function stateIcon(container: ContainerStatus): string {
+  if (container.state !== 'running') return '🔴';
+  if (container.health === 'unhealthy') return '🟠';
+  return '🟢';
+}
+
+function printTable(statuses: ServiceStatus[]): void {
+  const rows: string[][] = [['', 'SERVICE', 'CONTAINER', 'STATE', 'UPTIME', 'RESTARTS', 'PORTS', 'URL']];
+
+  for (const status of statuses) {
+    for (const container of status.containers) {
+      const state = container.health ? `${container.state} (${container.health})` : container.state;
+      rows.push([
+        stateIcon(container),
+        status.service,
+        container.name,
+        state,
+        container.uptime || '-',
+        String(container.restartCount),
+        container.ports.join(', ') || '-',
+        status.url,
+      ]);
+    }
+    for (const container of status.missingContainers) {
+      rows.push(['❌', status.service, container, 'missing', '-', '-', '-', status.url]);
+    }
+  }
+
+  // Icon column is emoji, keep it out of width calculations
+  const widths = rows[0].map((_, i) => Math.max(...rows.map(r => r[i].length)));
+  for (const row of rows) {
+    const [icon, ...cells] = row;
+    const line = cells.map((cell, i) => cell.padEnd(widths[i + 1])).join('  ');
+    console.log(`${icon || '  '} ${line}`.trimEnd());
+  }
+}
+
+export async function statusCommand(args: CliArgs): Promise<void> {
+  const { state, config } = await loadInstallation();
+  const statuses = await new StatusReporter(config).collect(args.json);
+
+  if (args.json) {
+    console.log(JSON.stringify({
+      ip: state.ip,
+      domain: state.domain,
+      installedAt: state.installedAt,
+      services: statuses,
+    }, null, 2));
+    return;
+  }
+
+  console.log(`📋 HomeLab status (${state.domain} @ ${state.ip})`);
+  console.log('');
+  printTable(statuses);
+
+  const missing = statuses.filter(s => s.missingContainers.length > 0);
+  const stopped = statuses.filter(s => s.containers.some(c => c.state !== 'running'));
+  console.log('');
+  if (missing.length > 0) {
+    console.log(`⚠️  ${missing.length} service(s) in state without container: ${missing.map(s => s.service).join(', ')}`);
+  }
+  if (stopped.length > 0) {
+    console.log(`⚠️  ${stopped.length} service(s) not running: ${stopped.map(s => s.service).join(', ')}`);
+  }
+  if (missing.length === 0 && stopped.length === 0) {
+    console.log(`✅ All ${statuses.length} services are running`);
+  }
+}
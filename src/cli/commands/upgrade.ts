@@ -0,0 +1,42 @@
+/**
+ * hal upgrade [service...]
+ */
+
+import { CliArgs } from '../args.js';
+import { ServiceUpgrader, UpgradeResult } from '../../core/upgrader.js';
+import { loadInstallation, toServiceTypes } from './common.js';
+
+const STATUS_ICONS: Record<UpgradeResult['status'], string> = {
+  'upgraded': '⬆️ ',
+  'unchanged': '✅',
+  'rolled-back': '↩️ ',
+  'failed': '❌',
+  'skipped': '⏭️ ',
+};
+
+const shortId = (id: string) => id.replace(/^sha256:/, '').slice(0, 12);
+
+export async function upgradeCommand(args: CliArgs): Promise<void> {
+  const targets = toServiceTypes(args.targets);
+  const { config } = await loadInstallation();
+
+  const results = await new ServiceUpgrader(config).upgrade(targets);
+
+  console.log('');
+  console.log('📋 Upgrade report:');
+  for (const result of results) {
+    console.log(`   ${STATUS_ICONS[result.status]} ${result.service}: ${result.status}${result.message ? ` (${result.message})` : ''}`);
+    for (const change of result.images) {
+      console.log(`      ${change.image}: ${shortId(change.from)} → ${shortId(change.to)}`);
+    }
+  }
+
+  const changed = results.filter(r => r.status === 'upgraded');
+  const failed = results.filter(r => r.status === 'failed' || r.status === 'rolled-back');
+  console.log('');
+  console.log(`✅ ${changed.length} service(s) upgraded, ${failed.length} failed or rolled back`);
+
+  if (results.some(r => r.status === 'failed')) {
+    process.exitCode = 1;
+  }
+}
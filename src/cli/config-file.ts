@@ -0,0 +1,309 @@
+/**
+ * Declarative configuration file (hal.yml) for non-interactive installs
+ * Describes the whole HomelabConfig plus per-service overrides, with ${ENV}
+ * references so secrets stay out of the file
+ */
+
+import { ServiceType, ServiceOverride, BackupSchedule } from '../core/types.js';
+import { BackupScheduler } from '../core/backup-schedule.js';
+import { HomelabError } from '../utils/errors.js';
+import { validateIP, validateDomain, validateNetworkName } from '../utils/validation.js';
+import { readFile } from 'fs/promises';
+
+export interface HalConfigFile {
+  ip?: string;
+  domain?: string;
+  networkName?: string;
+  configPath?: string;
+  dataPath?: string;
+  storagePassword?: string;
+  managementUI?: ServiceType;
+  /** Optional services with their overrides; undefined means the default selection */
+  services?: Partial<Record<ServiceType, ServiceOverride>>;
+}
+
+const TOP_LEVEL_KEYS = ['ip', 'domain', 'networkName', 'configPath', 'dataPath', 'storagePassword', 'managementUI', 'services'];
+const SERVICE_KEYS = ['enabled', 'tag', 'env', 'port', 'dataPath', 'backup'];
+const BACKUP_KEYS = ['schedule', 'keepDaily', 'keepWeekly', 'keepMonthly', 'bucket'];
+const CORE_SERVICES = [ServiceType.CADDY, ServiceType.COPYPARTY];
+const MANAGEMENT_UIS = [ServiceType.DOCKHAND, ServiceType.ARCANE];
+
+const TAG_REGEX = /^[A-Za-z0-9_][A-Za-z0-9_.-]{0,127}$/;
+const ENV_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const RELATIVE_PATH_REGEX = /^[A-Za-z0-9._-]+(\/[A-Za-z0-9._-]+)*$/;
+
+/**
+ * Loads, resolves and validates hal.yml files
+ */
+export class ConfigFile {
+  /**
+   * Read and validate a configuration file
+   * @param env Variables for ${ENV} references (process.env by default)
+   */
+  static async load(path: string, env: Record<string, string | undefined> = process.env): Promise<HalConfigFile> {
+    let content: string;
+    try {
+      content = await readFile(path, 'utf-8');
+    } catch (error) {
+      throw new HomelabError(
+        `Cannot read configuration file ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        'CONFIG_FILE_NOT_FOUND',
+        false,
+        { path },
+      );
+    }
+    return this.parse(content, path, env);
+  }
+
+  /**
+   * Parse YAML content, resolve ${ENV} references and validate it
+   * @throws HomelabError (CONFIG_FILE_INVALID) listing every problem found
+   */
+  static parse(content: string, source: string, env: Record<string, string | undefined> = process.env): HalConfigFile {
+    let raw: unknown;
+    try {
+      raw = Bun.YAML.parse(content);
+    } catch (error) {
+      throw this.invalid(source, [`not valid YAML (${error instanceof Error ? error.message : String(error)})`]);
+    }
+
+    const errors: string[] = [];
+    const resolved = this.resolveEnv(raw ?? {}, env, '', errors);
+    const config = errors.length === 0 ? this.validate(resolved, errors) : {};
+
+    if (errors.length > 0) {
+      throw this.invalid(source, errors);
+    }
+    return config;
+  }
+
+  /**
+   * Replace ${VAR} and ${VAR:-default} in every string value
+   */
+  static resolveEnv(value: unknown, env: Record<string, string | undefined>, path: string, errors: string[]): unknown {
+    if (typeof value === 'string') {
+      return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_match, name: string, fallback?: string) => {
+        const resolved = env[name] ?? fallback;
+        if (resolved === undefined) {
+          errors.push(`${path || 'value'}: environment variable ${name} is not set`);
+          return '';
+        }
+        return resolved;
+      });
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, i) => this.resolveEnv(item, env, `${path}[${i}]`, errors));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+        [key, this.resolveEnv(item, env, path ? `${path}.${key}` : key, errors)]));
+    }
+    return value;
+  }
+
+  /**
+   * Check the structure and values of a resolved configuration
+   */
+  private static validate(raw: unknown, errors: string[]): HalConfigFile {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      errors.push('expected a mapping of settings at the top level');
+      return {};
+    }
+
+    const input = raw as Record<string, unknown>;
+    const config: HalConfigFile = {};
+
+    for (const key of Object.keys(input).filter(k => !TOP_LEVEL_KEYS.includes(k))) {
+      errors.push(`${key}: unknown setting (expected one of ${TOP_LEVEL_KEYS.join(', ')})`);
+    }
+
+    const check = (field: string, validator: (value: string) => void): string | undefined => {
+      const value = input[field];
+      if (value === undefined || value === null) return undefined;
+      if (typeof value !== 'string') {
+        errors.push(`${field}: must be a string`);
+        return undefined;
+      }
+      try {
+        validator(value);
+        return value.trim();
+      } catch (error) {
+        errors.push(`${field}: ${error instanceof Error ? error.message : String(error)}`);
+        return undefined;
+      }
+    };
+    const relativePath = (value: string) => {
+      if (!RELATIVE_PATH_REGEX.test(value) || value.split('/').includes('..')) {
+        throw new Error('must be a path relative to the home directory (e.g. ws/data)');
+      }
+    };
+
+    config.ip = check('ip', validateIP);
+    config.domain = check('domain', validateDomain);
+    config.networkName = check('networkName', validateNetworkName);
+    config.configPath = check('configPath', relativePath);
+    config.dataPath = check('dataPath', relativePath);
+    config.storagePassword = check('storagePassword', () => {});
+
+    const managementUI = check('managementUI', value => {
+      if (!MANAGEMENT_UIS.includes(value as ServiceType)) {
+        throw new Error(`must be one of ${MANAGEMENT_UIS.join(', ')}`);
+      }
+    });
+    if (managementUI) config.managementUI = managementUI as ServiceType;
+
+    if (input.services !== undefined && input.services !== null) {
+      config.services = this.validateServices(input.services, errors, relativePath);
+    }
+
+    // Drop settings that were not given
+    return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined)) as HalConfigFile;
+  }
+
+  private static validateServices(
+    raw: unknown,
+    errors: string[],
+    relativePath: (value: string) => void,
+  ): Partial<Record<ServiceType, ServiceOverride>> {
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+      errors.push('services: must be a mapping of service names to settings (e.g. n8n: { tag: "1.80.0" })');
+      return {};
+    }
+
+    const validServices = Object.values(ServiceType) as string[];
+    const services: Partial<Record<ServiceType, ServiceOverride>> = {};
+    const ports = new Map<number, string>();
+
+    for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+      const field = `services.${name}`;
+      if (!validServices.includes(name)) {
+        errors.push(`${field}: unknown service`);
+        continue;
+      }
+      if (value !== null && (typeof value !== 'object' || Array.isArray(value))) {
+        errors.push(`${field}: must be a mapping of settings or empty`);
+        continue;
+      }
+
+      const settings = (value || {}) as Record<string, unknown>;
+      const override: ServiceOverride = {};
+
+      for (const key of Object.keys(settings).filter(k => !SERVICE_KEYS.includes(k))) {
+        errors.push(`${field}.${key}: unknown setting (expected one of ${SERVICE_KEYS.join(', ')})`);
+      }
+
+      if (settings.enabled !== undefined) {
+        if (typeof settings.enabled !== 'boolean') {
+          errors.push(`${field}.enabled: must be true or false`);
+        } else if (!settings.enabled && CORE_SERVICES.includes(name as ServiceType)) {
+          errors.push(`${field}.enabled: core services cannot be disabled`);
+        } else {
+          override.enabled = settings.enabled;
+        }
+      }
+
+      if (settings.tag !== undefined) {
+        const tag = String(settings.tag);
+        if (!TAG_REGEX.test(tag)) {
+          errors.push(`${field}.tag: invalid image tag "${tag}"`);
+        } else {
+          override.tag = tag;
+        }
+      }
+
+      if (settings.port !== undefined) {
+        const port = Number(settings.port);
+        if (!Number.isInteger(port) || port < 1 || port > 65535) {
+          errors.push(`${field}.port: must be a port number between 1 and 65535`);
+        } else if (ports.has(port)) {
+          errors.push(`${field}.port: ${port} is already used by services.${ports.get(port)}`);
+        } else {
+          ports.set(port, name);
+          override.port = port;
+        }
+      }
+
+      if (settings.dataPath !== undefined) {
+        try {
+          relativePath(String(settings.dataPath));
+          override.dataPath = String(settings.dataPath);
+        } catch (error) {
+          errors.push(`${field}.dataPath: ${(error as Error).message}`);
+        }
+      }
+
+      if (settings.env !== undefined) {
+        if (!settings.env || typeof settings.env !== 'object' || Array.isArray(settings.env)) {
+          errors.push(`${field}.env: must be a mapping of variable names to values`);
+        } else {
+          override.env = {};
+          for (const [key, envValue] of Object.entries(settings.env as Record<string, unknown>)) {
+            if (!ENV_NAME_REGEX.test(key)) {
+              errors.push(`${field}.env.${key}: invalid variable name`);
+            } else if (envValue === null || typeof envValue === 'object') {
+              errors.push(`${field}.env.${key}: must be a string, number or boolean`);
+            } else {
+              override.env[key] = String(envValue);
+            }
+          }
+        }
+      }
+
+      if (settings.backup !== undefined) {
+        const backup = this.validateBackup(settings.backup, `${field}.backup`, errors);
+        if (backup) {
+          override.backup = backup;
+        }
+      }
+
+      services[name as ServiceType] = override;
+    }
+
+    return services;
+  }
+
+  /**
+   * Validate a backup schedule (schedule: "0 3 * * *", keepDaily: 7, ...)
+   */
+  private static validateBackup(value: unknown, field: string, errors: string[]): BackupSchedule | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      errors.push(`${field}: must be a mapping with a cron schedule (e.g. schedule: "0 3 * * *")`);
+      return undefined;
+    }
+
+    const settings = value as Record<string, unknown>;
+    const count = errors.length;
+    for (const key of Object.keys(settings).filter(k => !BACKUP_KEYS.includes(k))) {
+      errors.push(`${field}.${key}: unknown setting (expected one of ${BACKUP_KEYS.join(', ')})`);
+    }
+
+    if (typeof settings.schedule !== 'string') {
+      errors.push(`${field}.schedule: must be a cron expression (minute hour day-of-month month day-of-week)`);
+    } else {
+      try {
+        BackupScheduler.toOnCalendar(settings.schedule);
+      } catch (error) {
+        errors.push(`${field}.schedule: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    for (const key of ['keepDaily', 'keepWeekly', 'keepMonthly']) {
+      if (settings[key] !== undefined && !(Number.isInteger(settings[key]) && (settings[key] as number) >= 0)) {
+        errors.push(`${field}.${key}: must be a whole number of restore points`);
+      }
+    }
+    if (settings.bucket !== undefined && typeof settings.bucket !== 'boolean') {
+      errors.push(`${field}.bucket: must be true or false`);
+    }
+
+    return errors.length === count ? (settings as unknown as BackupSchedule) : undefined;
+  }
+
+  private static invalid(source: string, errors: string[]): HomelabError {
+    return new HomelabError(
+      `Invalid configuration file ${source}:\n${errors.map(e => `  - ${e}`).join('\n')}`,
+      'CONFIG_FILE_INVALID',
+      false,
+      { source, errors },
+    );
+  }
+}
@@ -4,7 +4,8 @@
 
 import { HomelabConfig, DistributionType, ServiceType } from '../core/types.js';
 import { HomelabError } from '../utils/errors.js';
-import { collectUserConfiguration, collectUserConfigurationFromArgs, promptForConfirmation, promptForPreviousInstallation } from './prompts.js';
+import { collectUserConfiguration, collectUserConfigurationFromArgs, collectUserConfigurationFromFile, promptForConfirmation, promptForPreviousInstallation } from './prompts.js';
+import { ConfigFile } from './config-file.js';
 import { StateManager } from '../utils/state.js';
 import { parseArgs, CliArgs, USAGE } from './args.js';
 
@@ -65,7 +66,7 @@ export class CLIInterface {
               console.log('❌ Configuration cancelled by user.');
               process.exit(0);
             }
-            return this.validateAndCompleteConfig();
+            return this.completeConfig();
           }
         }
         console.log('   Starting fresh configuration...\n');
@@ -89,7 +90,7 @@ export class CLIInterface {
       }
 
       // Validate and return complete configuration
-      return this.validateAndCompleteConfig();
+      return this.completeConfig();
 
     } catch (error) {
       this.handleError(error);
@@ -103,6 +104,19 @@ export class CLIInterface {
   private async runNonInteractive(): Promise<HomelabConfig> {
     console.log('⚙️  Non-interactive mode: using provided arguments and defaults.\n');
 
+    if (this.args.configFile) {
+      console.log(`   📄 Using configuration file ${this.args.configFile}`);
+      const file = await ConfigFile.load(this.args.configFile);
+      this.config = await collectUserConfigurationFromFile(file, {
+        ip: this.args.ip,
+        domain: this.args.domain,
+        password: this.args.password || (file.storagePassword ? undefined : await this.getPreviousSharedPassword()),
+      });
+
+      await this.displayConfigurationSummary();
+      return this.completeConfig();
+    }
+
     // --nolist takes priority over --list
     let services = this.args.nolist ? undefined : this.args.list;
     let excludeMode = !!this.args.nolist;
@@ -123,12 +137,24 @@ export class CLIInterface {
       this.args.ip,
       this.args.domain,
       services,
-      this.args.password,
+      this.args.password || await this.getPreviousSharedPassword(),
       excludeMode ? this.args.nolist : undefined,
     );
 
     await this.displayConfigurationSummary();
-    return this.validateAndCompleteConfig();
+    return this.completeConfig();
+  }
+
+  /**
+   * Shared password of a previous legacy installation, so databases created with it
+   * keep working when hal runs again without --password
+   */
+  private async getPreviousSharedPassword(): Promise<string | undefined> {
+    const previous = await StateManager.load();
+    if (previous?.storagePassword) {
+      console.log('   🔐 Keeping the shared password of the previous installation (legacy mode)');
+    }
+    return previous?.storagePassword;
   }
 
   /**
@@ -167,6 +193,14 @@ export class CLIInterface {
 
       if (this.config.storagePassword) {
         console.log('   🔐 Storage password: [CONFIGURED]');
+        console.log('      Shared by all services (legacy mode)');
+      } else if (this.config.credentials) {
+        console.log('   🔐 Credentials: generated per service (see hal credentials)');
+      }
+
+      const overridden = Object.keys(this.config.serviceOverrides || {});
+      if (overridden.length > 0) {
+        console.log(`   ⚙️  Service overrides: ${overridden.join(', ')}`);
       }
     }
     console.log('═'.repeat(50));
@@ -293,6 +327,20 @@ export class CLIInterface {
     return serviceNames[service] || service;
   }
 
+  /**
+   * Keep the host ports reassigned by --auto-ports and the route checks of the previous
+   * installation, so a re-run publishes the same ports, then validate the configuration
+   */
+  private async completeConfig(): Promise<HomelabConfig> {
+    const previous = await StateManager.load(this.config.configPath);
+    if (previous) {
+      const { portMappings, routeChecks } = StateManager.toConfig(previous);
+      this.config.portMappings = this.config.portMappings || portMappings;
+      this.config.routeChecks = this.config.routeChecks || routeChecks;
+    }
+    return this.validateAndCompleteConfig();
+  }
+
   /**
    * Validate the collected configuration and ensure all required fields are present
    */
@@ -334,6 +382,10 @@ export class CLIInterface {
       dataPath: this.config.dataPath || 'ws/data',
       selectedServices: sanitizedServices,
       storagePassword: this.config.storagePassword,
+      credentials: this.config.credentials,
+      serviceOverrides: this.config.serviceOverrides,
+      portMappings: this.config.portMappings,
+      routeChecks: this.config.routeChecks,
       distribution: DistributionType.UBUNTU // Will be overridden by detection
     };
   }
@@ -0,0 +1,291 @@
+/**
+ * Service profiles and selectors for --list and the interactive selection
+ * A selector is a service name, 'defaults', 'profile:<name>', 'tag:<name>',
+ * or any of those prefixed with '-' to exclude it (e.g. profile:ai,tag:database,-kafka)
+ */
+
+import { ServiceType } from '../core/types.js';
+import { HomelabError } from '../utils/errors.js';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { homedir } from 'os';
+
+/**
+ * Optional services installed when nothing else is selected
+ */
+export const DEFAULT_OPTIONAL_SERVICES: ServiceType[] = [
+  ServiceType.RUSTFS,
+  ServiceType.POSTGRESQL,
+  ServiceType.REDIS,
+  ServiceType.KAFKA,
+  ServiceType.TINYAUTH,
+  ServiceType.NTFY,
+  ServiceType.MAILPIT,
+  // ServiceType.INFISCAL,
+  ServiceType.CLOUDFLARED,
+];
+
+export const BUILTIN_PROFILES: Record<string, { description: string; services: ServiceType[] }> = {
+  defaults: {
+    description: 'Default selection (storage, databases, messaging, auth, notifications)',
+    services: DEFAULT_OPTIONAL_SERVICES,
+  },
+  ai: {
+    description: 'Local LLMs, chat UI, LLM proxy and RAG',
+    services: [ServiceType.OLLAMA, ServiceType.OPENWEBUI, ServiceType.LITELLM, ServiceType.QDRANT, ServiceType.LIGHTRAG],
+  },
+  observability: {
+    description: 'Metrics, dashboards, logs and uptime monitoring',
+    services: [
+      ServiceType.PROMETHEUS, ServiceType.GRAFANA, ServiceType.LOKI,
+      ServiceType.FLUENTBIT, ServiceType.UPTIMEKUMA, ServiceType.DOZZLE,
+    ],
+  },
+  devops: {
+    description: 'Git server, CI/CD, registry, code quality and IDE',
+    services: [
+      ServiceType.FORGEJO, ServiceType.JENKINS, ServiceType.REGISTRY,
+      ServiceType.SONARQUBE, ServiceType.TRIVY, ServiceType.CODESERVER, ServiceType.POSTGRESQL,
+    ],
+  },
+  office: {
+    description: 'Wiki, spreadsheets, diagrams, documents and PDF tools',
+    services: [
+      ServiceType.OUTLINE, ServiceType.GRIST, ServiceType.EXCALIDRAW, ServiceType.DRAWIO,
+      ServiceType.STIRLINGPDF, ServiceType.DOCUSEAL, ServiceType.POSTGRESQL, ServiceType.REDIS,
+    ],
+  },
+  identity: {
+    description: 'Single sign-on, identity providers and password manager',
+    services: [
+      ServiceType.KEYCLOAK, ServiceType.AUTHELIA, ServiceType.POCKETID,
+      ServiceType.VAULTWARDEN, ServiceType.POSTGRESQL, ServiceType.REDIS,
+    ],
+  },
+};
+
+/**
+ * Service categories for tag:<name> selectors
+ */
+export const SERVICE_TAGS: Record<string, ServiceType[]> = {
+  database: [
+    ServiceType.POSTGRESQL, ServiceType.REDIS, ServiceType.MONGODB, ServiceType.MARIADB,
+    ServiceType.SCYLLADB, ServiceType.DUCKDB, ServiceType.OPENSEARCH, ServiceType.QDRANT,
+  ],
+  messaging: [ServiceType.KAFKA, ServiceType.KAFKAUI, ServiceType.RABBITMQ, ServiceType.NTFY],
+  storage: [ServiceType.RUSTFS, ServiceType.FILESTASH, ServiceType.SEAFILE, ServiceType.SEND, ServiceType.PSITRANSFER],
+  ai: [
+    ServiceType.OLLAMA, ServiceType.OPENWEBUI, ServiceType.OPENNOTEBOOKLM, ServiceType.LITELLM,
+    ServiceType.ANYTHINGLLM, ServiceType.LIGHTRAG, ServiceType.VOICEBOX, ServiceType.COPILOTKIT,
+    ServiceType.GOOSE, ServiceType.HERMES, ServiceType.OPENCLAW, ServiceType.FIRECRAWL,
+    ServiceType.PRESENTON, ServiceType.ORCAROUTERLITE, ServiceType.LIBRETRANSLATE,
+  ],
+  observability: [
+    ServiceType.PROMETHEUS, ServiceType.GRAFANA, ServiceType.LOKI, ServiceType.FLUENTBIT,
+    ServiceType.COROOT, ServiceType.UPTIMEKUMA, ServiceType.DOZZLE,
+  ],
+  devops: [
+    ServiceType.FORGEJO, ServiceType.ONEDEV, ServiceType.JENKINS, ServiceType.SEMAPHORE,
+    ServiceType.REGISTRY, ServiceType.NEXUS, ServiceType.SONARQUBE, ServiceType.TRIVY,
+    ServiceType.K3D, ServiceType.CODESERVER, ServiceType.BACKSTAGE, ServiceType.LIQUIBASE,
+  ],
+  testing: [ServiceType.KARATE, ServiceType.HOPPSCOTCH, ServiceType.RAPIDOC, ServiceType.K6, ServiceType.MAILPIT],
+  cloud: [ServiceType.FLOCI, ServiceType.FLOCIAZ, ServiceType.FLOCIGCP, ServiceType.K3D],
+  identity: [
+    ServiceType.KEYCLOAK, ServiceType.AUTHELIA, ServiceType.TINYAUTH, ServiceType.POCKETID,
+  ],
+  security: [ServiceType.VAULT, ServiceType.INFISCAL, ServiceType.VAULTWARDEN, ServiceType.TRIVY],
+  office: [
+    ServiceType.OUTLINE, ServiceType.GRIST, ServiceType.NOCODB, ServiceType.EXCALIDRAW,
+    ServiceType.DRAWIO, ServiceType.WISEMAPPING, ServiceType.KROKI, ServiceType.SLIDEV,
+    ServiceType.STIRLINGPDF, ServiceType.DOCUSEAL, ServiceType.PANDOCWEB, ServiceType.CALIBREWEB,
+  ],
+  business: [
+    ServiceType.TWENTYCRM, ServiceType.CHATWOOT, ServiceType.MEDUSAJS, ServiceType.HULY,
+    ServiceType.CALCOM, ServiceType.JASPERREPORTS, ServiceType.PLAUSIBLE, ServiceType.LISTMONK,
+  ],
+  lowcode: [
+    ServiceType.N8N, ServiceType.TOOLJET, ServiceType.KESTRA, ServiceType.KEYSTONEJS,
+    ServiceType.DIRECTUS, ServiceType.INSFORGE, ServiceType.NOCODB,
+  ],
+  data: [ServiceType.SPARK, ServiceType.JUPYTERLAB, ServiceType.REDASH, ServiceType.DUCKDB],
+  network: [
+    ServiceType.APISIX, ServiceType.CONSUL, ServiceType.ADGUARD, ServiceType.CLOUDFLARED,
+    ServiceType.HEADSCALE, ServiceType.WETTY, ServiceType.RUSTDESK, ServiceType.SHLINK,
+  ],
+  mail: [ServiceType.MAILPIT, ServiceType.MAILSERVER, ServiceType.LISTMONK],
+  media: [ServiceType.IMMICH, ServiceType.CALIBREWEB, ServiceType.LINKWARDEN, ServiceType.SEARXNG],
+};
+
+const PROFILES_FILENAME = 'hal-profiles.yml';
+const PROFILE_NAME_REGEX = /^[a-z0-9][a-z0-9_-]*$/;
+
+/** Services that are always installed and never part of a selection */
+const NOT_SELECTABLE = [ServiceType.CADDY, ServiceType.COPYPARTY, ServiceType.DOCKHAND, ServiceType.ARCANE];
+
+/**
+ * Resolves service selectors against the built-in and custom profiles
+ */
+export class ServiceProfiles {
+  /**
+   * Path of the custom profiles file (next to the installation state)
+   */
+  static getPath(configPath?: string): string {
+    return join(homedir(), configPath || join('ws', 'init'), PROFILES_FILENAME);
+  }
+
+  /**
+   * Whether a --list token has selector syntax (profiles and tags are checked on resolve)
+   */
+  static isSelector(token: string): boolean {
+    const value = token.startsWith('-') ? token.slice(1) : token;
+    const match = value.match(/^(profile|tag):(.+)$/);
+    if (match) {
+      return PROFILE_NAME_REGEX.test(match[2]);
+    }
+    return value === 'defaults' || Object.values(ServiceType).includes(value as ServiceType);
+  }
+
+  /**
+   * Load custom profiles from hal-profiles.yml; a missing file means no custom profiles
+   *
+   * profiles:
+   *   mystack: [profile:ai, postgresql, -kafka]
+   */
+  static async loadCustom(path: string = this.getPath()): Promise<Record<string, string[]>> {
+    let content: string;
+    try {
+      content = await readFile(path, 'utf-8');
+    } catch {
+      return {};
+    }
+    return this.parseCustom(content, path);
+  }
+
+  /**
+   * Parse and validate the content of a custom profiles file
+   * @throws HomelabError (PROFILES_FILE_INVALID) listing every problem found
+   */
+  static parseCustom(content: string, source: string): Record<string, string[]> {
+    const errors: string[] = [];
+    const profiles: Record<string, string[]> = {};
+
+    let raw: any;
+    try {
+      raw = Bun.YAML.parse(content);
+    } catch (error) {
+      errors.push(`not valid YAML (${error instanceof Error ? error.message : String(error)})`);
+    }
+
+    if (errors.length === 0) {
+      const entries = raw?.profiles;
+      if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+        errors.push('expected a "profiles" mapping of profile names to service lists');
+      } else {
+        for (const [name, value] of Object.entries(entries as Record<string, unknown>)) {
+          if (!PROFILE_NAME_REGEX.test(name)) {
+            errors.push(`profiles.${name}: invalid profile name (use lowercase letters, digits, - and _)`);
+          } else if (!Array.isArray(value) || value.length === 0) {
+            errors.push(`profiles.${name}: must be a non-empty list of services or selectors`);
+          } else {
+            const tokens = value.map(item => String(item).trim().toLowerCase());
+            for (const token of tokens.filter(t => !this.isSelector(t))) {
+              errors.push(`profiles.${name}: unknown service or selector "${token}"`);
+            }
+            profiles[name] = tokens;
+          }
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new HomelabError(
+        `Invalid profiles file ${source}:\n${errors.map(e => `  - ${e}`).join('\n')}`,
+        'PROFILES_FILE_INVALID',
+        false,
+        { source, errors },
+      );
+    }
+    return profiles;
+  }
+
+  /**
+   * Names and descriptions of the available profiles (custom profiles override built-in ones)
+   */
+  static list(custom: Record<string, string[]> = {}): { name: string; description: string }[] {
+    const names = [...new Set([...Object.keys(BUILTIN_PROFILES), ...Object.keys(custom)])];
+    return names.map(name => ({
+      name,
+      description: custom[name] ? `Custom: ${custom[name].join(', ')}` : BUILTIN_PROFILES[name].description,
+    }));
+  }
+
+  /**
+   * Resolve selectors to optional services. Inclusions are applied first and
+   * exclusions last; a list with only exclusions starts from the defaults.
+   * @throws HomelabError (UNKNOWN_SELECTOR) for unknown profiles, tags or services
+   */
+  static resolve(selectors: string[], custom: Record<string, string[]> = {}): ServiceType[] {
+    const included: ServiceType[] = [];
+    const excluded = new Set<ServiceType>();
+
+    const inclusions = selectors.filter(s => !s.startsWith('-'));
+    for (const selector of inclusions) {
+      included.push(...this.expand(selector, custom, []));
+    }
+    if (inclusions.length === 0) {
+      included.push(...DEFAULT_OPTIONAL_SERVICES);
+    }
+    for (const selector of selectors.filter(s => s.startsWith('-'))) {
+      for (const service of this.expand(selector.slice(1), custom, [])) {
+        excluded.add(service);
+      }
+    }
+
+    return [...new Set(included)].filter(s => !excluded.has(s) && !NOT_SELECTABLE.includes(s));
+  }
+
+  /**
+   * Expand one selector (without the '-' prefix); profiles may reference other profiles
+   */
+  private static expand(selector: string, custom: Record<string, string[]>, seen: string[]): ServiceType[] {
+    const [kind, name] = selector === 'defaults'
+      ? ['profile', 'defaults']
+      : selector.includes(':') ? selector.split(':', 2) : ['service', selector];
+
+    if (kind === 'profile') {
+      const profile = name;
+      if (seen.includes(profile)) {
+        throw this.unknown(selector, `profile ${profile} references itself (${[...seen, profile].join(' → ')})`);
+      }
+      if (custom[profile]) {
+        const nested = [...seen, profile];
+        const services = custom[profile].filter(t => !t.startsWith('-')).flatMap(t => this.expand(t, custom, nested));
+        const removed = new Set(custom[profile].filter(t => t.startsWith('-')).flatMap(t => this.expand(t.slice(1), custom, nested)));
+        return services.filter(s => !removed.has(s));
+      }
+      if (BUILTIN_PROFILES[profile]) {
+        return [...BUILTIN_PROFILES[profile].services];
+      }
+      const available = [...new Set([...Object.keys(BUILTIN_PROFILES), ...Object.keys(custom)])];
+      throw this.unknown(selector, `unknown profile "${profile}" (available: ${available.join(', ')})`);
+    }
+
+    if (kind === 'tag') {
+      if (SERVICE_TAGS[name]) {
+        return [...SERVICE_TAGS[name]];
+      }
+      throw this.unknown(selector, `unknown tag "${name}" (available: ${Object.keys(SERVICE_TAGS).join(', ')})`);
+    }
+
+    const service = Object.values(ServiceType).find(v => v === selector);
+    if (kind === 'service' && service) {
+      return [service];
+    }
+    throw this.unknown(selector, `unknown service or selector "${selector}"`);
+  }
+
+  private static unknown(selector: string, message: string): HomelabError {
+    return new HomelabError(`Invalid service selector: ${message}`, 'UNKNOWN_SELECTOR', false, { selector });
+  }
+}
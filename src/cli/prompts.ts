@@ -14,18 +14,10 @@ import {
 import { HomelabError, ValidationError } from '../utils/errors.js';
 import { ContainerRuntimeUtils } from '../utils/container.js';
 import { NetworkUtils } from '../utils/network.js';
+import { HalConfigFile } from './config-file.js';
+import { DEFAULT_OPTIONAL_SERVICES, ServiceProfiles } from './profiles.js';
 
-export const DEFAULT_OPTIONAL_SERVICES: ServiceType[] = [
-  ServiceType.RUSTFS,
-  ServiceType.POSTGRESQL,
-  ServiceType.REDIS,
-  ServiceType.KAFKA,
-  ServiceType.TINYAUTH,
-  ServiceType.NTFY,
-  ServiceType.MAILPIT,
-  // ServiceType.INFISCAL,
-  ServiceType.CLOUDFLARED,
-];
+export { DEFAULT_OPTIONAL_SERVICES };
 
 const CORE_SERVICES: ServiceType[] = [ServiceType.CADDY, ServiceType.COPYPARTY];
 
@@ -641,11 +633,10 @@ export async function promptForOptionalServices(previousServices?: ServiceType[]
     }
   ];
 
-  // Apply checked state for all services based on previous selection or defaults
+  // Pre-check the services of the chosen profile (or the previous selection), then let the user adjust
+  const initial = await promptForProfile(usePrevious ? previousServices : undefined);
   for (const service of optionalServices) {
-    service.checked = usePrevious
-      ? previousServices.includes(service.value)
-      : DEFAULT_OPTIONAL_SERVICES.includes(service.value);
+    service.checked = initial.includes(service.value);
   }
 
   const { services } = await inquirer.prompt([
@@ -664,9 +655,47 @@ export async function promptForOptionalServices(previousServices?: ServiceType[]
   return services;
 }
 
-export async function promptForStoragePassword(): Promise<string> {
+/**
+ * Choose the starting selection: a built-in or custom profile, the previous selection or nothing
+ */
+export async function promptForProfile(previousServices?: ServiceType[]): Promise<ServiceType[]> {
+  let custom: Record<string, string[]> = {};
+  try {
+    custom = await ServiceProfiles.loadCustom();
+  } catch (error) {
+    console.log(`   ⚠️  ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const PREVIOUS = '__previous__';
+  const NONE = '__none__';
+  const choices = [
+    ...(previousServices ? [{ name: 'Previous selection', value: PREVIOUS }] : []),
+    ...ServiceProfiles.list(custom).map(profile => ({
+      name: `${profile.name} - ${profile.description}`,
+      value: profile.name,
+      short: profile.name,
+    })),
+    { name: 'None - start from an empty selection', value: NONE, short: 'None' },
+  ];
+
+  const { profile } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'profile',
+      message: 'Start from a profile (you can adjust the services next):',
+      choices,
+      default: previousServices ? PREVIOUS : 'defaults',
+    }
+  ]);
+
+  if (profile === PREVIOUS) return previousServices || [];
+  if (profile === NONE) return [];
+  return ServiceProfiles.resolve([`profile:${profile}`], custom);
+}
+
+export async function promptForStoragePassword(previousPassword?: string): Promise<string> {
   const yearSuffix = String(new Date().getFullYear()).slice(-2);
-  const defaultPassword = `Admin${yearSuffix}!`;
+  const defaultPassword = previousPassword || `Admin${yearSuffix}!`;
 
   const { password } = await inquirer.prompt([
     {
@@ -681,6 +710,23 @@ export async function promptForStoragePassword(): Promise<string> {
   return password.trim();
 }
 
+/**
+ * Ask for the legacy shared password mode; by default every service gets generated credentials
+ * @param previousPassword Shared password of the previous installation (keeps the mode by default)
+ * @returns The shared password, or undefined for generated credentials
+ */
+export async function promptForSharedPassword(previousPassword?: string): Promise<string | undefined> {
+  const { shared } = await inquirer.prompt([
+    {
+      type: 'confirm',
+      name: 'shared',
+      message: 'Use one shared password for all services (legacy) instead of generated credentials per service?',
+      default: !!previousPassword
+    }
+  ]);
+  return shared ? promptForStoragePassword(previousPassword) : undefined;
+}
+
 export async function promptForConfigPath(defaultValue?: string): Promise<string> {
   const { configPath } = await inquirer.prompt([
     {
@@ -785,10 +831,11 @@ export async function collectUserConfiguration(previousServices?: ServiceType[],
   const optionalServices = await promptForOptionalServices(previousServices);
   
   let storagePassword: string | undefined;
-  if (optionalServices.includes(ServiceType.POSTGRESQL) || 
+  if (previousConfig?.storagePassword ||
+      optionalServices.includes(ServiceType.POSTGRESQL) || 
       optionalServices.includes(ServiceType.MARIADB) || 
       optionalServices.includes(ServiceType.MONGODB)) {
-    storagePassword = await promptForStoragePassword();
+    storagePassword = await promptForSharedPassword(previousConfig?.storagePassword);
   }
 
   // Core services are always included
@@ -806,6 +853,7 @@ export async function collectUserConfiguration(previousServices?: ServiceType[],
     configPath,
     dataPath,
     storagePassword,
+    credentials: storagePassword ? undefined : {},
     selectedServices
   };
 }
@@ -821,30 +869,11 @@ export async function collectUserConfigurationFromArgs(
   password?: string,
   excludedServices?: string[],
 ): Promise<Partial<HomelabConfig>> {
-  let managementUI: ServiceType;
-  try {
-    const runtime = await ContainerRuntimeUtils.detectRuntime();
-    if (runtime === 'podman') {
-      managementUI = ServiceType.ARCANE;
-    } else {
-      managementUI = ServiceType.DOCKHAND;
-    }
-  } catch {
-    managementUI = ServiceType.DOCKHAND;
-  }
+  const managementUI = await detectManagementUI();
 
   // Auto-detect IP if not provided
   if (!ip) {
-    const detected = await NetworkUtils.detectLocalIP();
-    if (!detected) {
-      throw new HomelabError(
-        'Could not detect local IP address. Provide one with --ip <address>.',
-        'NO_IP_DETECTED',
-        false,
-      );
-    }
-    ip = detected;
-    console.log(`   ✓ Detected local IP: ${ip}`);
+    ip = await detectIP();
   }
 
   let optionalServices: ServiceType[];
@@ -853,16 +882,7 @@ export async function collectUserConfigurationFromArgs(
     optionalServices = ALL_OPTIONAL_SERVICES.filter(s => !excludeSet.has(s));
     console.log(`   ✓ Installing ${optionalServices.length} optional services (excluded ${excludedServices.length})`);
   } else if (serviceNames && serviceNames.length > 0) {
-    const result: ServiceType[] = [];
-    for (const name of serviceNames) {
-      if (name === 'defaults') {
-        result.push(...DEFAULT_OPTIONAL_SERVICES);
-      } else {
-        const service = Object.values(ServiceType).find(v => v === name);
-        if (service) result.push(service);
-      }
-    }
-    optionalServices = [...new Set(result)];
+    optionalServices = ServiceProfiles.resolve(serviceNames, await ServiceProfiles.loadCustom());
     console.log(`   ✓ Installing ${optionalServices.length} optional services from --list`);
   } else {
     optionalServices = [...DEFAULT_OPTIONAL_SERVICES];
@@ -870,22 +890,72 @@ export async function collectUserConfigurationFromArgs(
 
   const selectedServices: ServiceType[] = [...CORE_SERVICES, managementUI, ...optionalServices];
 
-  let storagePassword: string | undefined = password;
-  if (!storagePassword &&
-      (optionalServices.includes(ServiceType.POSTGRESQL) ||
-       optionalServices.includes(ServiceType.MARIADB) ||
-       optionalServices.includes(ServiceType.MONGODB))) {
-    const yearSuffix = String(new Date().getFullYear()).slice(-2);
-    storagePassword = `Admin${yearSuffix}!`;
-  }
-
   return {
     ip,
     domain: domain || 'homelab.lan',
     networkName: 'homelab-network',
     configPath: 'ws/init',
     dataPath: 'ws/data',
-    storagePassword,
+    storagePassword: password,
+    credentials: password ? undefined : {},
     selectedServices,
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Build configuration from a hal.yml file (see ConfigFile)
+ * --ip, --domain and --password flags take priority over the file
+ */
+export async function collectUserConfigurationFromFile(
+  file: HalConfigFile,
+  flags: { ip?: string; domain?: string; password?: string } = {},
+): Promise<Partial<HomelabConfig>> {
+  const managementUI = file.managementUI || await detectManagementUI();
+  const ip = flags.ip || file.ip || await detectIP();
+
+  const optionalServices = file.services
+    ? (Object.keys(file.services) as ServiceType[]).filter(s =>
+        file.services![s]?.enabled !== false &&
+        !CORE_SERVICES.includes(s) &&
+        s !== ServiceType.DOCKHAND && s !== ServiceType.ARCANE)
+    : [...DEFAULT_OPTIONAL_SERVICES];
+  console.log(`   ✓ Installing ${optionalServices.length} optional services from the configuration file`);
+  const storagePassword = flags.password || file.storagePassword;
+
+  return {
+    ip,
+    domain: flags.domain || file.domain || 'homelab.lan',
+    networkName: file.networkName || 'homelab-network',
+    configPath: file.configPath || 'ws/init',
+    dataPath: file.dataPath || 'ws/data',
+    storagePassword,
+    credentials: storagePassword ? undefined : {},
+    selectedServices: [...CORE_SERVICES, managementUI, ...optionalServices],
+    serviceOverrides: file.services,
+  };
+}
+
+/**
+ * Dockhand for Docker, Arcane for Podman
+ */
+async function detectManagementUI(): Promise<ServiceType> {
+  try {
+    const runtime = await ContainerRuntimeUtils.detectRuntime();
+    return runtime === 'podman' ? ServiceType.ARCANE : ServiceType.DOCKHAND;
+  } catch {
+    return ServiceType.DOCKHAND;
+  }
+}
+
+async function detectIP(): Promise<string> {
+  const detected = await NetworkUtils.detectLocalIP();
+  if (!detected) {
+    throw new HomelabError(
+      'Could not detect local IP address. Provide one with --ip <address>.',
+      'NO_IP_DETECTED',
+      false,
+    );
+  }
+  console.log(`   ✓ Detected local IP: ${detected}`);
+  return detected;
+}
@@ -8,13 +8,18 @@ import {
   DistributionStrategy,
   Service,
   ServiceType,
+  ServiceInstallHooks,
   DistributionType,
+  RouteCheck,
 } from './types.js';
-import { HomelabError, ServiceInstallationError } from '../utils/errors.js';
+import { HomelabError, ServiceInstallationError, ErrorHandler } from '../utils/errors.js';
 import { CLIInterface } from '../cli/interface.js';
 import { ServiceFactory } from '../services/factory.js';
 import { CaddyService } from '../services/core/caddy.js';
+import { CloudflaredService } from '../services/optional/cloudflared.js';
 import { TemplateEngine } from '../templates/engine.js';
+import { HealthChecks } from '../templates/healthcheck.js';
+import { TemplateInspector } from '../services/inspector.js';
 import {
   DistributionDetector,
   BaseDistributionStrategy,
@@ -27,7 +32,15 @@ import { MingwStrategy } from '../distribution/mingw.js';
 import { Logger } from '../utils/logger.js';
 import { NetworkUtils } from '../utils/network.js';
 import { ContainerRuntimeUtils } from '../utils/container.js';
-import { StateManager } from '../utils/state.js';
+import { StateManager, ServiceProgress, ServiceProgressStatus } from '../utils/state.js';
+import { CredentialStore } from '../utils/credentials.js';
+import { DryRun } from '../utils/dryrun.js';
+import { Parallel } from '../utils/parallel.js';
+import { InstallRollback } from '../utils/rollback.js';
+import { ResourcePlanner } from './resources.js';
+import { PortPlanner, PortConflict } from './ports.js';
+import { BackupScheduler } from './backup-schedule.js';
+import { RouteChecker } from './route-check.js';
 import { $ } from 'bun';
 import inquirer from 'inquirer';
 import { writeFile, readFile, mkdir } from 'fs/promises';
@@ -47,6 +60,13 @@ export class HomelabApplication {
   private logger: Logger;
   private installedServices: Service[] = [];
   private failedServices: string[] = [];
+  private parallel: number = 1;
+  private force: boolean = false;
+  private autoPorts: boolean = false;
+  private progress: Partial<Record<ServiceType, ServiceProgress>> = {};
+  private progressWrite: Promise<void> = Promise.resolve();
+  private installHooks: ServiceInstallHooks = {};
+  private healthyServices: Set<ServiceType> = new Set();
 
   constructor() {
     this.logger = new Logger();
@@ -64,6 +84,10 @@ export class HomelabApplication {
    * Orchestrates the complete installation workflow
    */
   async run(): Promise<void> {
+    if (DryRun.isEnabled()) {
+      return this.planInstallation();
+    }
+
     try {
       this.logger.info('🚀 Starting HomeLab installation workflow');
 
@@ -72,6 +96,9 @@ export class HomelabApplication {
 
       // Step 2: Validate configuration (config should already be set)
       this.validateConfiguration();
+      await this.checkResources(this.config!.selectedServices);
+      await this.checkPorts(this.config!.selectedServices);
+      await this.prepareCredentials(this.config!.selectedServices);
 
       // Step 3: Install Docker if needed
       await this.installDocker();
@@ -88,24 +115,27 @@ export class HomelabApplication {
       // Save installation state before optional Cloudflare step,
       // but only if a meaningful selection was made (>= 3 services)
       if (this.config!.selectedServices.length > 2) {
-        const managementUI = this.config!.selectedServices.includes(ServiceType.DOCKHAND)
-          ? ServiceType.DOCKHAND
-          : ServiceType.ARCANE;
-        await StateManager.save(this.config!, managementUI);
+        await StateManager.save(this.config!, this.getManagementUI(), this.progress);
       }
+      await this.saveCredentials();
+
+      // Services are installed, nothing to roll back from here on
+      InstallRollback.finish();
+
+      await this.installBackupSchedules();
 
       // Step 7: Configure Cloudflare Tunnel if installed
       await this.configureCloudflareTunnel();
 
-      // Re-save state after Cloudflare config (captures tunnelDomain)
-      if (this.config!.tunnelDomain && this.config!.selectedServices.length > 2) {
-        const managementUI = this.config!.selectedServices.includes(ServiceType.DOCKHAND)
-          ? ServiceType.DOCKHAND
-          : ServiceType.ARCANE;
-        await StateManager.save(this.config!, managementUI);
+      // Step 8: Probe the Caddy routes of the installed services
+      await this.checkRoutes(this.getSuccessfulServices().map((s) => s.type));
+
+      // Re-save state after Cloudflare config and route checks (captures tunnelDomain and routeChecks)
+      if (this.config!.routeChecks || (this.config!.tunnelDomain && this.config!.selectedServices.length > 2)) {
+        await StateManager.save(this.config!, this.getManagementUI());
       }
 
-      // Step 8: Display completion summary
+      // Step 9: Display completion summary
       this.displayCompletionSummary();
 
       this.logger.info('✅ HomeLab installation completed successfully!');
@@ -115,6 +145,361 @@ export class HomelabApplication {
     }
   }
 
+  /**
+   * Dry run of the installation workflow: detection, validation and command
+   * interpolation run as usual, but commands, file writes and sudo operations
+   * are only recorded and printed
+   */
+  private async planInstallation(): Promise<void> {
+    this.logger.info('📝 Planning HomeLab installation (dry run)');
+
+    await this.detectDistribution();
+    this.validateConfiguration();
+    await this.checkResources(this.config!.selectedServices);
+    await this.checkPorts(this.config!.selectedServices);
+    await this.prepareCredentials(this.config!.selectedServices);
+
+    try {
+      await ContainerRuntimeUtils.detectRuntime();
+    } catch {
+      this.logger.warn('⚠️  No container runtime found yet, planning commands for Docker');
+      ContainerRuntimeUtils.useRuntime('docker');
+    }
+
+    if (this.distributionStrategy instanceof BaseDistributionStrategy) {
+      const isMacOS = this.config!.distribution === DistributionType.MACOS;
+      const withDnsmasq = !isMacOS && NetworkUtils.isLocalDomain(this.config!.domain, this.config!.ip);
+      const operations = await this.distributionStrategy.planHostChanges(
+        this.config!.domain,
+        this.config!.ip,
+        this.config!.selectedServices,
+        withDnsmasq,
+      );
+      for (const operation of operations) {
+        DryRun.recordSudo(operation, this.distributionStrategy.name);
+      }
+    }
+
+    await this.installServices();
+
+    DryRun.recordFile(StateManager.getPath(this.config!.configPath), 'state');
+    DryRun.printPlan();
+  }
+
+  /**
+   * Add services to an existing installation
+   * Installs only the requested services and their missing dependencies,
+   * then updates Caddy, Cloudflare Tunnel and dnsmasq for the combined set
+   */
+  async add(requested: ServiceType[]): Promise<ServiceType[]> {
+    try {
+      await this.detectDistribution();
+
+      if (!this.config) {
+        throw new HomelabError(
+          'Configuration is not available',
+          'CONFIG_NOT_AVAILABLE',
+        );
+      }
+
+      const existing = [...this.config.selectedServices];
+      const toAdd = this.serviceFactory
+        .resolveDependencyClosure(requested, this.config)
+        .filter((s) => !existing.includes(s));
+
+      if (toAdd.length === 0) {
+        this.logger.info('✅ All requested services are already installed');
+        return [];
+      }
+
+      const dependencies = toAdd.filter((s) => !requested.includes(s));
+      if (dependencies.length > 0) {
+        this.logger.info(`📋 Adding missing dependencies: ${dependencies.join(', ')}`);
+      }
+
+      return await this.installSelection(toAdd, existing);
+    } catch (error) {
+      await this.handleError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Continue an interrupted installation (hal resume) or retry failed services
+   * (hal retry-failed) using the progress saved in the state file
+   * @param targets Services to install
+   * @param blocked Services that failed before; their dependents are skipped
+   * @returns Services that were installed
+   */
+  async resume(targets: ServiceType[], blocked: ServiceType[] = []): Promise<ServiceType[]> {
+    try {
+      await this.detectDistribution();
+
+      if (!this.config) {
+        throw new HomelabError(
+          'Configuration is not available',
+          'CONFIG_NOT_AVAILABLE',
+        );
+      }
+
+      for (const type of blocked.filter((s) => !targets.includes(s))) {
+        this.failedServices.push(this.serviceFactory.createService(type, this.config).name);
+      }
+
+      return await this.installSelection(targets, [...this.config.selectedServices]);
+    } catch (error) {
+      await this.handleError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * Install services on top of an existing selection, then update routes and state
+   * @param targets Services to install
+   * @param existing Selection to keep, plus whatever gets installed
+   * @returns Services that were installed
+   */
+  private async installSelection(targets: ServiceType[], existing: ServiceType[]): Promise<ServiceType[]> {
+    const config = this.config!;
+    config.selectedServices = [...new Set([...existing, ...targets])];
+    this.validateConfiguration();
+    await this.checkResources(targets, existing.filter((s) => !targets.includes(s)));
+    await this.checkPorts(targets, existing.filter((s) => !targets.includes(s)));
+    await this.prepareCredentials(targets);
+
+    await this.createDockerNetwork();
+
+    const services = this.serviceFactory
+      .createServices(config)
+      .filter((s) => targets.includes(s.type));
+
+    this.progress = (await StateManager.load(config.configPath))?.progress || {};
+    await this.startTracking(services);
+    await this.installInLevels(services);
+
+    // Only keep what was actually installed in the combined selection
+    const installed = this.installedServices.map((s) => s.type);
+    config.selectedServices = [...new Set([...existing, ...installed])];
+
+    if (installed.length > 0) {
+      await this.updateRoutes();
+      await this.checkRoutes(config.selectedServices);
+    }
+    await StateManager.save(config, this.getManagementUI(), this.progress);
+    await this.saveCredentials();
+    InstallRollback.finish();
+
+    if (this.failedServices.length > 0) {
+      this.logger.warn(`⚠️  ${this.failedServices.length} service(s) failed: ${this.failedServices.join(', ')}`);
+    }
+
+    this.displayCompletionSummary();
+
+    return installed;
+  }
+
+  /**
+   * Compare the resources of the selection with the host before installing
+   * Refuses with a per-service breakdown when the minimum does not fit, unless --force
+   * @param existing Services already installed (their memory is already in use)
+   */
+  private async checkResources(services: ServiceType[], existing: ServiceType[] = []): Promise<void> {
+    const planner = new ResourcePlanner(this.templateEngine);
+    const estimate = await planner.estimate(services);
+    const baseline = existing.length > 0 ? (await planner.estimate(existing)).min : undefined;
+    const host = await ResourcePlanner.detectHost();
+    const check = ResourcePlanner.evaluate(estimate, host, baseline);
+
+    this.logger.info(
+      `📊 Estimated resources for ${services.length} service(s): ` +
+      `${ResourcePlanner.formatSize(estimate.min.memory)} RAM (${ResourcePlanner.formatSize(estimate.recommended.memory)} recommended), ` +
+      `${ResourcePlanner.formatSize(estimate.min.disk)} disk, ${estimate.min.cpu.toFixed(1)} CPU - ` +
+      `host has ${ResourcePlanner.formatSize(host.memory)} RAM, ` +
+      `${host.disk !== undefined ? ResourcePlanner.formatSize(host.disk) : 'unknown'} free disk, ${host.cpu} CPU`,
+    );
+    for (const warning of check.warnings) {
+      this.logger.warn(`⚠️  ${warning}`);
+    }
+
+    if (check.fits) {
+      return;
+    }
+
+    this.logger.error('❌ The selected services do not fit on this host:');
+    for (const problem of check.problems) {
+      this.logger.error(`   ${problem}`);
+    }
+    this.logger.info('   Minimum per service:');
+    for (const line of ResourcePlanner.formatBreakdown(estimate)) {
+      this.logger.info(`   ${line}`);
+    }
+
+    if (this.force) {
+      this.logger.warn('⚠️  Installing anyway (--force)');
+      return;
+    }
+    if (DryRun.isEnabled()) {
+      this.logger.warn('⚠️  The installation would stop here (use --force to install anyway)');
+      return;
+    }
+    throw new HomelabError(
+      `Not enough resources for the selected services: ${check.problems.join('; ')}. ` +
+      'Remove some services or use --force to install anyway',
+      'INSUFFICIENT_RESOURCES',
+      false,
+      { problems: check.problems, estimate, host },
+    );
+  }
+
+  /**
+   * Check the host ports of the selection for duplicates and ports in use before installing
+   * With --auto-ports conflicting ports are reassigned and kept in config.portMappings
+   * (saved in the state), otherwise the installation stops with a conflict table
+   * @param existing Services already installed (their ports are taken)
+   */
+  private async checkPorts(services: ServiceType[], existing: ServiceType[] = []): Promise<void> {
+    const config = this.config!;
+    const listeners = await PortPlanner.detectListeners();
+    const plan = await new PortPlanner(this.templateEngine).plan(services, config, existing, listeners);
+    if (plan.conflicts.length === 0) {
+      return;
+    }
+
+    let conflicts: PortConflict[] = plan.conflicts;
+    if (this.autoPorts) {
+      const mappings = PortPlanner.reassign(plan, listeners);
+      for (const conflict of conflicts) {
+        const port = mappings[conflict.service]?.[String(conflict.port)];
+        if (port) {
+          this.logger.info(`🔀 ${conflict.service}: host port ${conflict.port} → ${port} (${conflict.port} used by ${conflict.conflictsWith})`);
+        }
+      }
+      conflicts = conflicts.filter((c) => !mappings[c.service]?.[String(c.port)]);
+      config.portMappings = PortPlanner.merge(config.portMappings, mappings);
+      if (conflicts.length === 0) {
+        return;
+      }
+    }
+
+    this.logger.error(`❌ ${conflicts.length} host port conflict(s):`);
+    for (const line of PortPlanner.formatConflicts(conflicts)) {
+      this.logger.error(`   ${line}`);
+    }
+
+    if (DryRun.isEnabled()) {
+      this.logger.warn(`⚠️  The installation would stop here${this.autoPorts ? '' : ' (use --auto-ports to reassign them)'}`);
+      return;
+    }
+    throw new HomelabError(
+      `Host ports already in use: ${conflicts.map((c) => `${c.port} (${c.service})`).join(', ')}. ` +
+      (this.autoPorts
+        ? 'Stop the conflicting processes or remove the services'
+        : 'Stop the conflicting processes or use --auto-ports to reassign them'),
+      'PORT_CONFLICT',
+      false,
+      { conflicts },
+    );
+  }
+
+  /**
+   * Generate the secrets referenced by the templates of the services and store them
+   * before installing, so an interrupted installation reuses the same passwords
+   * Nothing to do in shared password mode (no credential store)
+   */
+  private async prepareCredentials(services: ServiceType[]): Promise<void> {
+    const config = this.config!;
+    if (!config.credentials) {
+      return;
+    }
+
+    // Stored secrets win: existing containers and databases were created with them
+    Object.assign(config.credentials, await CredentialStore.load(config.configPath));
+
+    const keys: string[] = [];
+    for (const service of services) {
+      try {
+        const template = await this.templateEngine.load(`services/${service}`);
+        keys.push(...CredentialStore.findReferences(template.content, service));
+      } catch {
+        // Service without template
+      }
+    }
+
+    const added = CredentialStore.ensure(config.credentials, keys);
+    if (added.length > 0) {
+      this.logger.info(`🔐 Generated ${added.length} credential(s): ${added.join(', ')}`);
+    }
+    if (DryRun.isEnabled()) {
+      DryRun.recordFile(CredentialStore.getPath(config.configPath), 'credentials');
+      return;
+    }
+    await this.saveCredentials();
+  }
+
+  /**
+   * Save the credential store (secrets generated while installing are kept too)
+   */
+  private async saveCredentials(): Promise<void> {
+    if (this.config?.credentials && !DryRun.isEnabled()) {
+      await CredentialStore.save(this.config.credentials, this.config.configPath);
+    }
+  }
+
+  /**
+   * Install the backup timers of services with a backup schedule in hal.yml
+   */
+  private async installBackupSchedules(): Promise<void> {
+    if (Object.keys(BackupScheduler.getSchedules(this.config!)).length === 0 || DryRun.isEnabled()) {
+      return;
+    }
+
+    try {
+      const result = await BackupScheduler.install(this.config!);
+      if (result.crontab) {
+        this.logger.warn('⚠️  systemd not found: add these lines to your crontab (crontab -e) for scheduled backups:');
+        result.crontab.forEach(line => this.logger.info(`   ${line}`));
+      } else {
+        this.logger.info(`⏰ Backup timers installed: ${result.installed.join(', ')}`);
+      }
+    } catch (error) {
+      this.logger.warn('⚠️  Failed to install backup timers (run hal backup schedule to retry), but continuing...');
+      this.logger.debug(`Backup timer error: ${error}`);
+    }
+  }
+
+  /**
+   * Regenerate Caddy, Cloudflare Tunnel and dnsmasq routes for the current
+   * selection and restart Caddy only
+   */
+  private async updateRoutes(): Promise<void> {
+    try {
+      this.logger.info('🔄 Updating Caddy routes...');
+      const caddyService = new CaddyService(this.config!, this.templateEngine);
+      await caddyService.regenerateConfigFiles();
+
+      const runtime = await ContainerRuntimeUtils.detectRuntime();
+      const command = `${runtime} restart caddy || true`;
+      await $`sh -c ${command}`.quiet();
+      this.logger.info('✅ Caddy restarted');
+    } catch (error) {
+      this.logger.warn('⚠️  Failed to update Caddy routes, but continuing...');
+      this.logger.debug(`Caddy error: ${error}`);
+    }
+
+    if (this.config!.selectedServices.includes(ServiceType.CLOUDFLARED)) {
+      try {
+        const cloudflared = new CloudflaredService(this.config!, this.templateEngine);
+        await cloudflared.regenerateConfigFiles();
+        this.logger.info('✅ Cloudflare Tunnel ingress updated (restart cloudflared to apply)');
+      } catch (error) {
+        this.logger.warn('⚠️  Failed to update Cloudflare Tunnel config, but continuing...');
+        this.logger.debug(`cloudflared error: ${error}`);
+      }
+    }
+
+    await this.configureDnsmasqPostInstall(this.config!.selectedServices);
+  }
+
   /**
    * Detect the current Linux distribution
    */
@@ -280,7 +665,9 @@ export class HomelabApplication {
   /**
    * Configure dnsmasq with installed services after installation
    */
-  private async configureDnsmasqPostInstall(): Promise<void> {
+  private async configureDnsmasqPostInstall(
+    serviceTypes: ServiceType[] = this.installedServices.map((s) => s.type),
+  ): Promise<void> {
     if (!this.config || !this.distributionStrategy) {
       return;
     }
@@ -293,8 +680,8 @@ export class HomelabApplication {
     const isMacOS = this.config.distribution === DistributionType.MACOS;
     const usingSelfSigned = isMacOS || isLocalDomain;
 
-    if (!usingSelfSigned || isMacOS || this.installedServices.length === 0) {
-      return; // Skip for macOS, public domains, or no services
+    if (!usingSelfSigned || isMacOS || serviceTypes.length === 0 || DryRun.isEnabled()) {
+      return; // Skip for macOS, public domains, no services, or dry runs (already planned)
     }
 
     try {
@@ -302,7 +689,6 @@ export class HomelabApplication {
 
       // Configure dnsmasq with the domain and installed services
       if (this.distributionStrategy.configureDnsmasq) {
-        const serviceTypes = this.installedServices.map((s) => s.type);
         await this.distributionStrategy.configureDnsmasq(
           this.config.domain,
           this.config.ip,
@@ -339,6 +725,10 @@ export class HomelabApplication {
 
       const runtime = await ContainerRuntimeUtils.detectRuntime();
       const command = `${runtime} network create ${this.config.networkName} || true`;
+      if (DryRun.isEnabled()) {
+        DryRun.recordCommand(command, 'network');
+        return;
+      }
       await $`sh -c ${command}`;
 
       this.logger.info('✅ Container network ready');
@@ -365,35 +755,15 @@ export class HomelabApplication {
     try {
       this.logger.info('📦 Installing and configuring services...');
 
-      // Create Docker network first
-      await this.createDockerNetwork();
-
-      // Create service instances
+      // Create service instances and install them by dependency level
       const services = this.serviceFactory.createServices(this.config);
+      this.progress = {};
+      await this.startTracking(services);
 
-      // Get installation order based on dependencies
-      const orderedServices =
-        this.serviceFactory.getInstallationOrder(services);
-
-      this.logger.info(
-        `📋 Installation order: ${orderedServices.map((s) => s.name).join(' → ')}`,
-      );
+      // Create Docker network first
+      await this.createDockerNetwork();
 
-      // Install services in order
-      for (const service of orderedServices) {
-        if (service.isCore) {
-          await this.installService(service);
-          this.installedServices.push(service);
-        } else {
-          try {
-            await this.installService(service);
-            this.installedServices.push(service);
-          } catch (error) {
-            this.logger.error(`⚠️  Skipping ${service.name}: ${error instanceof Error ? error.message : String(error)}`);
-            this.failedServices.push(service.name);
-          }
-        }
-      }
+      await this.installInLevels(services);
 
       // Restart core services to ensure proper configuration
       await this.restartCoreServices();
@@ -404,39 +774,194 @@ export class HomelabApplication {
       if (this.failedServices.length > 0) {
         this.logger.warn(`⚠️  ${this.failedServices.length} service(s) failed: ${this.failedServices.join(', ')}`);
       }
-      this.logger.info('✅ HomeLab installation completed');
+      this.logger.info(DryRun.isEnabled() ? '✅ HomeLab installation planned' : '✅ HomeLab installation completed');
     } catch (error) {
       this.logger.error('❌ Unexpected error during service installation');
       throw error;
     }
   }
 
+  /**
+   * Mark services as pending in the saved progress and track what gets created
+   * from here on so a failure can undo it (including the state file itself)
+   */
+  private async startTracking(services: Service[]): Promise<void> {
+    InstallRollback.start();
+    if (!DryRun.isEnabled()) {
+      InstallRollback.register(await InstallRollback.planFile(StateManager.getPath(this.config!.configPath)));
+    }
+
+    const now = new Date().toISOString();
+    for (const service of services) {
+      this.progress[service.type as ServiceType] = { status: 'pending', updatedAt: now };
+    }
+    await this.saveProgress();
+  }
+
+  /**
+   * Record the progress of a service and save it to the state file
+   */
+  private async markProgress(service: Service, status: ServiceProgressStatus, error?: string): Promise<void> {
+    const type = service.type as ServiceType;
+    const now = new Date().toISOString();
+    this.progress[type] = {
+      status,
+      startedAt: this.progress[type]?.startedAt ?? now,
+      updatedAt: now,
+      ...(error ? { error } : {}),
+    };
+    await this.saveProgress();
+  }
+
+  /**
+   * Save the progress after every service, so an interrupted install can be resumed.
+   * Follows the rule of run(): only meaningful selections (>= 3 services) are saved.
+   */
+  private async saveProgress(): Promise<void> {
+    if (DryRun.isEnabled() || this.config!.selectedServices.length <= 2) {
+      return;
+    }
+
+    // Services of a level may finish at the same time, keep writes in order
+    this.progressWrite = this.progressWrite.then(async () => {
+      try {
+        await StateManager.save(this.config!, this.getManagementUI(), this.progress);
+      } catch (error) {
+        // The config directory does not exist until the core services create it
+        this.logger.debug(`Could not save installation progress: ${error}`);
+      }
+    });
+    await this.progressWrite;
+  }
+
+  private getManagementUI(): ServiceType {
+    return this.config!.selectedServices.includes(ServiceType.DOCKHAND)
+      ? ServiceType.DOCKHAND
+      : ServiceType.ARCANE;
+  }
+
+  /**
+   * Install services level by level (see ServiceFactory.getInstallationLevels).
+   * With parallel > 1, services of a level are installed concurrently and the output
+   * of each one is printed as a block when it finishes. A failed optional service only
+   * blocks the services that depend on it; a failed core service stops the installation.
+   */
+  private async installInLevels(services: Service[]): Promise<void> {
+    const levels = ServiceFactory.getInstallationLevels(
+      this.serviceFactory.getInstallationOrder(services),
+    );
+    // Dependencies may be installed already, outside of this selection
+    const available = this.serviceFactory.createServices(this.config!);
+    // Planned commands are listed in a stable order
+    const parallel = DryRun.isEnabled() ? 1 : this.parallel;
+
+    this.logger.info(
+      `📋 Installation order: ${levels.map((level) => level.map((s) => s.name).join(', ')).join(' → ')}`,
+    );
+    if (parallel > 1) {
+      this.logger.info(`⚡ Installing up to ${parallel} services at a time`);
+    }
+
+    for (const level of levels) {
+      let coreError: unknown;
+
+      await Parallel.map(level, parallel, async (service) => {
+        // Skip services whose dependencies failed in this run
+        const blockedBy = service.dependencies.filter((dep) => this.failedServices.includes(dep));
+        if (blockedBy.length > 0) {
+          this.logger.error(`⚠️  Skipping ${service.name}: dependency failed (${blockedBy.join(', ')})`);
+          this.failedServices.push(service.name);
+          await this.markProgress(service, 'failed', `Dependency failed: ${blockedBy.join(', ')}`);
+          return;
+        }
+
+        let error: unknown;
+        if (parallel > 1) {
+          const result = await Parallel.buffered(() => this.installService(service, available));
+          error = result.error;
+          this.printServiceOutput(service, result.output, !error);
+        } else {
+          try {
+            await this.installService(service, available);
+          } catch (e) {
+            error = e;
+          }
+        }
+
+        if (!error) {
+          this.installedServices.push(service);
+          return;
+        }
+        await this.markProgress(service, 'failed', error instanceof Error ? error.message : String(error));
+
+        if (service.isCore) {
+          if (parallel === 1) throw error;
+          coreError ??= error;
+          return;
+        }
+        this.logger.error(`⚠️  Skipping ${service.name}: ${error instanceof Error ? error.message : String(error)}`);
+        this.failedServices.push(service.name);
+      });
+
+      if (coreError) {
+        throw coreError;
+      }
+    }
+  }
+
+  /**
+   * Print the buffered output of a service installed in parallel as one block
+   */
+  private printServiceOutput(service: Service, output: string[], success: boolean): void {
+    console.log('');
+    console.log(`┌─ ${service.name}`);
+    for (const line of output.flatMap((entry) => entry.split('\n'))) {
+      console.log(`│ ${line}`);
+    }
+    console.log(`└─ ${success ? '✅ done' : '❌ failed'}`);
+  }
+
   /**
    * Install a single service with error handling
+   * @param available Services of the installation, to look up its dependencies
    */
-  private async installService(service: Service): Promise<void> {
+  private async installService(service: Service, available: Service[] = []): Promise<void> {
     try {
       this.logger.info(`🔧 Installing ${service.name}...`);
+      const startedAt = new Date().toISOString();
+      this.progress[service.type as ServiceType] = { status: 'pending', startedAt, updatedAt: startedAt };
+
+      // Setup commands use the dependencies (e.g. psql in the PostgreSQL container)
+      await this.waitForDependencies(service, available);
+
+      await this.installHooks.beforeInstall?.(service.type);
 
       // Install the service
       await service.install();
+      await this.markProgress(service, 'installed');
 
       // Configure the service
       await service.configure();
 
+      // Dependents are installed in a later level, after this hook
+      await this.installHooks.afterInstall?.(service.type);
+
       // Check if service was actually installed successfully
       if (
         'isInstalled' in service &&
         typeof service.isInstalled === 'function'
       ) {
         if (service.isInstalled()) {
+          await this.markProgress(service, 'configured');
           this.logger.info(
             `✅ ${service.name} installed and configured successfully`,
           );
         } else {
+          await this.markProgress(service, 'failed', 'Installation was skipped');
           this.logger.warn(`⚠️  ${service.name} installation was skipped`);
         }
       } else {
+        await this.markProgress(service, 'configured');
         this.logger.info(
           `✅ ${service.name} installed and configured successfully`,
         );
@@ -450,6 +975,83 @@ export class HomelabApplication {
     }
   }
 
+  /**
+   * Wait until the containers of every dependency of a service are healthy
+   * Dependencies with a template healthcheck are waited for as long as its retries
+   * allow (running its probe when the container has no health status); the others
+   * must be running without restarting
+   */
+  private async waitForDependencies(service: Service, available: Service[]): Promise<void> {
+    if (DryRun.isEnabled()) {
+      return;
+    }
+
+    for (const name of service.dependencies) {
+      const dependency = available.find((s) => s.name === name);
+      if (!dependency || this.healthyServices.has(dependency.type)) {
+        continue;
+      }
+
+      const template = (await this.templateEngine.load(`services/${dependency.type}`)).content as any;
+      const check = HealthChecks.fromTemplate(template);
+      const checked = check && HealthChecks.getContainer(template, check);
+      const containers = checked ? [checked] : TemplateInspector.getContainerNames(template, true);
+      const timeoutMs = check ? HealthChecks.getTimeoutMs(check) : 120000;
+      // Containers created before the template declared a healthcheck have no health status
+      const probe = check && HealthChecks.getProbe(template, check);
+
+      for (const container of containers) {
+        this.logger.info(`⏳ Waiting for ${container} (${dependency.name}) to be healthy...`);
+        if (!(await ContainerRuntimeUtils.waitForHealthy(container, timeoutMs, probe))) {
+          throw new HomelabError(
+            `Dependency ${dependency.name} is not healthy (${container} did not become healthy within ${Math.round(timeoutMs / 1000)}s)`,
+            'DEPENDENCY_UNHEALTHY',
+            true,
+            { service: service.type, dependency: dependency.type, container },
+          );
+        }
+      }
+      this.healthyServices.add(dependency.type);
+    }
+  }
+
+  /**
+   * Probe the Caddy routes of the given services and keep the results for the
+   * summary and the state file; a failing probe never fails the installation
+   */
+  private async checkRoutes(services: ServiceType[]): Promise<void> {
+    if (DryRun.isEnabled()) {
+      return;
+    }
+
+    try {
+      const checker = new RouteChecker(this.config!, this.templateEngine);
+      if (checker.getRoutes(services).length === 0) {
+        return;
+      }
+
+      this.logger.info('🩺 Checking Caddy routes...');
+      const results = await checker.check(services);
+      this.config!.routeChecks = { ...this.config!.routeChecks, ...results };
+
+      const broken = Object.values(results).filter((check) => check.broken);
+      if (broken.length > 0) {
+        this.logger.warn(`⚠️  ${broken.length} route(s) broken: ${broken.map((check) => check.host).join(', ')}`);
+      }
+    } catch (error) {
+      this.logger.warn(`⚠️  Could not check routes: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Services installed in this run that were not skipped
+   */
+  private getSuccessfulServices(): Service[] {
+    return this.installedServices.filter((s) =>
+      'isInstalled' in s && typeof s.isInstalled === 'function' ? s.isInstalled() : true,
+    );
+  }
+
   /**
    * Restart core services to ensure proper configuration
    */
@@ -464,6 +1066,10 @@ export class HomelabApplication {
         ? 'dockhand'
         : 'arcane';
       const command = `${runtime} restart caddy ${managementContainer} || true`;
+      if (DryRun.isEnabled()) {
+        DryRun.recordCommand(command, 'core');
+        return;
+      }
       await $`sh -c ${command}`;
 
       // Verify Caddy is running after restart
@@ -495,27 +1101,27 @@ export class HomelabApplication {
   }
 
   /**
-   * Rollback installed services in case of failure
+   * Rollback installed services in case of failure: undo the containers, volumes,
+   * directories and config files registered while installing, newest first
    */
   private async rollbackServices(): Promise<void> {
-    if (this.installedServices.length === 0) {
+    const recoveryManager = ErrorHandler.getInstance().getRecoveryManager();
+
+    if (InstallRollback.isDisabled()) {
+      if (this.installedServices.length > 0 || this.failedServices.length > 0) {
+        this.logger.warn('⚠️  Rollback disabled (--no-rollback), keeping the partial installation for debugging');
+      }
       return;
     }
 
-    this.logger.warn('🔄 Attempting to rollback installed services...');
-
-    // Rollback services in reverse order
-    for (const service of this.installedServices.reverse()) {
-      try {
-        this.logger.warn(
-          `⚠️  Manual cleanup may be required for ${service.name}`,
-        );
-      } catch (rollbackError) {
-        this.logger.error(
-          `❌ Failed to rollback ${service.name}: ${rollbackError}`,
-        );
-      }
+    if (!recoveryManager.hasActions()) {
+      return;
     }
+
+    this.logger.warn('🔄 Rolling back partially installed services...');
+    await recoveryManager.executeRollback();
+    InstallRollback.finish();
+    this.logger.info('✅ Host restored to its state before the installation');
   }
 
   /**
@@ -778,13 +1384,8 @@ export class HomelabApplication {
     const isMacOS = this.config.distribution === DistributionType.MACOS;
     const usingSelfSigned = isMacOS || isLocalDomain;
 
-    const isInstalled = (s: Service): boolean =>
-      'isInstalled' in s && typeof s.isInstalled === 'function'
-        ? s.isInstalled()
-        : true;
-
-    const successful = this.installedServices.filter(isInstalled);
-    const skipped = this.installedServices.filter((s) => !isInstalled(s));
+    const successful = this.getSuccessfulServices();
+    const skipped = this.installedServices.filter((s) => !successful.includes(s));
 
     console.log('\n📋 Installed Services:');
 
@@ -804,6 +1405,10 @@ export class HomelabApplication {
         }
       }
 
+      if (this.config.routeChecks?.[service.type]?.broken) {
+        accessUrl += ' ⚠️  route broken';
+      }
+
       console.log(`   ✓ ${service.name}: ${accessUrl}`);
     }
 
@@ -819,6 +1424,17 @@ export class HomelabApplication {
       }
     }
 
+    const routeChecks = Object.entries(this.config.routeChecks || {}) as [ServiceType, RouteCheck][];
+    if (routeChecks.length > 0) {
+      console.log('\n🩺 Route Checks:');
+      for (const [service, check] of routeChecks) {
+        console.log(`   ${check.broken ? '✗' : '✓'} ${service} (${check.host}): ${RouteChecker.describe(check)}`);
+        if (check.reason) {
+          console.log(`      → ${check.reason}`);
+        }
+      }
+    }
+
     console.log('\n📚 Next Steps:');
 
     // Show container runtime warnings
@@ -1103,6 +1719,34 @@ export class HomelabApplication {
     this.config = config;
   }
 
+  /**
+   * Set steps to run before and after each service is installed
+   */
+  setInstallHooks(hooks: ServiceInstallHooks): void {
+    this.installHooks = hooks;
+  }
+
+  /**
+   * Set how many services of a dependency level are installed at the same time
+   */
+  setParallel(limit: number): void {
+    this.parallel = Math.max(1, Math.floor(limit));
+  }
+
+  /**
+   * Install even when the selection does not fit the host resources (--force)
+   */
+  setForce(force: boolean): void {
+    this.force = force;
+  }
+
+  /**
+   * Reassign conflicting host ports instead of stopping (--auto-ports)
+   */
+  setAutoPorts(autoPorts: boolean): void {
+    this.autoPorts = autoPorts;
+  }
+
   /**
    * Set distribution strategy (useful for testing)
    */
@@ -0,0 +1,291 @@
+/**
+ * Scheduled backups
+ * Services with a `backup` block in hal.yml get a systemd timer that runs
+ * `hal backup <service> --scheduled`; the run prunes restore points following
+ * the retention policy and reports the result to Ntfy when it is installed
+ */
+
+import { BackupSchedule, HomelabConfig, ServiceType } from './types.js';
+import { RestorePoint } from './backup.js';
+import { PortPlanner } from './ports.js';
+import { HomelabError } from '../utils/errors.js';
+import { CredentialStore } from '../utils/credentials.js';
+import { TemplateEngine } from '../templates/engine.js';
+import { $ } from 'bun';
+import { existsSync } from 'fs';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { homedir, tmpdir, userInfo } from 'os';
+
+export interface ScheduleInstallResult {
+  /** Timers enabled, by service */
+  installed: ServiceType[];
+  /** Timers of services that are no longer scheduled */
+  removed: string[];
+  /** Crontab lines for hosts without systemd (nothing is installed there) */
+  crontab?: string[];
+}
+
+const UNIT_PREFIX = 'hal-backup-';
+const SYSTEMD_DIR = '/etc/systemd/system';
+const NTFY_TOPIC = 'hal-backups';
+
+const CRON_FIELDS: { name: string; min: number; max: number }[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Installs backup timers and applies retention policies
+ */
+export class BackupScheduler {
+  /**
+   * Services with a backup schedule among the installed ones
+   */
+  static getSchedules(config: HomelabConfig): Partial<Record<ServiceType, BackupSchedule>> {
+    const schedules: Partial<Record<ServiceType, BackupSchedule>> = {};
+    for (const [service, override] of Object.entries(config.serviceOverrides || {}) as [ServiceType, { backup?: BackupSchedule }][]) {
+      if (override?.backup && config.selectedServices.includes(service)) {
+        schedules[service] = override.backup;
+      }
+    }
+    return schedules;
+  }
+
+  /**
+   * Expand a cron expression into the values of each field
+   * @throws HomelabError when the expression is invalid
+   */
+  static parseCron(expression: string): number[][] {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw this.invalid(expression, 'expected 5 fields (minute hour day-of-month month day-of-week)');
+    }
+
+    return fields.map((field, index) => {
+      const { name, min, max } = CRON_FIELDS[index];
+      const values = new Set<number>();
+      for (const item of field.split(',')) {
+        const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+        if (!match) {
+          throw this.invalid(expression, `invalid ${name} "${item}"`);
+        }
+        const start = match[1] === '*' ? min : Number(match[2]);
+        const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+        const step = match[4] ? Number(match[4]) : 1;
+        if (start < min || end > max || start > end || step < 1) {
+          throw this.invalid(expression, `${name} "${item}" is out of range ${min}-${max}`);
+        }
+        for (let value = start; value <= end; value += step) {
+          // Sunday is both 0 and 7
+          values.add(index === 4 && value === 7 ? 0 : value);
+        }
+      }
+      return [...values].sort((a, b) => a - b);
+    });
+  }
+
+  /**
+   * systemd OnCalendar expression of a cron expression.
+   * Cron runs when either day field matches if both are restricted; systemd needs both,
+   * so that combination is rejected
+   */
+  static toOnCalendar(expression: string): string {
+    const [minutes, hours, days, months, weekdays] = this.parseCron(expression);
+    const full = (values: number[], index: number) =>
+      values.length === CRON_FIELDS[index].max - CRON_FIELDS[index].min + 1 - (index === 4 ? 1 : 0);
+    const list = (values: number[], index: number) =>
+      full(values, index) ? '*' : values.map(v => String(v).padStart(2, '0')).join(',');
+
+    if (!full(days, 2) && !full(weekdays, 4)) {
+      throw this.invalid(expression, 'restrict either the day of month or the day of week, not both');
+    }
+
+    const weekday = full(weekdays, 4) ? '' : `${weekdays.map(d => WEEKDAYS[d]).join(',')} `;
+    return `${weekday}*-${list(months, 3)}-${list(days, 2)} ${list(hours, 1)}:${list(minutes, 0)}:00`;
+  }
+
+  /**
+   * Service and timer units running the scheduled backup of a service
+   * @param command Command line of hal (bun, entry point)
+   * @param environmentFile File with HAL_SECRETS_PASSPHRASE when the credentials store needs it
+   */
+  static getUnits(service: ServiceType, schedule: BackupSchedule, command: string, workingDir: string, user: string, environmentFile?: string): Record<string, string> {
+    return {
+      [`${UNIT_PREFIX}${service}.service`]: [
+        '[Unit]',
+        `Description=HomeLab backup of ${service}`,
+        'Wants=network-online.target',
+        'After=network-online.target docker.service',
+        '',
+        '[Service]',
+        'Type=oneshot',
+        `User=${user}`,
+        `WorkingDirectory=${workingDir}`,
+        `Environment=HOME=${homedir()}`,
+        ...(environmentFile ? [`EnvironmentFile=${environmentFile}`] : []),
+        `ExecStart=${command} backup ${service} --scheduled`,
+        '',
+      ].join('\n'),
+      [`${UNIT_PREFIX}${service}.timer`]: [
+        '[Unit]',
+        `Description=Scheduled HomeLab backup of ${service} (${schedule.schedule})`,
+        '',
+        '[Timer]',
+        `OnCalendar=${this.toOnCalendar(schedule.schedule)}`,
+        // Run a missed backup when the host was off at the scheduled time
+        'Persistent=true',
+        '',
+        '[Install]',
+        'WantedBy=timers.target',
+        '',
+      ].join('\n'),
+    };
+  }
+
+  /**
+   * Restore points to delete: the newest point of each of the last keepDaily days,
+   * keepWeekly ISO weeks and keepMonthly months is kept. Nothing is deleted
+   * when the policy keeps no period
+   * @param points Restore points of one service
+   */
+  static selectExpired(points: RestorePoint[], policy: Pick<BackupSchedule, 'keepDaily' | 'keepWeekly' | 'keepMonthly'>): RestorePoint[] {
+    const periods: [number | undefined, (date: Date) => string][] = [
+      [policy.keepDaily, date => date.toISOString().slice(0, 10)],
+      [policy.keepWeekly, date => this.isoWeek(date)],
+      [policy.keepMonthly, date => date.toISOString().slice(0, 7)],
+    ];
+    if (periods.every(([count]) => !count)) {
+      return [];
+    }
+
+    const newest = [...points].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const kept = new Set<RestorePoint>();
+    for (const [count, period] of periods) {
+      const seen = new Set<string>();
+      for (const point of newest) {
+        const key = period(point.createdAt);
+        if (seen.has(key)) continue;
+        if (seen.size >= (count || 0)) break;
+        seen.add(key);
+        kept.add(point);
+      }
+    }
+    return newest.filter(point => !kept.has(point));
+  }
+
+  /**
+   * Install a timer per scheduled service and remove timers of services no longer scheduled
+   */
+  static async install(config: HomelabConfig): Promise<ScheduleInstallResult> {
+    const schedules = this.getSchedules(config);
+    const services = Object.keys(schedules) as ServiceType[];
+    const command = this.getHalCommand();
+    const workingDir = process.cwd();
+
+    // Scheduled runs have no terminal to ask for the passphrase of the credentials store
+    const environmentFile = services.length > 0 && await CredentialStore.isPassphraseProtected(config.configPath)
+      ? await CredentialStore.saveEnvironment(config.configPath)
+      : undefined;
+    if (!environmentFile) {
+      await CredentialStore.removeEnvironment();
+    }
+
+    if (!existsSync('/run/systemd/system')) {
+      const environment = environmentFile ? `set -a && . ${environmentFile} && set +a && ` : '';
+      return {
+        installed: [],
+        removed: [],
+        crontab: services.map(service => `${schedules[service]!.schedule} ${environment}cd ${workingDir} && ${command} backup ${service} --scheduled`),
+      };
+    }
+
+    const staging = await mkdtemp(join(tmpdir(), 'hal-timers-'));
+    try {
+      const files: string[] = [];
+      for (const service of services) {
+        for (const [name, content] of Object.entries(this.getUnits(service, schedules[service]!, command, workingDir, userInfo().username, environmentFile))) {
+          await writeFile(join(staging, name), content);
+          files.push(join(staging, name));
+        }
+      }
+
+      const wanted = services.map(service => `${UNIT_PREFIX}${service}.timer`);
+      const stale = (await readdir(SYSTEMD_DIR).catch(() => [] as string[]))
+        .filter(name => name.startsWith(UNIT_PREFIX) && name.endsWith('.timer') && !wanted.includes(name));
+
+      for (const timer of stale) {
+        const unit = timer.replace(/\.timer$/, '.service');
+        await $`sh -c ${`sudo systemctl disable --now ${timer} 2>/dev/null; sudo rm -f ${SYSTEMD_DIR}/${timer} ${SYSTEMD_DIR}/${unit}`}`.quiet();
+      }
+      if (files.length > 0) {
+        await $`sh -c ${`sudo install -m 644 ${files.join(' ')} ${SYSTEMD_DIR}/`}`.quiet();
+      }
+      await $`sudo systemctl daemon-reload`.quiet();
+      if (wanted.length > 0) {
+        await $`sh -c ${`sudo systemctl enable --now ${wanted.join(' ')}`}`.quiet();
+      }
+      return { installed: services, removed: stale };
+    } catch (error: any) {
+      throw new HomelabError(
+        `Failed to install backup timers: ${error?.stderr?.toString() || error}`,
+        'SYSTEMD_INSTALL_FAILED',
+        true,
+      );
+    } finally {
+      await rm(staging, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Publish a message to the hal-backups topic of the installed Ntfy (ignored when not installed)
+   */
+  static async notify(config: HomelabConfig, title: string, message: string, success: boolean): Promise<void> {
+    if (!config.selectedServices.includes(ServiceType.NTFY)) {
+      return;
+    }
+
+    let template: any;
+    try {
+      template = (await new TemplateEngine().load(`services/${ServiceType.NTFY}`)).content;
+    } catch {
+      template = undefined;
+    }
+    const port = PortPlanner.applyMappings(template, ServiceType.NTFY, config)[0] ?? 8005;
+
+    try {
+      await fetch(`http://127.0.0.1:${port}/${NTFY_TOPIC}`, {
+        method: 'POST',
+        body: message,
+        headers: { Title: title, Tags: success ? 'white_check_mark' : 'x', Priority: success ? 'default' : 'high' },
+      });
+    } catch (error) {
+      console.log(`⚠️  Could not notify Ntfy: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Command line that runs this hal (bun and the entry point)
+   */
+  private static getHalCommand(): string {
+    return `${process.execPath} run ${resolve(process.argv[1] || 'src/main.ts')}`;
+  }
+
+  private static isoWeek(date: Date): string {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    // Thursday of the same week decides the ISO year
+    day.setUTCDate(day.getUTCDate() + 4 - (day.getUTCDay() || 7));
+    const yearStart = new Date(Date.UTC(day.getUTCFullYear(), 0, 1));
+    const week = Math.ceil(((day.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+    return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+  }
+
+  private static invalid(expression: string, reason: string): HomelabError {
+    return new HomelabError(`Invalid backup schedule "${expression}": ${reason}`, 'INVALID_SCHEDULE', false, { expression });
+  }
+}
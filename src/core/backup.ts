@@ -0,0 +1,615 @@
+/**
+ * Backup and restore of an existing HomeLab installation
+ * Databases are saved as logical dumps (pg_dumpall, mariadb-dump, mongodump, Redis BGSAVE);
+ * other services as archives of their named volumes and ~/<data path>/<service>
+ * directories, taken while their containers are paused. The config directory
+ * (state, credentials and generated configs) is added, and everything is packed
+ * into one tar.gz indexed by manifest.json, kept in a local directory or uploaded
+ * to a bucket of the RustFS (or MinIO) installed by HAL
+ */
+
+import { HomelabConfig, ServiceType } from './types.js';
+import { HomelabError } from '../utils/errors.js';
+import { ServiceFactory } from '../services/factory.js';
+import { TemplateInspector } from '../services/inspector.js';
+import { TemplateEngine } from '../templates/engine.js';
+import { ContainerRuntimeUtils } from '../utils/container.js';
+import { CredentialStore } from '../utils/credentials.js';
+import { Logger } from '../utils/logger.js';
+import { $ } from 'bun';
+import { existsSync } from 'fs';
+import { mkdir, mkdtemp, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { basename, dirname, join, resolve } from 'path';
+import { homedir, hostname, tmpdir, userInfo } from 'os';
+
+export type DumpEngine = 'postgresql' | 'mariadb' | 'mongodb' | 'redis';
+
+export interface BackupEntry {
+  service: ServiceType;
+  /** Logical dump of a database service (its volumes are not archived) */
+  dump?: { engine: DumpEngine; file: string };
+  /** Named volume archives */
+  volumes: { name: string; file: string }[];
+  /** Archive of ~/<data path>/<service> */
+  data?: string;
+}
+
+export interface BackupManifest {
+  version: number;
+  createdAt: string;
+  hostname: string;
+  ip: string;
+  domain: string;
+  services: BackupEntry[];
+  /** Archive of the config directory (onmind-hal.json, credentials, generated configs) */
+  config?: string;
+}
+
+export interface BackupOptions {
+  /** Local directory for the archive (default ~/ws/backups) */
+  output?: string;
+  /** Upload to the RustFS (or MinIO) bucket instead of keeping a local copy */
+  bucket?: boolean;
+  /** Added to the archive name; scheduled backups use the service name */
+  label?: string;
+  /** Scheduled run: sudo cannot ask for a password */
+  unattended?: boolean;
+}
+
+/** Archive available for restore */
+export interface RestorePoint {
+  name: string;
+  /** Service of a scheduled backup, undefined for other backups */
+  label?: string;
+  createdAt: Date;
+  /** Size in bytes */
+  size?: number;
+  /** Local path, or bucket URL */
+  location: string;
+  inBucket: boolean;
+}
+
+export interface BackupResult {
+  /** Local path of the archive, or its bucket URL when uploaded */
+  location: string;
+  manifest: BackupManifest;
+}
+
+export type RestoreStatus = 'restored' | 'skipped' | 'failed';
+
+export interface RestoreStep {
+  service: ServiceType | 'config';
+  status: RestoreStatus;
+  message?: string;
+}
+
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_BUCKET = 'hal-backups';
+const MANIFEST_FILENAME = 'manifest.json';
+const ARCHIVE_NAME = /^hal-backup-(?:(.+)-)?(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})\.tar\.gz$/;
+const DEFAULT_OUTPUT = join('ws', 'backups');
+
+/** Services backed up with a logical dump, by service type */
+export const DUMP_ENGINES: Partial<Record<ServiceType, DumpEngine>> = {
+  [ServiceType.POSTGRESQL]: 'postgresql',
+  [ServiceType.MARIADB]: 'mariadb',
+  [ServiceType.MONGODB]: 'mongodb',
+  [ServiceType.REDIS]: 'redis',
+};
+
+const DUMP_FILES: Record<DumpEngine, string> = {
+  postgresql: 'postgresql.sql',
+  mariadb: 'mariadb.sql',
+  mongodb: 'mongodb.archive.gz',
+  redis: 'redis.rdb',
+};
+
+/** Helper image used to read and write named volumes */
+const VOLUME_IMAGE = 'alpine:latest';
+const MC_IMAGE = 'minio/mc:latest';
+
+/** MinIO of earlier HAL versions, still listed in their state (no longer installable) */
+const MINIO = 'minio' as ServiceType;
+
+/** Object storage that can hold the backup bucket, in order of preference */
+const BUCKET_SERVICES = [ServiceType.RUSTFS, MINIO];
+
+/**
+ * Creates and restores backup archives
+ */
+export class BackupManager {
+  private config: HomelabConfig;
+  private templateEngine: TemplateEngine;
+  private serviceFactory: ServiceFactory;
+  private logger: Logger;
+
+  constructor(config: HomelabConfig, templateEngine: TemplateEngine = new TemplateEngine()) {
+    this.config = config;
+    this.templateEngine = templateEngine;
+    this.serviceFactory = new ServiceFactory(templateEngine);
+    this.logger = new Logger();
+  }
+
+  /**
+   * Back up the given services (all installed services when empty) and the config directory
+   */
+  async backup(targets: ServiceType[] = [], options: BackupOptions = {}): Promise<BackupResult> {
+    this.checkInstalled(targets);
+    const services = this.selectServices(targets);
+    const bucketService = options.bucket ? this.getBucketService() : undefined;
+    const runtime = await ContainerRuntimeUtils.detectRuntime();
+
+    const createdAt = new Date();
+    const archiveName = BackupManager.getArchiveName(createdAt, options.label);
+    const outputDir = options.output ? resolve(options.output) : join(homedir(), DEFAULT_OUTPUT);
+    await mkdir(outputDir, { recursive: true });
+    const staging = await mkdtemp(join(outputDir, '.hal-backup-'));
+
+    const manifest: BackupManifest = {
+      version: BACKUP_FORMAT_VERSION,
+      createdAt: createdAt.toISOString(),
+      hostname: hostname(),
+      ip: this.config.ip,
+      domain: this.config.domain,
+      services: [],
+    };
+
+    try {
+      await mkdir(join(staging, 'dumps'));
+      await mkdir(join(staging, 'volumes'));
+      await mkdir(join(staging, 'data'));
+
+      for (const service of services) {
+        this.logger.info(`💾 Backing up ${service}...`);
+        manifest.services.push(await this.backupService(service, runtime, staging, options.unattended));
+      }
+
+      // Includes onmind-hal.json, the encrypted hal-credentials.json and generated configs
+      const configPath = this.config.configPath || join('ws', 'init');
+      await $`sh -c ${`tar czf ${join(staging, 'config.tar.gz')} -C ${homedir()} ${configPath}`}`.quiet();
+      manifest.config = 'config.tar.gz';
+
+      await writeFile(join(staging, MANIFEST_FILENAME), JSON.stringify(manifest, null, 2));
+      const archive = join(outputDir, archiveName);
+      await $`sh -c ${`tar czf ${archive} -C ${staging} .`}`.quiet();
+
+      if (bucketService) {
+        const location = await this.upload(runtime, bucketService, archive);
+        await rm(archive, { force: true });
+        return { location, manifest };
+      }
+      return { location: archive, manifest };
+    } finally {
+      await rm(staging, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Restore services (all services in the archive when empty); the config directory
+   * is only restored with the whole archive
+   * @param archive Local path, or the archive name in the bucket when fromBucket is set
+   */
+  async restore(archive: string, targets: ServiceType[] = [], fromBucket: boolean = false): Promise<RestoreStep[]> {
+    const runtime = await ContainerRuntimeUtils.detectRuntime();
+    const parent = fromBucket ? join(homedir(), DEFAULT_OUTPUT) : dirname(resolve(archive));
+    await mkdir(parent, { recursive: true });
+    const workDir = await mkdtemp(join(parent, '.hal-restore-'));
+
+    try {
+      let archivePath = resolve(archive);
+      if (fromBucket) {
+        archivePath = await this.download(runtime, this.getBucketService(), basename(archive), workDir);
+      } else if (!existsSync(archivePath)) {
+        throw new HomelabError(`Backup archive not found: ${archivePath}`, 'BACKUP_NOT_FOUND', false, { archive: archivePath });
+      }
+
+      const staging = join(workDir, 'content');
+      const manifest = await BackupManager.unpack(archivePath, staging);
+
+      const missing = targets.filter(t => !manifest.services.some(e => e.service === t));
+      if (missing.length > 0) {
+        throw new HomelabError(`Not in the backup: ${missing.join(', ')}`, 'SERVICE_NOT_IN_BACKUP', false, { services: missing });
+      }
+
+      const steps: RestoreStep[] = [];
+      if (targets.length === 0 && await BackupManager.restoreConfig(manifest, staging)) {
+        steps.push({ service: 'config', status: 'restored' });
+      }
+
+      const entries = this.orderEntries(manifest.services.filter(e => targets.length === 0 || targets.includes(e.service)));
+      for (const entry of entries) {
+        if (!this.config.selectedServices.includes(entry.service)) {
+          steps.push({ service: entry.service, status: 'skipped', message: 'not installed (run hal add first)' });
+          continue;
+        }
+        this.logger.info(`♻️  Restoring ${entry.service}...`);
+        try {
+          await this.restoreEntry(entry, staging);
+          steps.push({ service: entry.service, status: 'restored' });
+        } catch (error) {
+          steps.push({ service: entry.service, status: 'failed', message: error instanceof Error ? error.message : String(error) });
+        }
+      }
+      return steps;
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Restore one service of an unpacked archive: dumps are loaded into the running
+   * database; volumes and data directories are replaced while its containers are stopped
+   * (they may not exist yet, e.g. before installing on a new host)
+   * @param staging Directory the archive was unpacked into (see unpack)
+   */
+  async restoreEntry(entry: BackupEntry, staging: string): Promise<void> {
+    const runtime = await ContainerRuntimeUtils.detectRuntime();
+    await this.restoreService(entry, runtime, staging);
+  }
+
+  /**
+   * Extract an archive into a directory and read its manifest
+   */
+  static async unpack(archivePath: string, staging: string): Promise<BackupManifest> {
+    await mkdir(staging, { recursive: true });
+    await $`sh -c ${`tar xzf ${archivePath} -C ${staging}`}`.quiet();
+    return BackupManager.parseManifest(await readFile(join(staging, MANIFEST_FILENAME), 'utf-8'));
+  }
+
+  /**
+   * Extract the config directory of an unpacked archive into the home directory
+   * @returns false when the archive has no config directory
+   */
+  static async restoreConfig(manifest: BackupManifest, staging: string): Promise<boolean> {
+    if (!manifest.config) {
+      return false;
+    }
+    await $`sh -c ${`tar xzf ${join(staging, manifest.config)} -C ${homedir()}`}`.quiet();
+    return true;
+  }
+
+  /**
+   * Local restore points in a directory and, with RustFS or MinIO installed, those in the bucket; newest first
+   */
+  async list(output?: string): Promise<RestorePoint[]> {
+    const outputDir = output ? resolve(output) : join(homedir(), DEFAULT_OUTPUT);
+    const points: RestorePoint[] = [];
+
+    let names: string[] = [];
+    try {
+      names = await readdir(outputDir);
+    } catch {
+      // No backups yet
+    }
+    for (const name of names) {
+      const parsed = BackupManager.parseArchiveName(name);
+      if (parsed) {
+        const path = join(outputDir, name);
+        points.push({ name, ...parsed, size: (await stat(path)).size, location: path, inBucket: false });
+      }
+    }
+
+    const bucketService = this.findBucketService();
+    if (bucketService) {
+      const runtime = await ContainerRuntimeUtils.detectRuntime();
+      const listing = await this.capture(
+        await this.mcCommand(runtime, bucketService, tmpdir(), `mc ls --json hal/${BACKUP_BUCKET} 2>/dev/null || true`),
+        'list the bucket',
+      );
+      for (const line of listing.split('\n').filter(l => l.trim().startsWith('{'))) {
+        const entry = JSON.parse(line);
+        const parsed = BackupManager.parseArchiveName(entry.key || '');
+        if (parsed) {
+          points.push({
+            name: entry.key,
+            ...parsed,
+            size: entry.size,
+            location: `${bucketService}://${BACKUP_BUCKET}/${entry.key}`,
+            inBucket: true,
+          });
+        }
+      }
+    }
+
+    return points.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Delete restore points (local files or bucket objects)
+   */
+  async delete(points: RestorePoint[]): Promise<void> {
+    for (const point of points.filter(p => !p.inBucket)) {
+      await rm(point.location, { force: true });
+    }
+    const remote = points.filter(p => p.inBucket);
+    if (remote.length > 0) {
+      const runtime = await ContainerRuntimeUtils.detectRuntime();
+      const objects = remote.map(p => `hal/${BACKUP_BUCKET}/${p.name}`).join(' ');
+      await this.run(await this.mcCommand(runtime, this.getBucketService(), tmpdir(), `mc rm ${objects}`), 'delete from the bucket');
+    }
+  }
+
+  /**
+   * Archive name for a backup taken at the given time
+   * (hal-backup-2026-01-10T10-00-00.tar.gz, hal-backup-immich-2026-01-10T10-00-00.tar.gz)
+   */
+  static getArchiveName(date: Date, label?: string): string {
+    return `hal-backup-${label ? `${label}-` : ''}${date.toISOString().slice(0, 19).replace(/:/g, '-')}.tar.gz`;
+  }
+
+  /**
+   * Label and creation time of an archive name, undefined for other files
+   */
+  static parseArchiveName(name: string): { label?: string; createdAt: Date } | undefined {
+    const match = name.match(ARCHIVE_NAME);
+    if (!match) return undefined;
+    const [, label, day, hours, minutes, seconds] = match;
+    return { label, createdAt: new Date(`${day}T${hours}:${minutes}:${seconds}Z`) };
+  }
+
+  /**
+   * Command that writes the dump of a database service to a host file
+   * @param secret Resolves the root passwords (see CredentialStore.resolve)
+   */
+  static getDumpCommand(runtime: string, engine: DumpEngine, file: string, secret: (key: string) => string): string {
+    switch (engine) {
+      case 'postgresql':
+        return `${runtime} exec postgresql pg_dumpall -U root --clean --if-exists > ${file}`;
+      case 'mariadb':
+        return `${runtime} exec mariadb mariadb-dump -uroot -p${secret('mariadb.root')} ` +
+          `--all-databases --single-transaction --routines --events > ${file}`;
+      case 'mongodb':
+        return `${runtime} exec mongodb mongodump -u admin -p ${secret('mongodb.root')} --authenticationDatabase admin ` +
+          `--archive --gzip > ${file}`;
+      case 'redis':
+        // BGSAVE runs in the background: wait until LASTSAVE changes before copying the file
+        return `before=$(${runtime} exec redis redis-cli LASTSAVE) && ${runtime} exec redis redis-cli BGSAVE && ` +
+          `for i in $(seq 1 60); do [ "$(${runtime} exec redis redis-cli LASTSAVE)" != "$before" ] && break; sleep 1; done && ` +
+          `${runtime} cp redis:/data/dump.rdb ${file}`;
+    }
+  }
+
+  /**
+   * Command that loads a dump into the running database service
+   */
+  static getLoadCommand(runtime: string, engine: DumpEngine, file: string, secret: (key: string) => string): string {
+    switch (engine) {
+      case 'postgresql':
+        return `${runtime} exec -i postgresql psql -U root -d postgres -q < ${file}`;
+      case 'mariadb':
+        return `${runtime} exec -i mariadb mariadb -uroot -p${secret('mariadb.root')} < ${file}`;
+      case 'mongodb':
+        return `${runtime} exec -i mongodb mongorestore -u admin -p ${secret('mongodb.root')} --authenticationDatabase admin ` +
+          `--archive --gzip --drop < ${file}`;
+      case 'redis':
+        // With appendonly enabled Redis only loads the RDB file when there is no AOF
+        return `${runtime} stop redis && ` +
+          `${runtime} run --rm -v redis_data:/data -v ${dirname(file)}:/backup ${VOLUME_IMAGE} ` +
+          `sh -c "rm -rf /data/appendonlydir /data/appendonly.aof && cp /backup/${basename(file)} /data/dump.rdb" && ` +
+          `${runtime} start redis`;
+    }
+  }
+
+  /**
+   * Read and check a manifest
+   */
+  static parseManifest(content: string): BackupManifest {
+    let manifest: BackupManifest;
+    try {
+      manifest = JSON.parse(content);
+    } catch {
+      throw new HomelabError('The backup manifest is not valid JSON', 'BACKUP_INVALID', false);
+    }
+    if (manifest?.version !== BACKUP_FORMAT_VERSION || !Array.isArray(manifest.services)) {
+      throw new HomelabError(
+        `Unsupported backup format ${manifest?.version} (this hal reads version ${BACKUP_FORMAT_VERSION})`,
+        'BACKUP_INVALID',
+        false,
+      );
+    }
+    return manifest;
+  }
+
+  private checkInstalled(targets: ServiceType[]): void {
+    const notInstalled = targets.filter(t => !this.config.selectedServices.includes(t));
+    if (notInstalled.length > 0) {
+      throw new HomelabError(
+        `Not installed: ${notInstalled.join(', ')}`,
+        'SERVICE_NOT_INSTALLED',
+        false,
+        { services: notInstalled },
+      );
+    }
+  }
+
+  /**
+   * Services included in a backup of the targets: the targets plus the installed
+   * databases they depend on (every installed service when empty), in installation order
+   */
+  selectServices(targets: ServiceType[]): ServiceType[] {
+    const installed = this.serviceFactory.getInstallationOrder(this.serviceFactory.createServices(this.config));
+    if (targets.length === 0) {
+      return installed.map(s => s.type);
+    }
+
+    const selected = new Set(targets);
+    for (const service of installed.filter(s => targets.includes(s.type))) {
+      for (const dependency of installed.filter(s => service.dependencies.includes(s.name))) {
+        if (DUMP_ENGINES[dependency.type] && !selected.has(dependency.type)) {
+          this.logger.info(`   Including ${dependency.type} (database of ${service.type})`);
+          selected.add(dependency.type);
+        }
+      }
+    }
+    return installed.map(s => s.type).filter(type => selected.has(type));
+  }
+
+  /**
+   * Restore databases before the services that use them
+   */
+  private orderEntries(entries: BackupEntry[]): BackupEntry[] {
+    const order = this.serviceFactory
+      .getInstallationOrder(this.serviceFactory.createServices(this.config))
+      .map(s => s.type);
+    const rank = (entry: BackupEntry) => {
+      const index = order.indexOf(entry.service);
+      return index === -1 ? order.length : index;
+    };
+    return [...entries].sort((a, b) => rank(a) - rank(b));
+  }
+
+  private async backupService(service: ServiceType, runtime: string, staging: string, unattended = false): Promise<BackupEntry> {
+    const entry: BackupEntry = { service, volumes: [] };
+    const secret = (key: string) => CredentialStore.resolve(this.config, key);
+
+    const engine = DUMP_ENGINES[service];
+    if (engine) {
+      const file = join('dumps', DUMP_FILES[engine]);
+      await this.run(BackupManager.getDumpCommand(runtime, engine, join(staging, file), secret), `${service} dump`);
+      entry.dump = { engine, file };
+      return entry;
+    }
+
+    const template = await this.loadTemplate(service);
+    const volumes = TemplateInspector.getVolumeNames(template);
+    const dataDir = join(homedir(), this.config.dataPath, service);
+    const containers = TemplateInspector.getContainerNames(template);
+
+    // Paused containers do not write while their files are archived
+    await this.run(`${runtime} pause ${containers.join(' ')} 2>/dev/null || true`, `pause ${service}`);
+    try {
+      for (const volume of volumes) {
+        const file = join('volumes', `${volume}.tar.gz`);
+        await this.run(
+          `${runtime} run --rm -v ${volume}:/source:ro -v ${join(staging, 'volumes')}:/backup ${VOLUME_IMAGE} ` +
+          `tar czf /backup/${volume}.tar.gz -C /source .`,
+          `volume ${volume}`,
+        );
+        entry.volumes.push({ name: volume, file });
+      }
+
+      if (existsSync(dataDir)) {
+        const file = join('data', `${service}.tar.gz`);
+        const command = `tar czf ${join(staging, file)} -C ${join(homedir(), this.config.dataPath)} ${service}`;
+        // Containers often write files as root inside bind mounts
+        try {
+          await this.run(`${command} 2>/dev/null || sudo ${unattended ? '-n ' : ''}${command}`, `data of ${service}`);
+        } catch (error) {
+          if (!unattended || !(error instanceof HomelabError) || !error.message.includes('password is required')) {
+            throw error;
+          }
+          throw new HomelabError(
+            `Failed: data of ${service} (${dataDir} needs root and sudo cannot ask for a password in a scheduled backup: ` +
+            `allow ${userInfo().username} to run tar with sudo without a password, or give it read access to ${dataDir})`,
+            'BACKUP_FAILED',
+            true,
+            { step: `data of ${service}` },
+          );
+        }
+        entry.data = file;
+      }
+    } finally {
+      await this.run(`${runtime} unpause ${containers.join(' ')} 2>/dev/null || true`, `unpause ${service}`);
+    }
+    return entry;
+  }
+
+  private async restoreService(entry: BackupEntry, runtime: string, staging: string): Promise<void> {
+    const secret = (key: string) => CredentialStore.resolve(this.config, key);
+    if (entry.dump) {
+      await this.run(BackupManager.getLoadCommand(runtime, entry.dump.engine, join(staging, entry.dump.file), secret), `${entry.service} dump`);
+      return;
+    }
+
+    const template = await this.loadTemplate(entry.service);
+    const containers = TemplateInspector.getContainerNames(template);
+    await this.run(`${runtime} stop ${containers.join(' ')} 2>/dev/null || true`, `stop ${entry.service}`);
+    try {
+      for (const volume of entry.volumes) {
+        await this.run(
+          `${runtime} run --rm -v ${volume.name}:/target -v ${join(staging, 'volumes')}:/backup ${VOLUME_IMAGE} ` +
+          `sh -c "find /target -mindepth 1 -delete && tar xzf /backup/${basename(volume.file)} -C /target"`,
+          `volume ${volume.name}`,
+        );
+      }
+      if (entry.data) {
+        const command = `tar xzf ${join(staging, entry.data)} -C ${join(homedir(), this.config.dataPath)}`;
+        await this.run(`${command} 2>/dev/null || sudo ${command}`, `data of ${entry.service}`);
+      }
+    } finally {
+      await this.run(`${runtime} start ${containers.join(' ')} 2>/dev/null || true`, `start ${entry.service}`);
+    }
+  }
+
+  /**
+   * Object storage installed by HAL, if any
+   */
+  private findBucketService(): ServiceType | undefined {
+    return BUCKET_SERVICES.find(service => this.config.selectedServices.includes(service));
+  }
+
+  private getBucketService(): ServiceType {
+    const service = this.findBucketService();
+    if (!service) {
+      throw new HomelabError('--bucket needs RustFS or MinIO installed (hal add rustfs)', 'BUCKET_NOT_AVAILABLE', false);
+    }
+    return service;
+  }
+
+  /**
+   * mc alias for the bucket service, reached through the HAL network: the access keys of
+   * the RustFS template, or the MinIO root user with its generated password
+   */
+  private async getMcHost(service: ServiceType): Promise<string> {
+    const environment = (await this.loadTemplate(service))?.environment || {};
+    const [user, password] = service === MINIO
+      ? [environment.MINIO_ROOT_USER, CredentialStore.resolve(this.config, 'minio.root')]
+      : [environment.RUSTFS_ACCESS_KEY, environment.RUSTFS_SECRET_KEY];
+    if (!user || !password) {
+      throw new HomelabError(`No access keys found in the ${service} template`, 'BUCKET_NOT_AVAILABLE', false, { service });
+    }
+    return `http://${user}:${password}@${service}:9000`;
+  }
+
+  private async mcCommand(runtime: string, service: ServiceType, directory: string, script: string): Promise<string> {
+    return `${runtime} run --rm --network ${this.config.networkName} -v ${directory}:/backup ` +
+      `-e MC_HOST_hal=${await this.getMcHost(service)} --entrypoint sh ${MC_IMAGE} -c "${script}"`;
+  }
+
+  private async upload(runtime: string, service: ServiceType, archive: string): Promise<string> {
+    this.logger.info(`☁️  Uploading ${basename(archive)} to ${service}...`);
+    await this.run(
+      await this.mcCommand(runtime, service, dirname(archive), `mc mb -p hal/${BACKUP_BUCKET} && mc cp /backup/${basename(archive)} hal/${BACKUP_BUCKET}/`),
+      `upload to ${service}`,
+    );
+    return `${service}://${BACKUP_BUCKET}/${basename(archive)}`;
+  }
+
+  private async download(runtime: string, service: ServiceType, name: string, directory: string): Promise<string> {
+    this.logger.info(`☁️  Downloading ${name} from ${service}...`);
+    await this.run(await this.mcCommand(runtime, service, directory, `mc cp hal/${BACKUP_BUCKET}/${name} /backup/${name}`), `download from ${service}`);
+    return join(directory, name);
+  }
+
+  private async run(command: string, step: string): Promise<void> {
+    await this.capture(command, step);
+  }
+
+  private async capture(command: string, step: string): Promise<string> {
+    try {
+      const result = await $`sh -c ${command}`.quiet();
+      return result.stdout?.toString() ?? '';
+    } catch (error) {
+      const stderr = (error as any)?.stderr?.toString().trim();
+      throw new HomelabError(`Failed: ${step}${stderr ? ` (${stderr})` : ''}`, 'BACKUP_FAILED', true, { step });
+    }
+  }
+
+  private async loadTemplate(service: ServiceType): Promise<any> {
+    try {
+      return (await this.templateEngine.load(`services/${service}`)).content;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * Host diagnostics (hal doctor)
+ * Checks the environment problems that usually make an installation fail:
+ * unsupported distribution, container runtime not running, missing Podman socket,
+ * docker group not applied, ports 80/443/53 not available, low disk and memory
+ */
+
+import { DistributionStrategy } from './types.js';
+import { ResourcePlanner } from './resources.js';
+import { PortPlanner, HostListener } from './ports.js';
+import { DistributionDetector } from '../distribution/strategy.js';
+import { UbuntuStrategy } from '../distribution/ubuntu.js';
+import { ArchStrategy } from '../distribution/arch.js';
+import { AmazonLinuxStrategy } from '../distribution/amazon.js';
+import { MacOSStrategy } from '../distribution/macos.js';
+import { MingwStrategy } from '../distribution/mingw.js';
+import { ContainerRuntimeUtils, ContainerRuntime } from '../utils/container.js';
+import { NetworkUtils } from '../utils/network.js';
+import { StateManager } from '../utils/state.js';
+import { $ } from 'bun';
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+
+export type DoctorStatus = 'pass' | 'warn' | 'fail';
+
+export interface DoctorCheck {
+  name: string;
+  status: DoctorStatus;
+  message: string;
+  /** Concrete command or step that fixes a warning or failure */
+  fix?: string;
+}
+
+const LOW_DISK_MB = 10 * 1024;
+const CRITICAL_DISK_MB = 2 * 1024;
+const LOW_MEMORY_MB = 4 * 1024;
+
+/**
+ * Runs the host checks in order; later checks use what earlier ones detected
+ */
+export class HostDoctor {
+  private strategy?: DistributionStrategy;
+  private runtime?: ContainerRuntime;
+  private listeners: HostListener[] = [];
+
+  /**
+   * Run every check
+   */
+  async run(): Promise<DoctorCheck[]> {
+    const checks: DoctorCheck[] = [];
+    const add = async (check: () => Promise<DoctorCheck | undefined>) => {
+      try {
+        const result = await check();
+        if (result) checks.push(result);
+      } catch (error) {
+        checks.push({ name: 'Doctor', status: 'warn', message: `A check could not run: ${error instanceof Error ? error.message : String(error)}` });
+      }
+    };
+
+    await add(() => this.checkDistribution());
+    await add(() => this.checkRuntime());
+    await add(() => this.checkDockerGroup());
+    await add(() => this.checkPodmanSocket());
+    this.listeners = await PortPlanner.detectListeners();
+    await add(() => this.checkWebPorts());
+    await add(() => this.checkDnsPort());
+    await add(() => this.checkResources());
+    await add(() => this.checkIP());
+    return checks;
+  }
+
+  /**
+   * Exit code for automation: 1 when any check failed
+   */
+  static exitCode(checks: DoctorCheck[]): number {
+    return checks.some(c => c.status === 'fail') ? 1 : 0;
+  }
+
+  private async checkDistribution(): Promise<DoctorCheck> {
+    const detector = new DistributionDetector();
+    detector.registerStrategy(new MacOSStrategy());
+    detector.registerStrategy(new MingwStrategy());
+    detector.registerStrategy(new UbuntuStrategy());
+    detector.registerStrategy(new ArchStrategy());
+    detector.registerStrategy(new AmazonLinuxStrategy());
+
+    try {
+      this.strategy = await detector.detectDistribution();
+      return { name: 'Distribution', status: 'pass', message: `${this.strategy.name} (${this.strategy.getPackageManager()})` };
+    } catch (error) {
+      return {
+        name: 'Distribution',
+        status: 'fail',
+        message: error instanceof Error ? error.message : String(error),
+        fix: 'Run hal on Ubuntu, Arch Linux, Amazon Linux 2023, macOS or MINGW64 (Git Bash)',
+      };
+    }
+  }
+
+  private async checkRuntime(): Promise<DoctorCheck> {
+    try {
+      this.runtime = await ContainerRuntimeUtils.detectRuntime(true);
+      return { name: 'Container runtime', status: 'pass', message: `${this.runtime} is running` };
+    } catch {
+      return HostDoctor.evaluateRuntime(await this.commandWorks('docker --version'), await this.commandWorks('podman --version'), this.isMacOS());
+    }
+  }
+
+  /**
+   * Diagnose why no runtime answered: installed but stopped, or not installed
+   */
+  static evaluateRuntime(dockerInstalled: boolean, podmanInstalled: boolean, macOS: boolean): DoctorCheck {
+    if (podmanInstalled) {
+      return {
+        name: 'Container runtime',
+        status: 'fail',
+        message: 'Podman is installed but not responding',
+        fix: macOS ? 'podman machine start' : 'systemctl --user start podman.socket (or sudo systemctl start podman)',
+      };
+    }
+    if (dockerInstalled) {
+      return {
+        name: 'Container runtime',
+        status: 'fail',
+        message: 'Docker is installed but not running',
+        fix: macOS ? 'Start Docker Desktop' : 'sudo systemctl enable --now docker',
+      };
+    }
+    return {
+      name: 'Container runtime',
+      status: 'warn',
+      message: 'Neither Docker nor Podman is installed',
+      fix: macOS ? 'Install Docker Desktop or Podman (brew install podman)' : 'Run hal to install Docker, or install Podman',
+    };
+  }
+
+  private async checkDockerGroup(): Promise<DoctorCheck | undefined> {
+    if (this.runtime === 'podman' || this.isMacOS() || process.getuid?.() === 0) {
+      return undefined;
+    }
+    const sessionGroups = (await this.output('id -nG')).split(/\s+/);
+    const user = (await this.output('id -un')).trim();
+    const groupEntry = (await this.output('getent group docker')).trim();
+    return HostDoctor.evaluateDockerGroup(user, sessionGroups, groupEntry);
+  }
+
+  /**
+   * The user must be in the docker group, and the current session must have it applied
+   * @param groupEntry Line of `getent group docker` (empty when the group does not exist)
+   */
+  static evaluateDockerGroup(user: string, sessionGroups: string[], groupEntry: string): DoctorCheck | undefined {
+    if (!groupEntry) {
+      return undefined;
+    }
+    const members = (groupEntry.split(':')[3] || '').split(',').map(m => m.trim()).filter(Boolean);
+    if (sessionGroups.includes('docker')) {
+      return { name: 'Docker group', status: 'pass', message: `${user} can use Docker without sudo` };
+    }
+    if (members.includes(user)) {
+      return {
+        name: 'Docker group',
+        status: 'warn',
+        message: `${user} was added to the docker group but this session does not have it yet`,
+        fix: 'newgrp docker (or log out and back in)',
+      };
+    }
+    return {
+      name: 'Docker group',
+      status: 'warn',
+      message: `${user} is not in the docker group, Docker commands need sudo`,
+      fix: `sudo usermod -aG docker ${user} && newgrp docker`,
+    };
+  }
+
+  private async checkPodmanSocket(): Promise<DoctorCheck | undefined> {
+    if (this.runtime !== 'podman') {
+      return undefined;
+    }
+    const socket = await ContainerRuntimeUtils.getSocketPath();
+    if (socket !== '/var/run/docker.sock' || existsSync(socket)) {
+      return { name: 'Podman socket', status: 'pass', message: socket };
+    }
+    return {
+      name: 'Podman socket',
+      status: 'warn',
+      message: 'No Podman API socket found (needed by Arcane and other services that mount the socket)',
+      fix: this.isMacOS()
+        ? 'podman machine stop && podman machine start'
+        : 'systemctl --user enable --now podman.socket',
+    };
+  }
+
+  private async checkWebPorts(): Promise<DoctorCheck> {
+    let unprivilegedStart: number | undefined;
+    try {
+      unprivilegedStart = Number((await readFile('/proc/sys/net/ipv4/ip_unprivileged_port_start', 'utf-8')).trim());
+    } catch {
+      // Not Linux
+    }
+    const rootless = this.runtime === 'podman' && process.getuid?.() !== 0 && !this.isMacOS();
+    return HostDoctor.evaluateWebPorts(this.listeners, rootless, unprivilegedStart);
+  }
+
+  /**
+   * Caddy needs 80 and 443: free (or already Caddy's) and bindable by a rootless runtime
+   */
+  static evaluateWebPorts(listeners: HostListener[], rootless: boolean, unprivilegedStart?: number): DoctorCheck {
+    const busy = listeners.filter(l => (l.port === 80 || l.port === 443) && l.container !== 'caddy');
+    if (busy.length > 0) {
+      return {
+        name: 'Ports 80/443',
+        status: 'fail',
+        message: `In use by ${busy.map(l => `${l.port} (${l.container ? `container ${l.container}` : 'host process'})`).join(', ')}`,
+        fix: 'Stop the web server using them (e.g. sudo systemctl disable --now apache2 nginx)',
+      };
+    }
+    if (rootless && unprivilegedStart !== undefined && unprivilegedStart > 80) {
+      return {
+        name: 'Ports 80/443',
+        status: 'fail',
+        message: `Rootless Podman cannot bind ports below ${unprivilegedStart}`,
+        fix: 'sudo sysctl -w net.ipv4.ip_unprivileged_port_start=80 ' +
+          '(persist it in /etc/sysctl.d/99-unprivileged-ports.conf)',
+      };
+    }
+    return { name: 'Ports 80/443', status: 'pass', message: 'Available for Caddy' };
+  }
+
+  private async checkDnsPort(): Promise<DoctorCheck | undefined> {
+    if (this.isMacOS()) {
+      return undefined;
+    }
+    const resolvedActive = (await this.output('systemctl is-active systemd-resolved')).trim() === 'active';
+    const stubDisabled = /^\s*DNSStubListener\s*=\s*no\b/im.test(await this.output('cat /etc/systemd/resolved.conf'));
+    return HostDoctor.evaluateDnsPort(this.listeners, resolvedActive && !stubDisabled);
+  }
+
+  /**
+   * dnsmasq (local domains) and AdGuard need port 53; the systemd-resolved stub listener holds it
+   */
+  static evaluateDnsPort(listeners: HostListener[], resolvedStub: boolean): DoctorCheck {
+    const dns = listeners.find(l => l.port === 53);
+    if (dns && resolvedStub) {
+      return {
+        name: 'Port 53',
+        status: 'warn',
+        message: 'Held by the systemd-resolved stub listener (dnsmasq for local domains cannot start)',
+        fix: 'Set DNSStubListener=no in /etc/systemd/resolved.conf, then sudo systemctl restart systemd-resolved',
+      };
+    }
+    if (dns) {
+      return { name: 'Port 53', status: 'pass', message: 'A DNS server is listening (dnsmasq or AdGuard)' };
+    }
+    return { name: 'Port 53', status: 'pass', message: 'Available' };
+  }
+
+  private async checkResources(): Promise<DoctorCheck> {
+    const host = await ResourcePlanner.detectHost();
+    return HostDoctor.evaluateResources(host.memory, host.disk, host.dataRoot);
+  }
+
+  static evaluateResources(memory: number, disk: number | undefined, dataRoot: string): DoctorCheck {
+    const summary = `${ResourcePlanner.formatSize(memory)} RAM, ` +
+      `${disk !== undefined ? ResourcePlanner.formatSize(disk) : 'unknown'} free on ${dataRoot}`;
+
+    if (disk !== undefined && disk < CRITICAL_DISK_MB) {
+      return { name: 'Resources', status: 'fail', message: `Very low disk space: ${summary}`, fix: 'docker system prune -a (or podman system prune -a), or free space on the data root' };
+    }
+    if (disk !== undefined && disk < LOW_DISK_MB) {
+      return { name: 'Resources', status: 'warn', message: `Low disk space: ${summary}`, fix: 'docker system prune -a (or podman system prune -a)' };
+    }
+    if (memory < LOW_MEMORY_MB) {
+      return { name: 'Resources', status: 'warn', message: `Little memory: ${summary}`, fix: 'Select fewer services (e.g. --list defaults)' };
+    }
+    return { name: 'Resources', status: 'pass', message: summary };
+  }
+
+  private async checkIP(): Promise<DoctorCheck> {
+    const detected = await NetworkUtils.detectLocalIP();
+    const state = await StateManager.load();
+    return HostDoctor.evaluateIP(detected, state?.ip);
+  }
+
+  /**
+   * A private IP must be detectable, and match the one the installation was configured with
+   */
+  static evaluateIP(detected: string | null, installedIP?: string): DoctorCheck {
+    if (!detected) {
+      return {
+        name: 'Local IP',
+        status: 'warn',
+        message: 'No private IP address detected',
+        fix: 'Pass the server address with --ip <address>',
+      };
+    }
+    if (installedIP && installedIP !== detected) {
+      return {
+        name: 'Local IP',
+        status: 'warn',
+        message: `Installed for ${installedIP} but the host now has ${detected} (DNS entries point to the old address)`,
+        fix: `Run hal --ip ${detected} again, or reserve ${installedIP} for this host in your router`,
+      };
+    }
+    return { name: 'Local IP', status: 'pass', message: detected };
+  }
+
+  private isMacOS(): boolean {
+    return this.strategy?.name === 'macOS' || process.platform === 'darwin';
+  }
+
+  private async commandWorks(command: string): Promise<boolean> {
+    try {
+      await $`sh -c ${command}`.quiet();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async output(command: string): Promise<string> {
+    try {
+      const result = await $`sh -c ${command}`.quiet().nothrow();
+      return result.stdout.toString();
+    } catch {
+      return '';
+    }
+  }
+}
@@ -0,0 +1,364 @@
+/**
+ * Host migration bundles
+ * `hal migrate export` packs a full backup (database dumps, volumes, data directories
+ * and the config directory with the state, encrypted credentials, generated configs and
+ * cloudflared tunnel credentials) together with the key of the credentials file.
+ * `hal migrate import` unpacks it on a fresh host, points the installation at the new
+ * IP and replays the installation, restoring each service's data before its dependents start
+ */
+
+import { BackupEntry, BackupManager, BackupManifest, DUMP_ENGINES, RestoreStep } from './backup.js';
+import { HomelabConfig, DistributionType, ServiceInstallHooks, ServiceOverride, ServiceType } from './types.js';
+import { HomelabError } from '../utils/errors.js';
+import { TemplateInspector } from '../services/inspector.js';
+import { TemplateEngine } from '../templates/engine.js';
+import { ContainerRuntimeUtils } from '../utils/container.js';
+import { CredentialStore, PASSPHRASE_ENV } from '../utils/credentials.js';
+import { NetworkUtils } from '../utils/network.js';
+import { StateManager } from '../utils/state.js';
+import { validateIP } from '../utils/validation.js';
+import { Logger } from '../utils/logger.js';
+import { $ } from 'bun';
+import { existsSync } from 'fs';
+import { chmod, copyFile, mkdir, mkdtemp, readFile, rename, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve } from 'path';
+import { homedir, hostname } from 'os';
+
+export interface MigrationManifest {
+  version: number;
+  createdAt: string;
+  hostname: string;
+  ip: string;
+  domain: string;
+  configPath: string;
+  services: ServiceType[];
+  /** Full backup archive (see BackupManager) */
+  backup: string;
+  /** Key of the credentials file, when it is encrypted with a key file */
+  keyFile?: string;
+  /** The credentials file is encrypted with HAL_SECRETS_PASSPHRASE */
+  passphrase?: boolean;
+}
+
+export interface MigrationExportResult {
+  location: string;
+  manifest: MigrationManifest;
+}
+
+/** Unpacked bundle ready to be installed */
+export interface MigrationPlan {
+  manifest: MigrationManifest;
+  /** Installation configuration with the IP of this host */
+  config: HomelabConfig;
+  previousIp: string;
+  /** Restores the data of each service around its installation */
+  hooks: MigrationRestore;
+  /** Remove the unpacked files */
+  close(): Promise<void>;
+}
+
+export const MIGRATION_FORMAT_VERSION = 1;
+const MIGRATION_MANIFEST = 'migration.json';
+const BUNDLE_BACKUP = 'backup.tar.gz';
+const BUNDLE_KEY = 'secrets.key';
+const DEFAULT_OUTPUT = join('ws', 'backups');
+
+/**
+ * Creates migration bundles and prepares their installation on a new host
+ */
+export class MigrationManager {
+  private config: HomelabConfig;
+  private templateEngine: TemplateEngine;
+
+  constructor(config: HomelabConfig, templateEngine: TemplateEngine = new TemplateEngine()) {
+    this.config = config;
+    this.templateEngine = templateEngine;
+  }
+
+  /**
+   * Write a bundle with a full backup of the installation and the credentials key
+   * @param output Directory for the bundle (default ~/ws/backups)
+   */
+  async export(output?: string): Promise<MigrationExportResult> {
+    const outputDir = output ? resolve(output) : join(homedir(), DEFAULT_OUTPUT);
+    await mkdir(outputDir, { recursive: true });
+    const staging = await mkdtemp(join(outputDir, '.hal-migrate-'));
+
+    try {
+      const { location } = await new BackupManager(this.config, this.templateEngine).backup([], { output: staging });
+      await rename(location, join(staging, BUNDLE_BACKUP));
+
+      const createdAt = new Date();
+      const manifest: MigrationManifest = {
+        version: MIGRATION_FORMAT_VERSION,
+        createdAt: createdAt.toISOString(),
+        hostname: hostname(),
+        ip: this.config.ip,
+        domain: this.config.domain,
+        configPath: this.config.configPath,
+        services: [...this.config.selectedServices],
+        backup: BUNDLE_BACKUP,
+      };
+
+      const kdf = await MigrationManager.getStoreKdf(this.config.configPath);
+      if (kdf === 'keyfile') {
+        await copyFile(CredentialStore.getKeyPath(), join(staging, BUNDLE_KEY));
+        manifest.keyFile = BUNDLE_KEY;
+      } else if (kdf === 'scrypt') {
+        manifest.passphrase = true;
+      }
+
+      await writeFile(join(staging, MIGRATION_MANIFEST), JSON.stringify(manifest, null, 2));
+      const bundle = join(outputDir, MigrationManager.getBundleName(createdAt));
+      await $`sh -c ${`tar czf ${bundle} -C ${staging} .`}`.quiet();
+      // The bundle holds the key that decrypts every credential
+      await chmod(bundle, 0o600);
+
+      return { location: bundle, manifest };
+    } finally {
+      await rm(staging, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Unpack a bundle on a fresh host: install the credentials key, restore the config
+   * directory and load the installation with the IP of this host
+   * @param ip IP of this host (detected when omitted)
+   */
+  static async open(bundle: string, ip?: string): Promise<MigrationPlan> {
+    const bundlePath = resolve(bundle);
+    if (!existsSync(bundlePath)) {
+      throw new HomelabError(`Migration bundle not found: ${bundlePath}`, 'BACKUP_NOT_FOUND', false, { archive: bundlePath });
+    }
+
+    const workDir = await mkdtemp(join(dirname(bundlePath), '.hal-migrate-'));
+    const close = () => rm(workDir, { recursive: true, force: true });
+    try {
+      await $`sh -c ${`tar xzf ${bundlePath} -C ${workDir}`}`.quiet();
+      const manifest = MigrationManager.parseManifest(await readFile(join(workDir, MIGRATION_MANIFEST), 'utf-8'));
+
+      if (await StateManager.exists(manifest.configPath)) {
+        throw new HomelabError(
+          `An installation already exists in ~/${manifest.configPath}; migrate import needs a fresh host`,
+          'MIGRATION_TARGET_NOT_EMPTY',
+          false,
+          { configPath: manifest.configPath },
+        );
+      }
+      if (manifest.passphrase && !process.env[PASSPHRASE_ENV]) {
+        throw new HomelabError(
+          `The credentials of this bundle are encrypted with a passphrase: set ${PASSPHRASE_ENV}`,
+          'CREDENTIALS_LOCKED',
+          false,
+        );
+      }
+
+      const newIp = await MigrationManager.resolveIP(ip);
+      if (manifest.keyFile) {
+        await MigrationManager.installKey(join(workDir, manifest.keyFile));
+      }
+
+      const staging = join(workDir, 'backup');
+      const backup = await BackupManager.unpack(join(workDir, manifest.backup), staging);
+      await BackupManager.restoreConfig(backup, staging);
+
+      const state = await StateManager.load(manifest.configPath);
+      if (!state) {
+        throw new HomelabError('The bundle does not contain an installation state', 'BACKUP_INVALID', false);
+      }
+
+      const config: HomelabConfig = {
+        ip: newIp,
+        domain: state.domain,
+        tunnelDomain: state.tunnelDomain,
+        networkName: state.networkName,
+        configPath: state.configPath,
+        dataPath: state.dataPath,
+        storagePassword: state.storagePassword,
+        credentials: state.storagePasswordRef ? undefined : (await CredentialStore.load(state.configPath)) ?? {},
+        selectedServices: [...state.selectedServices],
+        serviceOverrides: MigrationManager.rewriteIP(state.serviceOverrides, state.ip, newIp),
+        portMappings: state.portMappings,
+        // Detected again by the installation
+        distribution: DistributionType.UBUNTU,
+      };
+
+      return {
+        manifest,
+        config,
+        previousIp: state.ip,
+        hooks: new MigrationRestore(config, backup, staging),
+        close,
+      };
+    } catch (error) {
+      await close();
+      throw error;
+    }
+  }
+
+  /**
+   * Bundle name for a migration exported at the given time
+   */
+  static getBundleName(date: Date): string {
+    return `hal-migrate-${date.toISOString().slice(0, 19).replace(/:/g, '-')}.tar.gz`;
+  }
+
+  static parseManifest(content: string): MigrationManifest {
+    let manifest: MigrationManifest;
+    try {
+      manifest = JSON.parse(content);
+    } catch {
+      throw new HomelabError('The migration manifest is not valid JSON', 'BACKUP_INVALID', false);
+    }
+    if (manifest?.version !== MIGRATION_FORMAT_VERSION || typeof manifest.backup !== 'string' || typeof manifest.configPath !== 'string') {
+      throw new HomelabError(
+        `Unsupported migration bundle format ${manifest?.version} (this hal reads version ${MIGRATION_FORMAT_VERSION})`,
+        'BACKUP_INVALID',
+        false,
+      );
+    }
+    return manifest;
+  }
+
+  /**
+   * Replace the previous IP in the hal.yml environment overrides; generated configs
+   * (Caddy, dnsmasq, cloudflared) and access URLs are built from the new IP by the installation
+   */
+  static rewriteIP(
+    overrides: Partial<Record<ServiceType, ServiceOverride>> | undefined,
+    previousIp: string,
+    ip: string,
+  ): Partial<Record<ServiceType, ServiceOverride>> | undefined {
+    if (!overrides || previousIp === ip) {
+      return overrides;
+    }
+
+    const rewritten: Partial<Record<ServiceType, ServiceOverride>> = {};
+    for (const [service, override] of Object.entries(overrides) as [ServiceType, ServiceOverride][]) {
+      rewritten[service] = override?.env
+        ? { ...override, env: Object.fromEntries(Object.entries(override.env).map(([k, v]) => [k, v.split(previousIp).join(ip)])) }
+        : override;
+    }
+    return rewritten;
+  }
+
+  private static async resolveIP(ip?: string): Promise<string> {
+    if (ip) {
+      validateIP(ip);
+      return ip.trim();
+    }
+    const detected = await NetworkUtils.detectLocalIP();
+    if (!detected) {
+      throw new HomelabError('Could not detect the IP of this host: pass it with --ip', 'IP_NOT_DETECTED', false);
+    }
+    return detected;
+  }
+
+  /**
+   * Install the key of the credentials file, refusing to replace a different one
+   */
+  private static async installKey(source: string): Promise<void> {
+    const key = (await readFile(source, 'utf-8')).trim();
+    const keyPath = CredentialStore.getKeyPath();
+    if (existsSync(keyPath)) {
+      if ((await readFile(keyPath, 'utf-8')).trim() === key) return;
+      throw new HomelabError(
+        `${keyPath} already exists with another key; move it away to import this bundle`,
+        'CREDENTIALS_KEY_CONFLICT',
+        false,
+        { path: keyPath },
+      );
+    }
+    await mkdir(dirname(keyPath), { recursive: true, mode: 0o700 });
+    await writeFile(keyPath, key, { mode: 0o600 });
+  }
+
+  /**
+   * How the credentials file is encrypted, undefined without a store (legacy mode)
+   */
+  private static async getStoreKdf(configPath?: string): Promise<string | undefined> {
+    try {
+      return JSON.parse(await readFile(CredentialStore.getPath(configPath), 'utf-8')).kdf;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Restores migrated data while the installation runs: volumes and data directories
+ * before a service's containers are created, database dumps once the database is
+ * installed (dependents are installed after it)
+ */
+export class MigrationRestore implements ServiceInstallHooks {
+  readonly steps: RestoreStep[] = [];
+  private backup: BackupManifest;
+  private staging: string;
+  private templateEngine: TemplateEngine;
+  private manager: BackupManager;
+  private logger: Logger;
+  private healthTimeoutMs: number;
+
+  /**
+   * @param backup Manifest of the backup unpacked into staging
+   */
+  constructor(
+    config: HomelabConfig,
+    backup: BackupManifest,
+    staging: string,
+    templateEngine: TemplateEngine = new TemplateEngine(),
+    healthTimeoutMs: number = 120000,
+  ) {
+    this.backup = backup;
+    this.staging = staging;
+    this.templateEngine = templateEngine;
+    this.manager = new BackupManager(config, templateEngine);
+    this.logger = new Logger();
+    this.healthTimeoutMs = healthTimeoutMs;
+  }
+
+  async beforeInstall(service: ServiceType): Promise<void> {
+    const entry = this.findEntry(service);
+    if (entry && !entry.dump) {
+      await this.restore(entry);
+    }
+  }
+
+  async afterInstall(service: ServiceType): Promise<void> {
+    const entry = this.findEntry(service);
+    if (!entry?.dump) return;
+
+    const template = await this.loadTemplate(service);
+    for (const container of TemplateInspector.getContainerNames(template, true)) {
+      if (!(await ContainerRuntimeUtils.waitForHealthy(container, this.healthTimeoutMs))) {
+        throw new HomelabError(`${container} did not become healthy, its dump was not loaded`, 'CONTAINER_UNHEALTHY', true, { container });
+      }
+    }
+    await this.restore(entry);
+  }
+
+  private async restore(entry: BackupEntry): Promise<void> {
+    this.logger.info(`♻️  Restoring ${entry.service}${DUMP_ENGINES[entry.service] ? ' dump' : ' data'}...`);
+    try {
+      await this.manager.restoreEntry(entry, this.staging);
+      this.steps.push({ service: entry.service, status: 'restored' });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.steps.push({ service: entry.service, status: 'failed', message });
+      // Dependents must not start on empty data
+      throw new HomelabError(`Could not restore ${entry.service}: ${message}`, 'RESTORE_FAILED', true, { service: entry.service });
+    }
+  }
+
+  private findEntry(service: ServiceType): BackupEntry | undefined {
+    return this.backup.services.find(entry => entry.service === service);
+  }
+
+  private async loadTemplate(service: ServiceType): Promise<any> {
+    try {
+      return (await this.templateEngine.load(`services/${service}`)).content;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Pre-flight host port planning
+ * Collects the host ports published by the selected templates (`-p` mappings and
+ * the `ports` field), finds duplicates between services and ports already
+ * listening on the host, and can reassign conflicting host ports (--auto-ports)
+ */
+
+import { HomelabConfig, ServiceType } from './types.js';
+import { TemplateEngine } from '../templates/engine.js';
+import { TemplateInspector } from '../services/inspector.js';
+import { DockerRunParser } from '../export/docker-run.js';
+import { ContainerRuntimeUtils } from '../utils/container.js';
+import { $ } from 'bun';
+
+export interface PortConflict {
+  service: ServiceType;
+  port: number;
+  /** Service that publishes the same port, or the process listening on the host */
+  conflictsWith: string;
+  /** Core services keep their ports (Caddy must own 80 and 443) */
+  remappable: boolean;
+}
+
+export interface PortPlan {
+  /** Effective host ports per service, after overrides and existing mappings */
+  ports: Partial<Record<ServiceType, number[]>>;
+  conflicts: PortConflict[];
+}
+
+/** Host listener: port and, when a container publishes it, the container name */
+export interface HostListener {
+  port: number;
+  container?: string;
+}
+
+const CORE_SERVICES = [ServiceType.CADDY, ServiceType.COPYPARTY];
+
+/** Reassigned ports are searched from the original port up to this distance */
+const MAX_PORT_SEARCH = 1000;
+
+/**
+ * Plans host ports for a selection and resolves conflicts
+ */
+export class PortPlanner {
+  private templateEngine: TemplateEngine;
+
+  constructor(templateEngine: TemplateEngine = new TemplateEngine()) {
+    this.templateEngine = templateEngine;
+  }
+
+  /**
+   * Host ports published by a template: `-p [ip:]host:container[/proto]` in its run
+   * commands and entries of its `ports` field (port ranges are ignored)
+   */
+  static getTemplatePorts(template: any): number[] {
+    const mappings: string[] = [];
+    for (const command of TemplateInspector.getRunCommands(template)) {
+      for (const spec of DockerRunParser.parse(command)) {
+        mappings.push(...spec.ports);
+      }
+    }
+    if (Array.isArray(template?.ports)) {
+      mappings.push(...template.ports.map(String));
+    }
+
+    const ports = new Set<number>();
+    for (const mapping of mappings) {
+      const port = this.parseHostPort(mapping);
+      if (port !== undefined) ports.add(port);
+    }
+    return [...ports];
+  }
+
+  /**
+   * Host port of a mapping such as 8080:80, 127.0.0.1:53:53/udp or [::]:443:443
+   */
+  static parseHostPort(mapping: string): number | undefined {
+    const match = mapping.trim().match(/^(?:(?:\d{1,3}(?:\.\d{1,3}){3}|\[[^\]]*\]):)?(\d+):\d+(?:\/(?:tcp|udp|sctp))?$/);
+    if (!match) return undefined;
+    const port = Number(match[1]);
+    return port > 0 && port <= 65535 ? port : undefined;
+  }
+
+  /**
+   * Effective host ports of a service: the hal.yml port override replaces the first
+   * host port of the main container, then the recorded --auto-ports mappings apply
+   */
+  static applyMappings(template: any, type: ServiceType, config: HomelabConfig): number[] {
+    const ports = this.getTemplatePorts(template);
+    const override = config.serviceOverrides?.[type]?.port;
+    const main = template?.commands?.run ? DockerRunParser.parse(template.commands.run)[0] : undefined;
+    const mainPort = main?.ports[0] ? this.parseHostPort(main.ports[0]) : undefined;
+    const mapping = config.portMappings?.[type] || {};
+
+    return [...new Set(ports.map(port => {
+      const effective = override && port === mainPort ? override : port;
+      return mapping[String(effective)] ?? effective;
+    }))];
+  }
+
+  /**
+   * Find duplicate host ports between services and ports in use on the host
+   * @param services Services to install, in installation order
+   * @param existing Services already installed; their ports are taken
+   * @param listeners Ports listening on the host (see detectListeners)
+   */
+  async plan(
+    services: ServiceType[],
+    config: HomelabConfig,
+    existing: ServiceType[] = [],
+    listeners: HostListener[] = [],
+  ): Promise<PortPlan> {
+    const ports: Partial<Record<ServiceType, number[]>> = {};
+    const containers: Partial<Record<ServiceType, string[]>> = {};
+
+    for (const service of [...existing, ...services]) {
+      let template: any;
+      try {
+        template = (await this.templateEngine.load(`services/${service}`)).content;
+      } catch {
+        template = undefined;
+      }
+      ports[service] = PortPlanner.applyMappings(template, service, config);
+      containers[service] = TemplateInspector.getContainerNames(template);
+    }
+
+    const owners = new Map<number, ServiceType>();
+    for (const service of existing) {
+      for (const port of ports[service] || []) {
+        owners.set(port, service);
+      }
+    }
+
+    const conflicts: PortConflict[] = [];
+    for (const service of services) {
+      const remappable = !CORE_SERVICES.includes(service);
+      for (const port of ports[service] || []) {
+        const owner = owners.get(port);
+        if (owner && owner !== service) {
+          conflicts.push({ service, port, conflictsWith: owner, remappable });
+          continue;
+        }
+        owners.set(port, service);
+
+        // A container of this service (reinstall, resume) may already publish the port
+        const listener = listeners.find(l => l.port === port);
+        if (listener && !(listener.container && containers[service]?.includes(listener.container))) {
+          conflicts.push({
+            service,
+            port,
+            conflictsWith: listener.container ? `container ${listener.container}` : 'host process',
+            remappable,
+          });
+        }
+      }
+    }
+
+    return { ports, conflicts };
+  }
+
+  /**
+   * Choose a free host port for every remappable conflict
+   * @returns Mappings per service (conflicting port -> chosen port)
+   */
+  static reassign(plan: PortPlan, listeners: HostListener[] = []): Partial<Record<ServiceType, Record<string, number>>> {
+    const taken = new Set<number>([
+      ...Object.values(plan.ports).flatMap(ports => ports || []),
+      ...listeners.map(l => l.port),
+    ]);
+    const mappings: Partial<Record<ServiceType, Record<string, number>>> = {};
+
+    for (const conflict of plan.conflicts.filter(c => c.remappable)) {
+      let candidate = conflict.port + 1;
+      while (taken.has(candidate) && candidate <= Math.min(65535, conflict.port + MAX_PORT_SEARCH)) {
+        candidate++;
+      }
+      if (candidate > 65535 || taken.has(candidate)) continue;
+
+      taken.add(candidate);
+      mappings[conflict.service] = { ...mappings[conflict.service], [String(conflict.port)]: candidate };
+    }
+    return mappings;
+  }
+
+  /**
+   * Merge new mappings into the ones recorded in the configuration
+   */
+  static merge(
+    current: Partial<Record<ServiceType, Record<string, number>>> = {},
+    added: Partial<Record<ServiceType, Record<string, number>>>,
+  ): Partial<Record<ServiceType, Record<string, number>>> {
+    const merged = { ...current };
+    for (const [service, mapping] of Object.entries(added) as [ServiceType, Record<string, number>][]) {
+      const previous = { ...merged[service] };
+      // A reassigned port that conflicts again maps from the template port
+      for (const [original, port] of Object.entries(previous)) {
+        if (mapping[String(port)] !== undefined) {
+          previous[original] = mapping[String(port)];
+          delete mapping[String(port)];
+        }
+      }
+      merged[service] = { ...previous, ...mapping };
+    }
+    return merged;
+  }
+
+  /**
+   * Conflict table lines for the console
+   */
+  static formatConflicts(conflicts: PortConflict[]): string[] {
+    return [
+      `${'Port'.padEnd(7)} ${'Service'.padEnd(16)} Conflicts with`,
+      ...conflicts.map(c =>
+        `${String(c.port).padEnd(7)} ${c.service.padEnd(16)} ${c.conflictsWith}${c.remappable ? '' : ' (core service, not remapped)'}`),
+    ];
+  }
+
+  /**
+   * Ports listening on the host (TCP and UDP), with the container that publishes them
+   */
+  static async detectListeners(): Promise<HostListener[]> {
+    const ports = new Set<number>();
+    try {
+      const result = await $`ss -Htuln`.quiet();
+      for (const line of result.stdout.toString().split('\n')) {
+        const local = line.trim().split(/\s+/)[4];
+        const port = Number(local?.match(/:(\d+)$/)?.[1]);
+        if (port) ports.add(port);
+      }
+    } catch {
+      // ss is not available (macOS), fall back to lsof
+      try {
+        const result = await $`lsof -nP -iTCP -sTCP:LISTEN -iUDP`.quiet().nothrow();
+        for (const match of result.stdout.toString().matchAll(/:(\d+)(?:\s|$)/g)) {
+          ports.add(Number(match[1]));
+        }
+      } catch {
+        // Listening ports cannot be detected
+      }
+    }
+
+    const published = await this.detectPublished();
+    return [...ports].map(port => ({ port, container: published.get(port) }));
+  }
+
+  /**
+   * Host ports published by running containers (docker ps)
+   */
+  private static async detectPublished(): Promise<Map<number, string>> {
+    const published = new Map<number, string>();
+    const runtime = ContainerRuntimeUtils.getCurrentRuntime() || 'docker';
+    try {
+      const result = await $`${runtime} ps --format ${'{{.Names}}\t{{.Ports}}'}`.quiet();
+      for (const line of result.stdout.toString().split('\n')) {
+        const [name, mappings] = line.split('\t');
+        for (const match of (mappings || '').matchAll(/:(\d+)->/g)) {
+          published.set(Number(match[1]), name);
+        }
+      }
+    } catch {
+      // No runtime yet
+    }
+    return published;
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * Service removal for an existing HomeLab installation
+ * Undoes what the installer did for a service: containers, optional data,
+ * Caddy routes, Cloudflare Tunnel hostnames, dnsmasq entries and state
+ */
+
+import { HomelabConfig, Service, ServiceType } from './types.js';
+import { HomelabError } from '../utils/errors.js';
+import { ServiceFactory } from '../services/factory.js';
+import { CaddyService } from '../services/core/caddy.js';
+import { CloudflaredService } from '../services/optional/cloudflared.js';
+import { TemplateInspector } from '../services/inspector.js';
+import { TemplateEngine } from '../templates/engine.js';
+import { DNSMASQ_CONFIG_PATH, getDnsmasqSubdomain } from '../distribution/strategy.js';
+import { ContainerRuntimeUtils } from '../utils/container.js';
+import { Logger } from '../utils/logger.js';
+import { StateManager } from '../utils/state.js';
+import { $ } from 'bun';
+import { readFile, writeFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { homedir } from 'os';
+
+export interface RemovalOptions {
+  cascade?: boolean;
+  purge?: boolean;
+}
+
+/**
+ * Removes installed services and keeps generated configuration consistent
+ */
+export class ServiceRemover {
+  private config: HomelabConfig;
+  private managementUI: ServiceType;
+  private templateEngine: TemplateEngine;
+  private serviceFactory: ServiceFactory;
+  private logger: Logger;
+
+  constructor(config: HomelabConfig, managementUI: ServiceType, templateEngine: TemplateEngine = new TemplateEngine()) {
+    this.config = config;
+    this.managementUI = managementUI;
+    this.templateEngine = templateEngine;
+    this.serviceFactory = new ServiceFactory(templateEngine);
+    this.logger = new Logger();
+  }
+
+  /**
+   * Resolve which services must be removed, in removal order (dependents first).
+   * Without cascade, refuses when another installed service depends on a target.
+   */
+  planRemoval(targets: ServiceType[], cascade: boolean = false): ServiceType[] {
+    const coreServices = this.serviceFactory.getCoreServices();
+
+    for (const target of targets) {
+      if (coreServices.includes(target)) {
+        throw new HomelabError(
+          `${target} is a core service and cannot be removed`,
+          'CORE_SERVICE_REMOVAL',
+          false,
+          { service: target },
+        );
+      }
+      if (!this.config.selectedServices.includes(target)) {
+        throw new HomelabError(
+          `${target} is not installed`,
+          'SERVICE_NOT_INSTALLED',
+          false,
+          { service: target },
+        );
+      }
+    }
+
+    const installed = this.serviceFactory.createServices(this.config);
+    const removal = new Set<ServiceType>(targets);
+
+    // Expand to dependents until no installed service depends on the removal set
+    let changed = true;
+    while (changed) {
+      changed = false;
+      const removedNames = installed.filter(s => removal.has(s.type)).map(s => s.name);
+      const dependents = installed.filter(
+        s => !removal.has(s.type) && s.dependencies.some(dep => removedNames.includes(dep)),
+      );
+
+      if (dependents.length === 0) break;
+
+      if (!cascade) {
+        const details = dependents
+          .map(s => `${s.type} (depends on ${s.dependencies.filter(d => removedNames.includes(d)).join(', ')})`)
+          .join(', ');
+        throw new HomelabError(
+          `Cannot remove ${targets.join(', ')}: required by ${details}. Use --cascade to remove them too`,
+          'SERVICE_HAS_DEPENDENTS',
+          false,
+          { targets, dependents: dependents.map(s => s.type) },
+        );
+      }
+
+      for (const dependent of dependents) {
+        removal.add(dependent.type);
+      }
+      changed = true;
+    }
+
+    const ordered = this.serviceFactory.getInstallationOrder(
+      installed.filter(s => removal.has(s.type)),
+    );
+    return ordered.reverse().map(s => s.type);
+  }
+
+  /**
+   * Remove services and update Caddy, Cloudflare Tunnel, dnsmasq and state
+   * @returns Removed service types in removal order
+   */
+  async remove(targets: ServiceType[], options: RemovalOptions = {}): Promise<ServiceType[]> {
+    const plan = this.planRemoval(targets, options.cascade);
+    const previousConfig: HomelabConfig = { ...this.config, selectedServices: [...this.config.selectedServices] };
+
+    this.logger.info(`🗑️  Removing: ${plan.join(' → ')}`);
+
+    const runtime = await ContainerRuntimeUtils.detectRuntime();
+    for (const serviceType of plan) {
+      await this.removeServiceResources(serviceType, runtime, !!options.purge);
+    }
+
+    this.config.selectedServices = this.config.selectedServices.filter(s => !plan.includes(s));
+
+    await this.updateCaddy(runtime);
+    await this.updateCloudflared(previousConfig, runtime);
+    await this.updateDnsmasq(plan);
+
+    await StateManager.save(this.config, this.managementUI);
+    this.logger.info('✅ Installation state updated');
+
+    return plan;
+  }
+
+  /**
+   * Stop and remove containers (and optionally volumes and data) for one service
+   */
+  private async removeServiceResources(serviceType: ServiceType, runtime: string, purge: boolean): Promise<void> {
+    let template: any = {};
+    try {
+      template = (await this.templateEngine.load(`services/${serviceType}`)).content;
+    } catch {
+      this.logger.warn(`⚠️  No template found for ${serviceType}, assuming a single container`);
+    }
+
+    const containers = TemplateInspector.getContainerNames(template);
+    if (containers.length === 0) {
+      containers.push(serviceType);
+    }
+
+    for (const container of containers) {
+      console.log(`   Removing container: ${container}`);
+      await $`sh -c ${`${runtime} rm -f ${container} 2>/dev/null || true`}`.quiet();
+    }
+
+    if (!purge) {
+      return;
+    }
+
+    for (const volume of TemplateInspector.getVolumeNames(template)) {
+      console.log(`   Removing volume: ${volume}`);
+      await $`sh -c ${`${runtime} volume rm ${volume} 2>/dev/null || true`}`.quiet();
+    }
+
+    const dataDir = join(homedir(), this.config.dataPath, serviceType);
+    console.log(`   Removing data directory: ${dataDir}`);
+    try {
+      await rm(dataDir, { recursive: true, force: true });
+    } catch {
+      // Containers often write files as root inside bind mounts
+      try {
+        await $`sudo rm -rf ${dataDir}`.quiet();
+      } catch {
+        this.logger.warn(`⚠️  Could not remove ${dataDir}, remove it manually`);
+      }
+    }
+  }
+
+  /**
+   * Regenerate the Caddyfile without the removed routes and restart Caddy
+   */
+  private async updateCaddy(runtime: string): Promise<void> {
+    try {
+      const caddy = new CaddyService(this.config, this.templateEngine);
+      await caddy.regenerateConfigFiles();
+      await $`sh -c ${`${runtime} restart caddy || true`}`.quiet();
+    } catch (error) {
+      this.logger.warn(`⚠️  Failed to update Caddyfile: ${error}`);
+    }
+  }
+
+  /**
+   * Drop the removed hostnames from the cloudflared ingress rules
+   */
+  private async updateCloudflared(previousConfig: HomelabConfig, runtime: string): Promise<void> {
+    if (!this.config.selectedServices.includes(ServiceType.CLOUDFLARED)) {
+      return;
+    }
+
+    const configYmlPath = join(homedir(), this.config.configPath, 'cloudflared', 'config.yml');
+    let content: string;
+    try {
+      content = await readFile(configYmlPath, 'utf-8');
+    } catch {
+      return;
+    }
+
+    const remaining = new CloudflaredService(this.config, this.templateEngine)
+      .getServiceRoutes()
+      .map(r => r.hostname);
+    const removedHostnames = new CloudflaredService(previousConfig, this.templateEngine)
+      .getServiceRoutes()
+      .map(r => r.hostname)
+      .filter(h => !remaining.includes(h));
+
+    const updated = ServiceRemover.removeIngressHostnames(content, removedHostnames);
+    if (updated === content) {
+      return;
+    }
+
+    await writeFile(configYmlPath, updated);
+    await $`sh -c ${`${runtime} restart cloudflared 2>/dev/null || true`}`.quiet();
+    console.log(`   Updated cloudflared ingress: ${configYmlPath}`);
+  }
+
+  /**
+   * Remove the dnsmasq address entries of removed services
+   */
+  private async updateDnsmasq(removed: ServiceType[]): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(DNSMASQ_CONFIG_PATH, 'utf-8');
+    } catch {
+      return; // dnsmasq not configured (macOS, public domain)
+    }
+
+    const prefixes = removed.map(s => `address=/${getDnsmasqSubdomain(s)}.${this.config.domain}/`);
+    const lines = content.split('\n');
+    const kept = lines.filter(line => !prefixes.some(prefix => line.startsWith(prefix)));
+    if (kept.length === lines.length) {
+      return;
+    }
+
+    try {
+      await $`echo ${kept.join('\n').trimEnd()} | sudo tee ${DNSMASQ_CONFIG_PATH}`.quiet();
+      await $`sudo systemctl restart dnsmasq`.quiet();
+      console.log(`   Updated dnsmasq entries: ${DNSMASQ_CONFIG_PATH}`);
+    } catch (error) {
+      this.logger.warn(`⚠️  Failed to update dnsmasq: ${error}`);
+    }
+  }
+
+  /**
+   * Remove `- hostname:` ingress rules (with their service line) from a cloudflared config
+   */
+  static removeIngressHostnames(content: string, hostnames: string[]): string {
+    if (hostnames.length === 0) {
+      return content;
+    }
+
+    const lines = content.split('\n');
+    const result: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const match = lines[i].match(/^\s*-\s+hostname:\s*(\S+)/);
+      if (match && hostnames.includes(match[1])) {
+        // Skip the rule's nested keys (service, originRequest, ...)
+        while (i + 1 < lines.length && /^\s+[a-zA-Z]/.test(lines[i + 1]) && !/^\s*-/.test(lines[i + 1])) {
+          i++;
+        }
+        continue;
+      }
+      result.push(lines[i]);
+    }
+    return result.join('\n');
+  }
+
+  /**
+   * Get the installed services known to this remover (useful for testing)
+   */
+  getInstalledServices(): Service[] {
+    return this.serviceFactory.createServices(this.config);
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Resource budgeting for a service selection
+ * Adds up the memory, disk and CPU declared by the service templates
+ * (`resources: { min, recommended }`) and compares them with the host
+ */
+
+import { ServiceType } from './types.js';
+import { TemplateEngine } from '../templates/engine.js';
+import { ContainerRuntimeUtils } from '../utils/container.js';
+import { $ } from 'bun';
+import { existsSync } from 'fs';
+import { totalmem, cpus } from 'os';
+import { dirname } from 'path';
+
+/** Memory and disk in MB, CPU in cores */
+export interface ResourceSpec {
+  memory: number;
+  disk: number;
+  cpu: number;
+}
+
+export interface ServiceResources {
+  service: ServiceType;
+  min: ResourceSpec;
+  recommended: ResourceSpec;
+  /** False when the template declares no resources and defaults were used */
+  declared: boolean;
+}
+
+export interface ResourceEstimate {
+  services: ServiceResources[];
+  min: ResourceSpec;
+  recommended: ResourceSpec;
+}
+
+export interface HostResources {
+  memory: number;
+  cpu: number;
+  /** Free space on the container data root, undefined when it cannot be measured */
+  disk?: number;
+  dataRoot: string;
+}
+
+export interface ResourceCheck {
+  /** False when the minimum requirements exceed the host */
+  fits: boolean;
+  problems: string[];
+  warnings: string[];
+}
+
+/** Used for templates without a resources block */
+const DEFAULT_MIN: ResourceSpec = { memory: 256, disk: 1024, cpu: 0.25 };
+const DEFAULT_RECOMMENDED: ResourceSpec = { memory: 512, disk: 2048, cpu: 0.5 };
+
+/** Memory kept free for the operating system and the container runtime */
+const SYSTEM_MEMORY_MB = 512;
+
+const UNITS: Record<string, number> = { K: 1 / 1024, M: 1, G: 1024, T: 1024 * 1024 };
+
+/**
+ * Estimates the resources of a selection and checks them against the host
+ */
+export class ResourcePlanner {
+  private templateEngine: TemplateEngine;
+
+  constructor(templateEngine: TemplateEngine = new TemplateEngine()) {
+    this.templateEngine = templateEngine;
+  }
+
+  /**
+   * Add up the declared resources of the given services
+   */
+  async estimate(services: ServiceType[]): Promise<ResourceEstimate> {
+    const result: ServiceResources[] = [];
+    for (const service of services) {
+      let template: any;
+      try {
+        template = (await this.templateEngine.load(`services/${service}`)).content;
+      } catch {
+        template = undefined;
+      }
+      result.push({ service, ...ResourcePlanner.getResources(template) });
+    }
+
+    const sum = (key: 'min' | 'recommended'): ResourceSpec => ({
+      memory: result.reduce((total, s) => total + s[key].memory, 0),
+      disk: result.reduce((total, s) => total + s[key].disk, 0),
+      cpu: result.reduce((total, s) => total + s[key].cpu, 0),
+    });
+
+    return { services: result, min: sum('min'), recommended: sum('recommended') };
+  }
+
+  /**
+   * Read the resources block of a template, falling back to defaults for missing values
+   */
+  static getResources(template: any): { min: ResourceSpec; recommended: ResourceSpec; declared: boolean } {
+    const resources = template?.resources;
+    const read = (spec: any, defaults: ResourceSpec): ResourceSpec => ({
+      memory: this.parseSize(spec?.memory) ?? defaults.memory,
+      disk: this.parseSize(spec?.disk) ?? defaults.disk,
+      cpu: Number.isFinite(Number(spec?.cpu)) && spec?.cpu !== undefined ? Number(spec.cpu) : defaults.cpu,
+    });
+
+    const min = read(resources?.min, DEFAULT_MIN);
+    const recommended = read(resources?.recommended, {
+      memory: Math.max(min.memory, DEFAULT_RECOMMENDED.memory),
+      disk: Math.max(min.disk, DEFAULT_RECOMMENDED.disk),
+      cpu: Math.max(min.cpu, DEFAULT_RECOMMENDED.cpu),
+    });
+    return { min, recommended, declared: !!resources?.min };
+  }
+
+  /**
+   * Parse a size such as 512M, 2G or 1.5T into MB (plain numbers are MB)
+   */
+  static parseSize(value: unknown): number | undefined {
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? value : undefined;
+    }
+    const match = String(value ?? '').trim().match(/^(\d+(?:\.\d+)?)\s*([KMGT])?i?B?$/i);
+    if (!match) {
+      return undefined;
+    }
+    return parseFloat(match[1]) * UNITS[(match[2] || 'M').toUpperCase()];
+  }
+
+  /**
+   * Format MB as a human readable size
+   */
+  static formatSize(mb: number): string {
+    if (mb >= 1024) {
+      const gb = mb / 1024;
+      return `${Number.isInteger(gb) ? gb : gb.toFixed(1)}G`;
+    }
+    return `${Math.round(mb)}M`;
+  }
+
+  /**
+   * Total memory, CPU cores and free space on the container data root
+   */
+  static async detectHost(): Promise<HostResources> {
+    const dataRoot = await this.detectDataRoot();
+    return {
+      memory: Math.floor(totalmem() / 1024 / 1024),
+      cpu: cpus().length,
+      disk: await this.freeSpace(dataRoot),
+      dataRoot,
+    };
+  }
+
+  /**
+   * Compare an estimate with the host
+   * @param baseline Minimum resources of services that are already installed (hal add)
+   */
+  static evaluate(estimate: ResourceEstimate, host: HostResources, baseline?: ResourceSpec): ResourceCheck {
+    const problems: string[] = [];
+    const warnings: string[] = [];
+    const usable = Math.max(0, host.memory - SYSTEM_MEMORY_MB);
+    const memory = estimate.min.memory + (baseline?.memory || 0);
+    const recommendedMemory = estimate.recommended.memory + (baseline?.memory || 0);
+    const cpu = estimate.min.cpu + (baseline?.cpu || 0);
+
+    if (memory > usable) {
+      problems.push(
+        `Memory: at least ${this.formatSize(memory)} needed, ` +
+        `${this.formatSize(usable)} usable (${this.formatSize(host.memory)} total, ${this.formatSize(SYSTEM_MEMORY_MB)} kept for the system)`,
+      );
+    } else if (recommendedMemory > usable) {
+      warnings.push(`Memory: ${this.formatSize(recommendedMemory)} recommended, ${this.formatSize(usable)} usable`);
+    }
+
+    if (host.disk === undefined) {
+      warnings.push(`Disk: free space on ${host.dataRoot} could not be measured`);
+    } else if (estimate.min.disk > host.disk) {
+      problems.push(
+        `Disk: at least ${this.formatSize(estimate.min.disk)} needed, ${this.formatSize(host.disk)} free on ${host.dataRoot}`,
+      );
+    } else if (estimate.recommended.disk > host.disk) {
+      warnings.push(
+        `Disk: ${this.formatSize(estimate.recommended.disk)} recommended, ${this.formatSize(host.disk)} free on ${host.dataRoot}`,
+      );
+    }
+
+    // CPU is shared between containers, so too few cores only slows things down
+    if (cpu > host.cpu) {
+      warnings.push(`CPU: ${cpu.toFixed(1)} cores needed, ${host.cpu} available (services will be slow)`);
+    }
+
+    return { fits: problems.length === 0, problems, warnings };
+  }
+
+  /**
+   * Per-service breakdown lines, largest memory first
+   * @param limit Maximum number of services to list
+   */
+  static formatBreakdown(estimate: ResourceEstimate, limit: number = 15): string[] {
+    const sorted = [...estimate.services].sort((a, b) => b.min.memory - a.min.memory);
+    const lines = sorted.slice(0, limit).map(s =>
+      `${s.service.padEnd(16)} ${this.formatSize(s.min.memory).padStart(6)} RAM ` +
+      `${this.formatSize(s.min.disk).padStart(6)} disk ${s.min.cpu.toString().padStart(5)} CPU` +
+      (s.declared ? '' : ' (estimated)'),
+    );
+    if (sorted.length > limit) {
+      lines.push(`... and ${sorted.length - limit} more`);
+    }
+    lines.push(
+      `${'total'.padEnd(16)} ${this.formatSize(estimate.min.memory).padStart(6)} RAM ` +
+      `${this.formatSize(estimate.min.disk).padStart(6)} disk ${estimate.min.cpu.toFixed(1).padStart(5)} CPU`,
+    );
+    return lines;
+  }
+
+  /**
+   * Directory where the runtime keeps images, containers and volumes
+   */
+  private static async detectDataRoot(): Promise<string> {
+    const current = ContainerRuntimeUtils.getCurrentRuntime();
+    const candidates: [string, string][] = [
+      ['docker', '{{.DockerRootDir}}'],
+      ['podman', '{{.Store.GraphRoot}}'],
+    ];
+    for (const [runtime, format] of candidates.filter(([r]) => !current || r === current)) {
+      try {
+        const result = await $`${runtime} info --format ${format}`.quiet();
+        const root = result.stdout.toString().trim();
+        if (result.exitCode === 0 && root.startsWith('/')) {
+          return root;
+        }
+      } catch {
+        // Runtime not installed or not running
+      }
+    }
+    return current === 'podman' ? '/var/lib/containers' : '/var/lib/docker';
+  }
+
+  /**
+   * Free space in MB on the filesystem holding path (or its nearest existing parent)
+   */
+  private static async freeSpace(path: string): Promise<number | undefined> {
+    let existing = path;
+    while (!existsSync(existing) && dirname(existing) !== existing) {
+      existing = dirname(existing);
+    }
+    try {
+      const result = await $`df -Pk ${existing}`.quiet();
+      const columns = result.stdout.toString().trim().split('\n')[1]?.split(/\s+/) || [];
+      const available = Number(columns[3]);
+      return Number.isFinite(available) && columns[3] !== undefined ? Math.floor(available / 1024) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
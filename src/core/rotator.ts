@@ -0,0 +1,213 @@
+/**
+ * Credential rotation for database accounts
+ * Changes the password inside the running database (PostgreSQL, MariaDB, MongoDB),
+ * saves it in the credential store and recreates, in dependency order, every
+ * installed service whose template references the secret
+ */
+
+import { HomelabConfig, ServiceType } from './types.js';
+import { HomelabError } from '../utils/errors.js';
+import { ServiceFactory } from '../services/factory.js';
+import { BaseService } from '../services/base.js';
+import { TemplateInspector } from '../services/inspector.js';
+import { TemplateEngine } from '../templates/engine.js';
+import { ContainerRuntimeUtils } from '../utils/container.js';
+import { CredentialStore } from '../utils/credentials.js';
+import { Logger } from '../utils/logger.js';
+import { $ } from 'bun';
+
+export type DatabaseEngine = 'postgresql' | 'mariadb' | 'mongodb';
+
+/** Database user whose password is a stored secret */
+export interface DatabaseAccount {
+  key: string;
+  engine: DatabaseEngine;
+  user: string;
+}
+
+export type RotationStatus = 'recreated' | 'failed' | 'skipped';
+
+export interface RotationStep {
+  service: ServiceType;
+  status: RotationStatus;
+  message?: string;
+}
+
+export interface RotationResult {
+  /** Secrets changed in the database and in the store */
+  rotated: string[];
+  /** Secrets of the service that are not database passwords (left unchanged) */
+  unchanged: string[];
+  services: RotationStep[];
+}
+
+/** Accounts created by the database templates themselves */
+const DATABASE_ACCOUNTS: DatabaseAccount[] = [
+  { key: 'postgresql.root', engine: 'postgresql', user: 'root' },
+  { key: 'mariadb.user', engine: 'mariadb', user: 'homelab' },
+  { key: 'mariadb.root', engine: 'mariadb', user: 'root' },
+  { key: 'mongodb.root', engine: 'mongodb', user: 'admin' },
+];
+
+/** Application users created in the shared PostgreSQL container by setup commands */
+const POSTGRES_USER = /USER (\w+) WITH (?:ENCRYPTED )?PASSWORD '\{\{SECRET:([^}]+)\}\}'/g;
+
+/**
+ * Rotates the database secrets of a service
+ */
+export class SecretRotator {
+  private config: HomelabConfig;
+  private templateEngine: TemplateEngine;
+  private serviceFactory: ServiceFactory;
+  private logger: Logger;
+  private healthTimeoutMs: number;
+
+  constructor(config: HomelabConfig, templateEngine: TemplateEngine = new TemplateEngine(), healthTimeoutMs: number = 120000) {
+    this.config = config;
+    this.templateEngine = templateEngine;
+    this.serviceFactory = new ServiceFactory(templateEngine);
+    this.logger = new Logger();
+    this.healthTimeoutMs = healthTimeoutMs;
+  }
+
+  /**
+   * Generate new passwords for the database accounts of a service and recreate its dependents
+   */
+  async rotate(target: ServiceType): Promise<RotationResult> {
+    const secrets = this.config.credentials;
+    if (!secrets) {
+      throw new HomelabError(
+        'This installation uses one shared password (legacy mode); rotation needs per-service credentials',
+        'CREDENTIALS_SHARED',
+        false,
+      );
+    }
+    if (!this.config.selectedServices.includes(target)) {
+      throw new HomelabError(`Not installed: ${target}`, 'SERVICE_NOT_INSTALLED', false, { services: [target] });
+    }
+
+    const keys = Object.keys(CredentialStore.forService(secrets, target));
+    const accounts = SecretRotator.findAccounts(await this.loadTemplate(target), keys);
+    if (accounts.length === 0) {
+      throw new HomelabError(
+        `${target} has no database password to rotate${keys.length > 0 ? ` (${keys.join(', ')})` : ''}`,
+        'ROTATION_UNSUPPORTED',
+        false,
+        { service: target },
+      );
+    }
+
+    const runtime = await ContainerRuntimeUtils.detectRuntime();
+    const rotated: string[] = [];
+    try {
+      for (const account of accounts) {
+        const password = CredentialStore.generate();
+        this.logger.info(`🔑 Changing the password of ${account.user} in ${account.engine} (${account.key})...`);
+        try {
+          await $`sh -c ${SecretRotator.getAlterCommand(runtime, account, password, secrets)}`.quiet();
+        } catch (error) {
+          throw new HomelabError(
+            `Could not change the password of ${account.user} in ${account.engine}: ${error instanceof Error ? error.message : String(error)}`,
+            'ROTATION_FAILED',
+            true,
+            { key: account.key, rotated },
+          );
+        }
+        secrets[account.key] = password;
+        rotated.push(account.key);
+      }
+    } finally {
+      // Passwords already changed in the database must be kept
+      if (rotated.length > 0) {
+        await CredentialStore.save(secrets, this.config.configPath);
+      }
+    }
+
+    return {
+      rotated,
+      unchanged: keys.filter(key => !rotated.includes(key)),
+      services: await this.recreateDependents(rotated),
+    };
+  }
+
+  /**
+   * Database accounts among the given secrets: those of the database templates, and
+   * application users created in PostgreSQL by the service template
+   * (`CREATE USER <name> WITH PASSWORD '{{SECRET:<key>}}'`)
+   */
+  static findAccounts(template: any, keys: string[]): DatabaseAccount[] {
+    const accounts = DATABASE_ACCOUNTS.filter(account => keys.includes(account.key));
+    for (const command of TemplateInspector.getCommands(template)) {
+      if (!/exec postgresql psql/.test(command)) continue;
+      for (const match of command.matchAll(POSTGRES_USER)) {
+        const [, user, key] = match;
+        if (keys.includes(key) && !accounts.some(a => a.key === key)) {
+          accounts.push({ key, engine: 'postgresql', user });
+        }
+      }
+    }
+    return accounts;
+  }
+
+  /**
+   * Command that sets a new password inside the running database container
+   * @param secrets Current secrets; MariaDB and MongoDB authenticate with the root password
+   */
+  static getAlterCommand(runtime: string, account: DatabaseAccount, password: string, secrets: Record<string, string>): string {
+    switch (account.engine) {
+      case 'postgresql':
+        return `${runtime} exec postgresql psql -U root -d postgres -c "ALTER USER ${account.user} WITH PASSWORD '${password}';"`;
+      case 'mariadb':
+        return `${runtime} exec mariadb mariadb -uroot -p${secrets['mariadb.root']} -e "` +
+          `ALTER USER IF EXISTS '${account.user}'@'%' IDENTIFIED BY '${password}'; ` +
+          `ALTER USER IF EXISTS '${account.user}'@'localhost' IDENTIFIED BY '${password}'; FLUSH PRIVILEGES;"`;
+      case 'mongodb':
+        return `${runtime} exec mongodb mongosh --quiet -u admin -p ${secrets['mongodb.root']} --authenticationDatabase admin ` +
+          `--eval "db.getSiblingDB('admin').changeUserPassword('${account.user}', '${password}')"`;
+    }
+  }
+
+  /**
+   * Recreate installed services that reference the rotated secrets, in installation order,
+   * stopping at the first one that does not become healthy
+   */
+  private async recreateDependents(keys: string[]): Promise<RotationStep[]> {
+    const services = this.serviceFactory.getInstallationOrder(this.serviceFactory.createServices(this.config));
+
+    const steps: RotationStep[] = [];
+    let failed = false;
+    for (const service of services) {
+      if (!(service instanceof BaseService)) continue;
+      const template = await this.loadTemplate(service.type);
+      if (!CredentialStore.findReferences(template, service.type).some(key => keys.includes(key))) continue;
+
+      if (failed) {
+        steps.push({ service: service.type, status: 'skipped', message: 'an earlier service failed' });
+        continue;
+      }
+
+      this.logger.info(`🔄 Recreating ${service.name}...`);
+      try {
+        await service.recreate();
+        for (const container of TemplateInspector.getContainerNames(template, true)) {
+          if (!(await ContainerRuntimeUtils.waitForHealthy(container, this.healthTimeoutMs))) {
+            throw new HomelabError(`${container} did not become healthy`, 'CONTAINER_UNHEALTHY', true, { container });
+          }
+        }
+        steps.push({ service: service.type, status: 'recreated' });
+      } catch (error) {
+        failed = true;
+        steps.push({ service: service.type, status: 'failed', message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return steps;
+  }
+
+  private async loadTemplate(service: ServiceType): Promise<any> {
+    try {
+      return (await this.templateEngine.load(`services/${service}`)).content;
+    } catch {
+      return undefined;
+    }
+  }
+}
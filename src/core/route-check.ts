@@ -0,0 +1,201 @@
+/**
+ * Post-install smoke tests of the Caddy routes
+ * Requests every route of CaddyService.getServiceProxyConfig over HTTP and HTTPS,
+ * resolving the hostnames to the configured IP (no DNS needed) and trusting the
+ * Caddy internal CA for local domains, and flags the routes Caddy cannot proxy
+ */
+
+import { HomelabConfig, RouteCheck, RouteProbe, ServiceType } from './types.js';
+import { CaddyService } from '../services/core/caddy.js';
+import { TemplateEngine } from '../templates/engine.js';
+import { ContainerRuntimeUtils } from '../utils/container.js';
+import { NetworkUtils } from '../utils/network.js';
+import { $ } from 'bun';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+/** Root certificate of `tls internal`, inside the Caddy container */
+const CADDY_ROOT_CA = '/data/caddy/pki/authorities/local/root.crt';
+
+/** curl exit codes of certificate verification failures */
+const TLS_ERRORS = [35, 51, 58, 60, 77];
+
+/** Caddy answers these when the container behind a route does not */
+const PROXY_ERRORS: Record<number, string> = {
+  502: 'Caddy could not reach {upstream} (wrong container port or container not running)',
+  503: '{upstream} is unavailable',
+  504: '{upstream} did not answer in time',
+};
+
+/** Seconds per request; curl retries 502-504 while a container is still starting */
+const REQUEST_TIMEOUT = 10;
+const RETRIES = 2;
+
+export interface Route {
+  service: ServiceType;
+  host: string;
+  upstream: string;
+}
+
+/**
+ * Probes the Caddy routes of installed services
+ */
+export class RouteChecker {
+  private config: HomelabConfig;
+  private templateEngine: TemplateEngine;
+
+  constructor(config: HomelabConfig, templateEngine: TemplateEngine = new TemplateEngine()) {
+    this.config = config;
+    this.templateEngine = templateEngine;
+  }
+
+  /**
+   * Routes Caddy serves for the given services
+   */
+  getRoutes(services: ServiceType[]): Route[] {
+    const caddy = new CaddyService({ ...this.config, selectedServices: services }, this.templateEngine);
+    return caddy.getServiceProxyConfig().map(route => ({
+      service: route.name as ServiceType,
+      host: `${route.subdomain}.${this.config.domain}`,
+      upstream: `${route.container}:${route.port}`,
+    }));
+  }
+
+  /**
+   * Probe the routes of the given services over HTTP and HTTPS
+   * @returns Result per service
+   */
+  async check(services: ServiceType[]): Promise<Partial<Record<ServiceType, RouteCheck>>> {
+    const routes = this.getRoutes(services);
+    const results: Partial<Record<ServiceType, RouteCheck>> = {};
+    if (routes.length === 0) {
+      return results;
+    }
+
+    const workDir = await mkdtemp(join(tmpdir(), 'hal-routes-'));
+    try {
+      // Local domains use certificates of the Caddy internal CA, public ones the system CAs
+      const caFile = NetworkUtils.isLocalDomain(this.config.domain, this.config.ip)
+        ? await this.copyRootCA(workDir)
+        : undefined;
+
+      for (const route of routes) {
+        const http = await this.probe(`http://${route.host}/`, route.host, 80);
+        const https = await this.probe(`https://${route.host}/`, route.host, 443, caFile);
+        results[route.service] = {
+          host: route.host,
+          upstream: route.upstream,
+          http,
+          https,
+          ...RouteChecker.evaluate(route.upstream, http, https),
+          checkedAt: new Date().toISOString(),
+        };
+      }
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+    return results;
+  }
+
+  /**
+   * Request a route once, and again without verification when the certificate is not trusted
+   * @param caFile CA bundle for HTTPS (the system CAs when not set)
+   */
+  private async probe(url: string, host: string, port: number, caFile?: string): Promise<RouteProbe> {
+    const https = url.startsWith('https://');
+    const request = (insecure: boolean) =>
+      $`sh -c ${RouteChecker.getCurlCommand(url, host, port, this.config.ip, caFile, insecure)}`.quiet().nothrow();
+
+    let result = await request(false);
+    let tlsValid = https ? true : undefined;
+    if (https && TLS_ERRORS.includes(result.exitCode)) {
+      tlsValid = false;
+      result = await request(true);
+    }
+
+    if (result.exitCode !== 0) {
+      const error = result.stderr.toString().trim().split('\n').pop() || `curl exited with ${result.exitCode}`;
+      return tlsValid === false ? { tlsValid, error } : { error };
+    }
+    const probe = RouteChecker.parseCurlOutput(result.stdout.toString());
+    return https ? { ...probe, tlsValid } : probe;
+  }
+
+  /**
+   * Copy the root certificate of the Caddy internal CA out of its container
+   * @returns Path of the copy, undefined when it could not be read (certificates are then untrusted)
+   */
+  private async copyRootCA(workDir: string): Promise<string | undefined> {
+    const caFile = join(workDir, 'caddy-root.crt');
+    try {
+      const runtime = await ContainerRuntimeUtils.detectRuntime();
+      await $`sh -c ${`${runtime} cp caddy:${CADDY_ROOT_CA} ${caFile}`}`.quiet();
+      return caFile;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * curl command that requests a route on the configured IP and prints status and time
+   */
+  static getCurlCommand(url: string, host: string, port: number, ip: string, caFile?: string, insecure: boolean = false): string {
+    const args = [
+      'curl -sS -o /dev/null',
+      `--max-time ${REQUEST_TIMEOUT}`,
+      `--retry ${RETRIES} --retry-delay 3`,
+      `--resolve ${host}:${port}:${ip}`,
+      ...(caFile ? [`--cacert ${caFile}`] : []),
+      ...(insecure ? ['-k'] : []),
+      `-w '%{http_code} %{time_total}'`,
+      url,
+    ];
+    return args.join(' ');
+  }
+
+  /**
+   * Parse the `-w '%{http_code} %{time_total}'` output of curl
+   */
+  static parseCurlOutput(output: string): RouteProbe {
+    const [code, time] = output.trim().split(/\s+/);
+    const status = Number(code);
+    const latencyMs = Math.round(Number(time) * 1000);
+    return {
+      ...(status > 0 ? { status } : { error: 'No HTTP response' }),
+      ...(Number.isFinite(latencyMs) ? { latencyMs } : {}),
+    };
+  }
+
+  /**
+   * Decide whether a route is broken: no answer, or a proxy error from Caddy
+   * An untrusted certificate is reported by the probe but does not break the route
+   */
+  static evaluate(upstream: string, http: RouteProbe, https: RouteProbe): { broken: boolean; reason?: string } {
+    for (const [scheme, probe] of [['HTTPS', https], ['HTTP', http]] as const) {
+      if (probe.status === undefined) {
+        return { broken: true, reason: `${scheme}: ${probe.error || 'no response'}` };
+      }
+      const proxyError = PROXY_ERRORS[probe.status];
+      if (proxyError) {
+        return { broken: true, reason: `${scheme} ${probe.status}: ${proxyError.replace('{upstream}', upstream)}` };
+      }
+    }
+    return { broken: false };
+  }
+
+  /**
+   * One-line summary of a check, e.g. `HTTPS 200 (TLS ok, 84ms) · HTTP 200 (12ms)`
+   */
+  static describe(check: RouteCheck): string {
+    const format = (scheme: string, probe: RouteProbe) => {
+      const details = [
+        probe.tlsValid !== undefined && (probe.tlsValid ? 'TLS ok' : 'TLS untrusted'),
+        probe.latencyMs !== undefined && `${probe.latencyMs}ms`,
+      ].filter(Boolean);
+      const result = probe.status ?? 'no response';
+      return `${scheme} ${result}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+    };
+    return `${format('HTTPS', check.https)} · ${format('HTTP', check.http)}`;
+  }
+}
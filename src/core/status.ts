@@ -0,0 +1,177 @@
+/**
+ * Runtime status of an existing HomeLab installation
+ * Maps installed services to their containers and reads their state
+ */
+
+import { HomelabConfig, ServiceType } from './types.js';
+import { ServiceFactory } from '../services/factory.js';
+import { TemplateInspector } from '../services/inspector.js';
+import { TemplateEngine } from '../templates/engine.js';
+import { ContainerRuntimeUtils } from '../utils/container.js';
+import { $ } from 'bun';
+
+export interface ContainerStatus {
+  name: string;
+  state: string;
+  health?: string;
+  startedAt?: string;
+  uptime?: string;
+  restartCount: number;
+  ports: string[];
+}
+
+export interface ServiceStatus {
+  service: ServiceType;
+  name: string;
+  url: string;
+  containers: ContainerStatus[];
+  missingContainers: string[];
+}
+
+/**
+ * Collects container state, uptime, restarts and ports for installed services
+ */
+export class StatusReporter {
+  private config: HomelabConfig;
+  private templateEngine: TemplateEngine;
+  private serviceFactory: ServiceFactory;
+
+  constructor(config: HomelabConfig, templateEngine: TemplateEngine = new TemplateEngine()) {
+    this.config = config;
+    this.templateEngine = templateEngine;
+    this.serviceFactory = new ServiceFactory(templateEngine);
+  }
+
+  /**
+   * Get the status of every service recorded in the installation state
+   */
+  async collect(quiet: boolean = false): Promise<ServiceStatus[]> {
+    const runtime = await ContainerRuntimeUtils.detectRuntime(quiet);
+    const services = this.serviceFactory.createServices(this.config);
+    const result: ServiceStatus[] = [];
+
+    for (const service of services) {
+      const status: ServiceStatus = {
+        service: service.type,
+        name: service.name,
+        url: service.getAccessUrl(),
+        containers: [],
+        missingContainers: [],
+      };
+
+      for (const container of await this.getContainerNames(service.type)) {
+        const info = await this.inspect(runtime, container);
+        if (info) {
+          status.containers.push(info);
+        } else {
+          status.missingContainers.push(container);
+        }
+      }
+
+      result.push(status);
+    }
+
+    return result;
+  }
+
+  /**
+   * Get container names for a service from its template (defaults to the service type)
+   */
+  private async getContainerNames(serviceType: ServiceType): Promise<string[]> {
+    try {
+      const template = await this.templateEngine.load(`services/${serviceType}`);
+      const names = TemplateInspector.getContainerNames(template.content);
+      if (names.length > 0) {
+        return names;
+      }
+    } catch {
+      // No template, fall back to the service type
+    }
+    return [serviceType];
+  }
+
+  /**
+   * Inspect a container, returning null when it does not exist
+   */
+  private async inspect(runtime: string, container: string): Promise<ContainerStatus | null> {
+    try {
+      const output = await $`sh -c ${`${runtime} inspect ${container}`}`.quiet();
+      return StatusReporter.parseInspect(output.stdout.toString());
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parse `docker inspect` / `podman inspect` JSON output for a single container
+   */
+  static parseInspect(json: string, now: Date = new Date()): ContainerStatus | null {
+    let data: any;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      return null;
+    }
+
+    const info = Array.isArray(data) ? data[0] : data;
+    if (!info) {
+      return null;
+    }
+
+    const state = info.State || {};
+    const status: ContainerStatus = {
+      name: String(info.Name || '').replace(/^\//, ''),
+      state: state.Status || 'unknown',
+      restartCount: Number(info.RestartCount || 0),
+      ports: StatusReporter.formatPorts(info.NetworkSettings?.Ports),
+    };
+
+    // Docker uses State.Health, older Podman versions State.Healthcheck
+    const health = state.Health?.Status || state.Healthcheck?.Status;
+    if (health) {
+      status.health = health;
+    }
+
+    if (state.Status === 'running' && state.StartedAt) {
+      status.startedAt = state.StartedAt;
+      status.uptime = StatusReporter.formatUptime(new Date(state.StartedAt), now);
+    }
+
+    return status;
+  }
+
+  /**
+   * Format published ports as `host:port->container/proto`
+   */
+  private static formatPorts(ports: Record<string, Array<{ HostIp?: string; HostPort?: string }> | null> | undefined): string[] {
+    if (!ports) {
+      return [];
+    }
+
+    const result: string[] = [];
+    for (const [containerPort, bindings] of Object.entries(ports)) {
+      for (const binding of bindings || []) {
+        if (binding.HostPort) {
+          const host = binding.HostIp && binding.HostIp !== '0.0.0.0' && binding.HostIp !== '::' ? `${binding.HostIp}:` : '';
+          result.push(`${host}${binding.HostPort}->${containerPort}`);
+        }
+      }
+    }
+    return [...new Set(result)];
+  }
+
+  /**
+   * Format elapsed time as a compact duration (e.g. 3d 4h, 2h 15m, 45s)
+   */
+  static formatUptime(startedAt: Date, now: Date = new Date()): string {
+    const seconds = Math.max(0, Math.floor((now.getTime() - startedAt.getTime()) / 1000));
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+
+    if (days > 0) return `${days}d ${hours}h`;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m`;
+    return `${seconds}s`;
+  }
+}
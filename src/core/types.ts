@@ -140,12 +140,67 @@ export interface HomelabConfig {
   domain: string;
   tunnelDomain?: string;
   networkName: string;
+  /** Shared password for every secret (legacy mode, used when credentials is not set) */
   storagePassword?: string;
+  /** Generated secrets by `service.role`, referenced by templates as {{SECRET:service.role}} */
+  credentials?: Record<string, string>;
   selectedServices: ServiceType[];
   distribution: DistributionType;
   containerRuntime?: ContainerRuntime; // For macOS
   configPath: string;
   dataPath: string;
+  serviceOverrides?: Partial<Record<ServiceType, ServiceOverride>>;
+  /** Host ports reassigned by --auto-ports, per service (template host port -> chosen port) */
+  portMappings?: Partial<Record<ServiceType, Record<string, number>>>;
+  /** Results of the last post-install probe of the Caddy routes, per service */
+  routeChecks?: Partial<Record<ServiceType, RouteCheck>>;
+}
+
+// Probe of one Caddy route after installation (saved in the state file)
+export interface RouteCheck {
+  /** Hostname of the route, e.g. n8n.homelab.lan */
+  host: string;
+  /** Container and port Caddy proxies to */
+  upstream: string;
+  http: RouteProbe;
+  https: RouteProbe;
+  /** Caddy could not reach the container, or the route did not answer */
+  broken: boolean;
+  /** Why the route is broken */
+  reason?: string;
+  checkedAt: string;
+}
+
+// One request to a route over HTTP or HTTPS
+export interface RouteProbe {
+  /** Status code, absent when there was no response */
+  status?: number;
+  latencyMs?: number;
+  /** HTTPS only: the certificate is trusted (the Caddy internal CA for local domains) */
+  tlsValid?: boolean;
+  error?: string;
+}
+
+// Per-service settings from a hal.yml configuration file
+export interface ServiceOverride {
+  enabled?: boolean;
+  tag?: string;
+  env?: Record<string, string>;
+  port?: number;
+  dataPath?: string;
+  backup?: BackupSchedule;
+}
+
+// Scheduled backups of a service (hal.yml services.<name>.backup)
+export interface BackupSchedule {
+  /** Cron expression (minute hour day-of-month month day-of-week) */
+  schedule: string;
+  /** Restore points kept per day, week and month; nothing is pruned when all are unset */
+  keepDaily?: number;
+  keepWeekly?: number;
+  keepMonthly?: number;
+  /** Upload to the RustFS bucket instead of ~/ws/backups */
+  bucket?: boolean;
 }
 
 // Service selection interface
@@ -165,6 +220,14 @@ export interface Service {
   getAccessUrl(): string;
 }
 
+// Steps run around the installation of each service (e.g. restoring migrated data)
+export interface ServiceInstallHooks {
+  /** Before the containers of the service are created */
+  beforeInstall?(service: ServiceType): Promise<void>;
+  /** After the service is installed and configured, before its dependents */
+  afterInstall?(service: ServiceType): Promise<void>;
+}
+
 // Distribution strategy interface
 export interface DistributionStrategy {
   name: string;
@@ -197,6 +260,26 @@ export interface DockerTemplate {
   };
   variables: string[];
   dependencies?: string[];
+  healthcheck?: TemplateHealthCheck;
+}
+
+// Container healthcheck of a service template (healthcheck: block), one probe of http, tcp or exec
+export interface TemplateHealthCheck {
+  /** HTTP path requested inside the container (e.g. /api/health) */
+  http?: string;
+  /** TCP port that must accept connections inside the container */
+  tcp?: number;
+  /** Command run inside the container, healthy when it exits with 0 */
+  exec?: string;
+  /** Container port of the http probe (default: first published port of the container) */
+  port?: number;
+  /** Container the healthcheck applies to (default: the main container) */
+  container?: string;
+  /** Durations such as 10s or 1m */
+  interval?: string;
+  timeout?: string;
+  startPeriod?: string;
+  retries?: number;
 }
 
 export interface ConfigTemplate {
@@ -0,0 +1,231 @@
+/**
+ * Image upgrades for an existing HomeLab installation
+ * Pulls newer images for floating tags, recreates containers and rolls back
+ * to the previous image when the new one does not become healthy
+ */
+
+import { HomelabConfig, ServiceType } from './types.js';
+import { HomelabError } from '../utils/errors.js';
+import { ServiceFactory } from '../services/factory.js';
+import { BaseService } from '../services/base.js';
+import { TemplateInspector } from '../services/inspector.js';
+import { TemplateEngine } from '../templates/engine.js';
+import { ContainerRuntimeUtils } from '../utils/container.js';
+import { Logger } from '../utils/logger.js';
+import { $ } from 'bun';
+
+export type UpgradeStatus = 'upgraded' | 'unchanged' | 'rolled-back' | 'failed' | 'skipped';
+
+export interface ImageChange {
+  container: string;
+  image: string;
+  from: string;
+  to: string;
+}
+
+export interface UpgradeResult {
+  service: ServiceType;
+  status: UpgradeStatus;
+  images: ImageChange[];
+  message?: string;
+}
+
+interface ContainerImage {
+  container: string;
+  image: string;
+  imageId: string;
+  env: string[];
+}
+
+/**
+ * Upgrades service containers to the latest image of their tag
+ */
+export class ServiceUpgrader {
+  private config: HomelabConfig;
+  private templateEngine: TemplateEngine;
+  private serviceFactory: ServiceFactory;
+  private logger: Logger;
+  private healthTimeoutMs: number;
+
+  constructor(config: HomelabConfig, templateEngine: TemplateEngine = new TemplateEngine(), healthTimeoutMs: number = 120000) {
+    this.config = config;
+    this.templateEngine = templateEngine;
+    this.serviceFactory = new ServiceFactory(templateEngine);
+    this.logger = new Logger();
+    this.healthTimeoutMs = healthTimeoutMs;
+  }
+
+  /**
+   * Upgrade the given services (all installed services when empty), in installation order
+   */
+  async upgrade(targets: ServiceType[] = []): Promise<UpgradeResult[]> {
+    const notInstalled = targets.filter(t => !this.config.selectedServices.includes(t));
+    if (notInstalled.length > 0) {
+      throw new HomelabError(
+        `Not installed: ${notInstalled.join(', ')}`,
+        'SERVICE_NOT_INSTALLED',
+        false,
+        { services: notInstalled },
+      );
+    }
+
+    const services = this.serviceFactory.getInstallationOrder(
+      this.serviceFactory
+        .createServices(this.config)
+        .filter(s => targets.length === 0 || targets.includes(s.type)),
+    );
+
+    const results: UpgradeResult[] = [];
+    for (const service of services) {
+      if (!(service instanceof BaseService)) {
+        continue;
+      }
+      this.logger.info(`⬆️  Upgrading ${service.name}...`);
+      const result = await this.upgradeService(service);
+      results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * Pull, recreate and verify a single service, rolling back on failure
+   */
+  private async upgradeService(service: BaseService): Promise<UpgradeResult> {
+    const result: UpgradeResult = { service: service.type, status: 'unchanged', images: [] };
+    const runtime = await ContainerRuntimeUtils.detectRuntime();
+
+    let template: any;
+    try {
+      template = (await this.templateEngine.load(`services/${service.type}`)).content;
+    } catch {
+      return { ...result, status: 'skipped', message: 'No template found' };
+    }
+
+    // Record the image each container currently runs
+    const current: ContainerImage[] = [];
+    for (const container of TemplateInspector.getContainerNames(template, true)) {
+      const info = await this.inspectContainer(runtime, container);
+      if (info) {
+        current.push(info);
+      }
+    }
+    if (current.length === 0) {
+      return { ...result, status: 'skipped', message: 'No running container found' };
+    }
+
+    // Pull the same references and compare image IDs
+    for (const image of new Set(current.map(c => c.image))) {
+      try {
+        console.log(`   Pulling ${image}`);
+        await this.run(`${runtime} pull ${image}`);
+      } catch (error) {
+        return { ...result, status: 'failed', message: `Failed to pull ${image}: ${error}` };
+      }
+    }
+
+    for (const entry of current) {
+      const newId = await this.getImageId(runtime, entry.image);
+      if (newId && newId !== entry.imageId) {
+        result.images.push({ container: entry.container, image: entry.image, from: entry.imageId, to: newId });
+      }
+    }
+    if (result.images.length === 0) {
+      return result;
+    }
+
+    // Keep generated secrets the containers were started with
+    const overrides: Record<string, string> = {};
+    for (const entry of current) {
+      const token = TemplateInspector.recoverAdminToken(template, entry.env);
+      if (token) {
+        overrides.ADMIN_TOKEN = token;
+        break;
+      }
+    }
+
+    try {
+      await service.recreate(overrides);
+      await this.verifyHealthy(current.map(c => c.container));
+      return { ...result, status: 'upgraded' };
+    } catch (error) {
+      this.logger.warn(`⚠️  ${service.name} did not come up with the new image, rolling back...`);
+      return this.rollback(service, runtime, current, overrides, result, error);
+    }
+  }
+
+  /**
+   * Point image tags back at the recorded image IDs and recreate the containers
+   */
+  private async rollback(
+    service: BaseService,
+    runtime: string,
+    previous: ContainerImage[],
+    overrides: Record<string, string>,
+    result: UpgradeResult,
+    cause: unknown,
+  ): Promise<UpgradeResult> {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    try {
+      for (const entry of previous) {
+        await this.run(`${runtime} tag ${entry.imageId} ${entry.image}`);
+      }
+      await service.recreate(overrides);
+      await this.verifyHealthy(previous.map(c => c.container));
+      return { ...result, status: 'rolled-back', message: reason };
+    } catch (error) {
+      return {
+        ...result,
+        status: 'failed',
+        message: `${reason}; rollback failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Wait for every container to become healthy
+   */
+  private async verifyHealthy(containers: string[]): Promise<void> {
+    for (const container of containers) {
+      const healthy = await ContainerRuntimeUtils.waitForHealthy(container, this.healthTimeoutMs);
+      if (!healthy) {
+        throw new HomelabError(
+          `${container} did not become healthy`,
+          'CONTAINER_UNHEALTHY',
+          true,
+          { container },
+        );
+      }
+    }
+  }
+
+  private async inspectContainer(runtime: string, container: string): Promise<ContainerImage | null> {
+    try {
+      const [info] = JSON.parse(await this.run(`${runtime} inspect ${container}`));
+      if (!info?.Image || !info?.Config?.Image) {
+        return null;
+      }
+      return {
+        container,
+        image: info.Config.Image,
+        imageId: info.Image,
+        env: info.Config.Env || [],
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private async getImageId(runtime: string, image: string): Promise<string | null> {
+    try {
+      const output = await this.run(`${runtime} image inspect --format '{{.Id}}' ${image}`);
+      return output.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async run(command: string): Promise<string> {
+    const result = await $`sh -c ${command}`.quiet();
+    return result.stdout.toString();
+  }
+}
@@ -236,6 +236,19 @@ export class AmazonLinuxStrategy extends BaseDistributionStrategy {
     return 'dnf';
   }
 
+  /**
+   * Firewall commands run by configureFirewall on a fresh system
+   */
+  protected getFirewallPlan(): string[] {
+    return [
+      'sudo systemctl enable --now firewalld',
+      'sudo firewall-cmd --permanent --add-service=ssh',
+      'sudo firewall-cmd --permanent --add-service=http',
+      'sudo firewall-cmd --permanent --add-service=https',
+      'sudo firewall-cmd --reload',
+    ];
+  }
+
   /**
    * Get the preferred package manager (dnf over yum if available)
    */
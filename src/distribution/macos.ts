@@ -74,6 +74,13 @@ export class MacOSStrategy extends BaseDistributionStrategy {
     this.logger.info('⏭️  Skipping firewall configuration on macOS (not required for local development)');
   }
 
+  /**
+   * No privileged host changes on macOS: the container runtime is installed manually
+   */
+  async planHostChanges(): Promise<string[]> {
+    return [];
+  }
+
   getPackageManager(): string {
     return 'brew';
   }
@@ -57,6 +57,13 @@ export class MingwStrategy extends BaseDistributionStrategy {
     console.log('💡 Add entries to C:\\Windows\\System32\\drivers\\etc\\hosts manually if needed');
   }
 
+  /**
+   * No privileged host changes on Windows: the container runtime is installed manually
+   */
+  async planHostChanges(): Promise<string[]> {
+    return [];
+  }
+
   getPackageManager(): string {
     return 'none';
   }
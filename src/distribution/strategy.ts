@@ -6,6 +6,24 @@ import { DistributionStrategy, DistributionType } from '../core/types.js';
 import { DistributionNotSupportedError } from '../utils/errors.js';
 import { $ } from 'bun';
 
+/**
+ * dnsmasq configuration written by configureDnsmasq
+ */
+export const DNSMASQ_CONFIG_PATH = '/etc/dnsmasq.d/homelab.conf';
+
+/**
+ * Subdomain used for a service entry in the dnsmasq configuration
+ */
+export function getDnsmasqSubdomain(service: string): string {
+  const subdomainMap: Record<string, string> = {
+    'copyparty': 'files',
+    'jasperreports': 'jasper',
+    'stirlingpdf': 'pdf',
+    'libretranslate': 'translate'
+  };
+  return subdomainMap[service] || service;
+}
+
 /**
  * Abstract base class for distribution strategies
  */
@@ -38,20 +56,12 @@ export abstract class BaseDistributionStrategy implements DistributionStrategy {
     ];
     
     // Add specific subdomain entries for each service
-    const subdomainMap: Record<string, string> = {
-      'copyparty': 'files',
-      'jasperreports': 'jasper', 
-      'stirlingpdf': 'pdf',
-      'libretranslate': 'translate'
-    };
-    
     for (const service of services) {
-      const subdomain = subdomainMap[service] || service;
-      config.push(`address=/${subdomain}.${domain}/${ip}`);
+      config.push(`address=/${getDnsmasqSubdomain(service)}.${domain}/${ip}`);
     }
     
     // Write configuration
-    await $`echo ${config.join('\n')} | sudo tee /etc/dnsmasq.d/homelab.conf`;
+    await $`echo ${config.join('\n')} | sudo tee ${DNSMASQ_CONFIG_PATH}`;
     
     // Restart and enable dnsmasq
     await $`sudo systemctl restart dnsmasq`;
@@ -60,6 +70,45 @@ export abstract class BaseDistributionStrategy implements DistributionStrategy {
     console.log('✅ dnsmasq and CA certificates configured successfully');
   }
 
+  /**
+   * Describe the privileged operations of installDocker, configureFirewall and
+   * configureDnsmasq without running them (used by --dry-run)
+   */
+  async planHostChanges(domain: string, ip: string, services: string[], withDnsmasq: boolean): Promise<string[]> {
+    const packageManager = this.getPackageManager();
+    const operations: string[] = [];
+
+    if (!(await this.commandExists('docker')) && !(await this.commandExists('podman'))) {
+      operations.push(`sudo ${packageManager} install docker (official packages) and enable docker.service`);
+      operations.push('sudo usermod -aG docker $USER');
+    }
+
+    operations.push(...this.getFirewallPlan());
+
+    if (withDnsmasq) {
+      operations.push(`sudo ${packageManager} install dnsmasq openssl`);
+      operations.push('sudo update-ca-certificates (HomeLab CA in /usr/local/share/ca-certificates)');
+      operations.push(`sudo tee ${DNSMASQ_CONFIG_PATH} (${domain} and ${services.length} service subdomains -> ${ip})`);
+      operations.push('sudo systemctl restart dnsmasq && sudo systemctl enable dnsmasq');
+    }
+
+    return operations;
+  }
+
+  /**
+   * Firewall commands run by configureFirewall on a fresh system
+   */
+  protected getFirewallPlan(): string[] {
+    return [
+      'sudo ufw default deny incoming',
+      'sudo ufw default allow outgoing',
+      'sudo ufw allow 22/tcp',
+      'sudo ufw allow 80/tcp',
+      'sudo ufw allow 443/tcp',
+      'sudo ufw --force enable',
+    ];
+  }
+
   /**
    * Generate and install CA certificate for local domains
    * Based on the HomeLab article approach
@@ -0,0 +1,248 @@
+/**
+ * docker-compose export of an installation
+ * Converts the run commands of each installed service into compose services
+ * and collects the remaining template steps into a bootstrap script
+ */
+
+import { CaddyService } from '../services/core/caddy.js';
+import { ContainerSpec } from './docker-run.js';
+import { ExportedService, StackExporter } from './stack.js';
+import { writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+
+export interface ComposeExport {
+  compose: Record<string, any>;
+  setupScript: string;
+  warnings: string[];
+}
+
+const PULL_COMMAND = /^\s*(?:docker|podman)\s+pull\b/;
+
+/**
+ * Builds a compose project and setup script from the installed services
+ */
+export class ComposeExporter extends StackExporter {
+  /**
+   * Build the compose document and setup script, in installation order
+   */
+  async build(): Promise<ComposeExport> {
+    const warnings: string[] = [];
+    const exported = await this.collectServices(warnings);
+
+    const containersByService = new Map<string, string[]>();
+    for (const entry of exported) {
+      containersByService.set(entry.service.name, entry.containers.map(c => c.name!));
+    }
+
+    const services: Record<string, any> = {};
+    const volumes: Record<string, any> = {};
+    const networks: Record<string, any> = {};
+
+    for (const entry of exported) {
+      const dependsOn = entry.service.dependencies.flatMap(dep => containersByService.get(dep) || []);
+
+      entry.containers.forEach((spec, index) => {
+        const service = ComposeExporter.toComposeService(spec, volumes, networks);
+        // Keep the start order of containers within a multi-container template
+        const previous = index > 0 ? [entry.containers[index - 1].name!] : [];
+        const depends = [...new Set([...dependsOn, ...previous])];
+        if (depends.length > 0) {
+          service.depends_on = depends;
+        }
+        if (entry.builtImages.includes(spec.image)) {
+          service.pull_policy = 'never';
+        }
+        services[spec.name!] = service;
+
+        for (const flag of spec.unsupported) {
+          warnings.push(`${spec.name}: ignored ${flag}`);
+        }
+      });
+    }
+
+    const compose: Record<string, any> = { name: this.config.networkName, services };
+    if (Object.keys(networks).length > 0) {
+      compose.networks = networks;
+    }
+    if (Object.keys(volumes).length > 0) {
+      compose.volumes = volumes;
+    }
+
+    return {
+      compose,
+      setupScript: this.buildSetupScript(exported, Object.keys(networks), Object.keys(volumes)),
+      warnings,
+    };
+  }
+
+  /**
+   * Write compose.yml and setup.sh to a directory.
+   * The Caddyfile is regenerated first so the mounted routes match the exported services.
+   * @returns Paths of the written files and export warnings
+   */
+  async write(outputDir: string): Promise<{ files: string[]; warnings: string[] }> {
+    const { compose, setupScript, warnings } = await this.build();
+
+    try {
+      await new CaddyService(this.config, this.templateEngine).regenerateConfigFiles();
+    } catch (error) {
+      warnings.push(`caddy: failed to regenerate the Caddyfile: ${error}`);
+    }
+
+    await mkdir(outputDir, { recursive: true });
+    const composePath = join(outputDir, 'compose.yml');
+    const setupPath = join(outputDir, 'setup.sh');
+
+    const header = `# Generated by hal export compose for ${this.config.domain}\n`;
+    await writeFile(composePath, header + Bun.YAML.stringify(compose, null, 2) + '\n');
+    await writeFile(setupPath, setupScript, { mode: 0o755 });
+
+    return { files: [composePath, setupPath], warnings };
+  }
+
+  /**
+   * Build a script that runs each service's setup steps before starting its containers
+   */
+  private buildSetupScript(exported: ExportedService[], networks: string[], volumes: string[]): string {
+    const lines = [
+      '#!/bin/sh',
+      '# Generated by hal export compose',
+      '# Runs the setup steps of each service (directories, generated files, database users)',
+      '# before starting its containers, in installation order. Config files HAL generates',
+      `# itself (e.g. the Caddyfile) are mounted from ~/${this.config.configPath}.`,
+      '# Once this has run, `docker compose up -d` is enough to start the stack.',
+      '',
+      'cd "$(dirname "$0")"',
+      ...networks.map(network => `docker network create ${network} 2>/dev/null || true`),
+      ...volumes.map(volume => `docker volume create ${volume} >/dev/null`),
+      'docker compose pull --ignore-pull-failures',
+    ];
+
+    for (const { service, commands, containers, jobs } of exported) {
+      lines.push('', `# ${service.name} (${service.type})`);
+      lines.push(...commands.install.filter(command => !PULL_COMMAND.test(command)));
+      lines.push(...commands.setup);
+      lines.push(...jobs.map(job => ComposeExporter.toRunCommand(job)));
+      if (containers.length > 0) {
+        lines.push(`docker compose up -d ${containers.map(c => c.name).join(' ')}`);
+      }
+      lines.push(...commands.postRun);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Convert a parsed container into a compose service definition.
+   * Named volumes and networks are added to the top-level maps as external (setup.sh creates them).
+   */
+  static toComposeService(
+    spec: ContainerSpec,
+    volumes: Record<string, any> = {},
+    networks: Record<string, any> = {},
+  ): Record<string, any> {
+    const service: Record<string, any> = {
+      image: spec.image,
+      container_name: spec.name,
+    };
+
+    if (spec.restart) service.restart = spec.restart;
+    if (spec.user) service.user = spec.user;
+    if (spec.entrypoint) service.entrypoint = this.escape(spec.entrypoint);
+    if (spec.hostname) service.hostname = spec.hostname;
+    if (spec.workdir) service.working_dir = spec.workdir;
+    if (spec.privileged) service.privileged = true;
+    if (spec.capAdd.length > 0) service.cap_add = spec.capAdd;
+    if (spec.ulimits.length > 0) service.ulimits = this.toUlimits(spec.ulimits);
+    if (spec.ports.length > 0) service.ports = spec.ports;
+    if (spec.extraHosts.length > 0) service.extra_hosts = spec.extraHosts;
+    if (spec.devices.length > 0) service.devices = spec.devices;
+    if (spec.envFiles.length > 0) service.env_file = spec.envFiles.map(file => this.toHostPath(file));
+
+    if (Object.keys(spec.environment).length > 0) {
+      service.environment = Object.fromEntries(
+        Object.entries(spec.environment).map(([key, value]) => [key, this.escape(value)]),
+      );
+    }
+    if (Object.keys(spec.labels).length > 0) {
+      service.labels = spec.labels;
+    }
+
+    if (spec.volumes.length > 0) {
+      service.volumes = spec.volumes.map(volume => {
+        const source = volume.split(':')[0];
+        if (/^[A-Za-z0-9][A-Za-z0-9_.-]*$/.test(source)) {
+          volumes[source] = { name: source, external: true };
+          return volume;
+        }
+        return this.toHostPath(volume);
+      });
+    }
+
+    if (spec.network === 'host') {
+      service.network_mode = 'host';
+    } else if (spec.network) {
+      service.networks = [spec.network];
+      networks[spec.network] = { name: spec.network, external: true };
+    }
+
+    if (spec.command.length > 0) {
+      service.command = spec.command.map(arg => this.escape(arg));
+    }
+
+    if (spec.healthcheck) {
+      const { command, interval, timeout, retries, startPeriod } = spec.healthcheck;
+      service.healthcheck = {
+        ...(command && { test: ['CMD-SHELL', this.escape(command)] }),
+        ...(interval && { interval }),
+        ...(timeout && { timeout }),
+        ...(retries && { retries }),
+        ...(startPeriod && { start_period: startPeriod }),
+      };
+    }
+
+    return service;
+  }
+
+  /**
+   * Escape `$` so compose does not interpolate values taken from the templates
+   */
+  static escape(value: string): string {
+    return value.replace(/\$/g, '$$$$');
+  }
+
+  /**
+   * Escape a bind mount path and expand a leading `~` (not supported everywhere in compose)
+   */
+  private static toHostPath(path: string): string {
+    return this.escape(path).replace(/^~(?=\/)/, '${HOME}');
+  }
+
+  /**
+   * Convert `--ulimit name=soft[:hard]` values to the compose ulimits map
+   */
+  private static toUlimits(ulimits: string[]): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const ulimit of ulimits) {
+      const [name, limits = ''] = ulimit.split('=');
+      const [soft, hard] = limits.split(':').map(Number);
+      result[name] = hard === undefined ? soft : { soft, hard };
+    }
+    return result;
+  }
+
+  /**
+   * Rebuild a one-shot `docker run` command for the setup script
+   */
+  private static toRunCommand(spec: ContainerSpec): string {
+    const quote = (arg: string) => /^[A-Za-z0-9_@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+    const args = ['docker', 'run', '--rm'];
+    if (spec.network) args.push('--network', spec.network);
+    for (const [key, value] of Object.entries(spec.environment)) args.push('-e', `${key}=${value}`);
+    for (const volume of spec.volumes) args.push('-v', volume);
+    if (spec.user) args.push('--user', spec.user);
+    if (spec.entrypoint) args.push('--entrypoint', spec.entrypoint);
+    args.push(spec.image, ...spec.command);
+    return args.map(arg => arg.startsWith('~/') ? `~/${quote(arg.slice(2))}` : quote(arg)).join(' ');
+  }
+}
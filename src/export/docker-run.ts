@@ -0,0 +1,291 @@
+/**
+ * `docker run` command parsing for exporters
+ * Turns the interpolated run commands of a service template into structured
+ * container definitions that can be written as compose services or manifests
+ */
+
+/** `--health-*` flags of a container */
+export interface ContainerHealthCheck {
+  /** Shell command run inside the container */
+  command: string;
+  interval?: string;
+  timeout?: string;
+  retries?: number;
+  startPeriod?: string;
+}
+
+export interface ContainerSpec {
+  name?: string;
+  image: string;
+  command: string[];
+  ports: string[];
+  volumes: string[];
+  environment: Record<string, string>;
+  envFiles: string[];
+  network?: string;
+  restart?: string;
+  user?: string;
+  entrypoint?: string;
+  hostname?: string;
+  workdir?: string;
+  privileged: boolean;
+  capAdd: string[];
+  ulimits: string[];
+  extraHosts: string[];
+  devices: string[];
+  labels: Record<string, string>;
+  healthcheck?: ContainerHealthCheck;
+  /** Started with --rm: a one-shot job rather than a long-running container */
+  oneShot: boolean;
+  /** Flags that have no structured equivalent, as they appeared in the command */
+  unsupported: string[];
+}
+
+const BOOLEAN_FLAGS = ['--detach', '--rm', '--privileged', '--init', '--read-only', '--interactive', '--tty'];
+
+const HEALTH_FLAGS: Record<string, keyof ContainerHealthCheck> = {
+  '--health-cmd': 'command',
+  '--health-interval': 'interval',
+  '--health-timeout': 'timeout',
+  '--health-retries': 'retries',
+  '--health-start-period': 'startPeriod',
+};
+
+const FLAG_ALIASES: Record<string, string> = {
+  '-p': '--publish',
+  '-v': '--volume',
+  '-e': '--env',
+  '-u': '--user',
+  '-h': '--hostname',
+  '-w': '--workdir',
+  '-l': '--label',
+  '--net': '--network',
+};
+
+/**
+ * Parses `docker run` / `podman run` invocations out of shell command strings
+ */
+export class DockerRunParser {
+  /**
+   * Split a shell command into simple commands (separated by newlines, `;`, `&&`,
+   * `||`, `|` and `&`), each a list of unquoted words.
+   * Line continuations are joined and quotes are removed.
+   */
+  static tokenize(command: string): string[][] {
+    const segments: string[][] = [];
+    let tokens: string[] = [];
+    let current = '';
+    let inToken = false;
+
+    const endToken = () => {
+      if (inToken) {
+        tokens.push(current);
+      }
+      current = '';
+      inToken = false;
+    };
+    const endSegment = () => {
+      endToken();
+      if (tokens.length > 0) {
+        segments.push(tokens);
+      }
+      tokens = [];
+    };
+
+    const input = command.replace(/\\\r?\n/g, ' ');
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (char === "'") {
+        const end = input.indexOf("'", i + 1);
+        const stop = end === -1 ? input.length : end;
+        current += input.slice(i + 1, stop);
+        inToken = true;
+        i = stop;
+      } else if (char === '"') {
+        inToken = true;
+        for (i++; i < input.length && input[i] !== '"'; i++) {
+          if (input[i] === '\\' && i + 1 < input.length && '"\\$`'.includes(input[i + 1])) {
+            i++;
+          }
+          current += input[i];
+        }
+      } else if (char === '\\' && i + 1 < input.length) {
+        current += input[++i];
+        inToken = true;
+      } else if (char === '#' && !inToken) {
+        const end = input.indexOf('\n', i);
+        i = (end === -1 ? input.length : end) - 1;
+      } else if (char === '\n' || char === ';' || char === '|' || char === '&') {
+        // `2>&1` style redirections stay part of the word
+        if (char === '&' && current.endsWith('>')) {
+          current += char;
+          continue;
+        }
+        endSegment();
+        if ((char === '&' || char === '|') && input[i + 1] === char) {
+          i++;
+        }
+      } else if (/\s/.test(char)) {
+        endToken();
+      } else {
+        current += char;
+        inToken = true;
+      }
+    }
+    endSegment();
+
+    return segments;
+  }
+
+  /**
+   * Parse every `docker run` (or `podman run`) invocation in a command, in order
+   */
+  static parse(command: string): ContainerSpec[] {
+    const specs: ContainerSpec[] = [];
+    for (const segment of this.tokenize(command)) {
+      const start = segment.findIndex((token, i) =>
+        (token === 'docker' || token === 'podman') && segment[i + 1] === 'run');
+      if (start === -1) {
+        continue;
+      }
+      const spec = this.parseRunArgs(segment.slice(start + 2));
+      if (spec) {
+        specs.push(spec);
+      }
+    }
+    return specs;
+  }
+
+  /**
+   * Parse the arguments that follow `docker run`
+   * @returns null when no image could be found
+   */
+  static parseRunArgs(args: string[]): ContainerSpec | null {
+    const spec: ContainerSpec = {
+      image: '',
+      command: [],
+      ports: [],
+      volumes: [],
+      environment: {},
+      envFiles: [],
+      privileged: false,
+      capAdd: [],
+      ulimits: [],
+      extraHosts: [],
+      devices: [],
+      labels: {},
+      oneShot: false,
+      unsupported: [],
+    };
+
+    let i = 0;
+    for (; i < args.length; i++) {
+      const arg = args[i];
+      if (!arg.startsWith('-') || arg === '-') {
+        break;
+      }
+
+      // Combined short boolean flags (-d, -it, -dit)
+      if (/^-[dit]+$/.test(arg)) {
+        continue;
+      }
+
+      const eq = arg.indexOf('=');
+      const rawFlag = arg.startsWith('--') && eq > 0 ? arg.slice(0, eq) : arg;
+      const flag = FLAG_ALIASES[rawFlag] || rawFlag;
+
+      if (BOOLEAN_FLAGS.includes(flag)) {
+        if (flag === '--rm') spec.oneShot = true;
+        if (flag === '--privileged') spec.privileged = true;
+        continue;
+      }
+
+      let value: string;
+      if (rawFlag !== arg) {
+        value = arg.slice(eq + 1);
+      } else if (i + 1 < args.length) {
+        value = args[++i];
+      } else {
+        spec.unsupported.push(arg);
+        break;
+      }
+
+      this.applyFlag(spec, flag, value, rawFlag);
+    }
+
+    if (i >= args.length) {
+      return null;
+    }
+
+    spec.image = args[i];
+    spec.command = args.slice(i + 1).filter(token => !/^\d*>/.test(token));
+    return spec;
+  }
+
+  private static applyFlag(spec: ContainerSpec, flag: string, value: string, rawFlag: string): void {
+    switch (flag) {
+      case '--name':
+        spec.name = value;
+        break;
+      case '--publish':
+        spec.ports.push(value);
+        break;
+      case '--volume':
+        spec.volumes.push(value);
+        break;
+      case '--env': {
+        const idx = value.indexOf('=');
+        spec.environment[idx > 0 ? value.slice(0, idx) : value] = idx > 0 ? value.slice(idx + 1) : '';
+        break;
+      }
+      case '--env-file':
+        spec.envFiles.push(value);
+        break;
+      case '--network':
+        spec.network = value;
+        break;
+      case '--restart':
+        spec.restart = value;
+        break;
+      case '--user':
+        spec.user = value;
+        break;
+      case '--entrypoint':
+        spec.entrypoint = value;
+        break;
+      case '--hostname':
+        spec.hostname = value;
+        break;
+      case '--workdir':
+        spec.workdir = value;
+        break;
+      case '--cap-add':
+        spec.capAdd.push(value);
+        break;
+      case '--ulimit':
+        spec.ulimits.push(value);
+        break;
+      case '--add-host':
+        spec.extraHosts.push(value);
+        break;
+      case '--device':
+        spec.devices.push(value);
+        break;
+      case '--label': {
+        const idx = value.indexOf('=');
+        spec.labels[idx > 0 ? value.slice(0, idx) : value] = idx > 0 ? value.slice(idx + 1) : '';
+        break;
+      }
+      default: {
+        const option = HEALTH_FLAGS[flag];
+        if (!option) {
+          spec.unsupported.push(`${rawFlag} ${value}`);
+          break;
+        }
+        // Options without --health-cmd keep the command of the image (empty here)
+        spec.healthcheck = { command: '', ...spec.healthcheck, [option]: option === 'retries' ? Number(value) : value };
+      }
+    }
+  }
+}
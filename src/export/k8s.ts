@@ -0,0 +1,374 @@
+/**
+ * Kubernetes export of an installation
+ * Converts the containers of each installed service into Deployments, Services,
+ * PersistentVolumeClaims and Ingress objects for the HAL-managed k3s (k3d service)
+ */
+
+import { ServiceType } from '../core/types.js';
+import { CaddyService } from '../services/core/caddy.js';
+import { HealthChecks } from '../templates/healthcheck.js';
+import { ContainerRuntimeUtils } from '../utils/container.js';
+import { HomelabError } from '../utils/errors.js';
+import { ContainerHealthCheck, ContainerSpec } from './docker-run.js';
+import { StackExporter } from './stack.js';
+import { $ } from 'bun';
+import { writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+
+export interface K8sExport {
+  manifests: Record<string, any>[];
+  warnings: string[];
+}
+
+export interface ProxyRoute {
+  name: string;
+  subdomain: string;
+  port: number;
+  container: string;
+}
+
+interface ContainerPort {
+  containerPort: number;
+  protocol: 'TCP' | 'UDP';
+}
+
+/** Container started by the k3d service, where manifests are applied */
+export const K3D_CONTAINER = 'k3d';
+
+/** Default size requested for each PersistentVolumeClaim */
+const DEFAULT_STORAGE = '1Gi';
+
+/**
+ * Services that are not exported: Ingress replaces Caddy and k3s does not run inside itself
+ */
+const SKIPPED_SERVICES: ServiceType[] = [ServiceType.CADDY, ServiceType.K3D];
+
+/**
+ * Builds Kubernetes manifests from the installed services
+ */
+export class K8sExporter extends StackExporter {
+  /**
+   * Build the manifests for every exported container, in installation order
+   */
+  async build(): Promise<K8sExport> {
+    const warnings: string[] = [];
+    const exported = await this.collectServices(warnings);
+    const namespace = K8sExporter.toResourceName(this.config.networkName);
+    const routes = new CaddyService(this.config, this.templateEngine).getServiceProxyConfig();
+
+    const manifests: Record<string, any>[] = [
+      { apiVersion: 'v1', kind: 'Namespace', metadata: { name: namespace } },
+    ];
+    const claims = new Set<string>();
+
+    for (const { service, commands, containers, jobs, builtImages } of exported) {
+      if (SKIPPED_SERVICES.includes(service.type)) {
+        continue;
+      }
+
+      if ([...commands.setup, ...commands.postRun].some(command => /(?:docker|podman)\s+exec\b/.test(command))) {
+        warnings.push(`${service.type}: setup steps that run inside containers (database users, extensions) are not applied`);
+      }
+      for (const job of jobs) {
+        warnings.push(`${service.type}: one-shot container ${job.image} skipped`);
+      }
+
+      for (const spec of containers) {
+        const name = K8sExporter.toResourceName(spec.name!);
+        if (name !== spec.name) {
+          warnings.push(`${spec.name}: renamed to ${name}, other containers may still use the old hostname`);
+        }
+        if (builtImages.includes(spec.image)) {
+          warnings.push(`${spec.name}: ${spec.image} is built locally, import it into k3s before applying`);
+        }
+        for (const flag of spec.unsupported) {
+          warnings.push(`${spec.name}: ignored ${flag}`);
+        }
+
+        const route = routes.find(r => r.container === spec.name);
+        const ports = K8sExporter.toContainerPorts(spec.ports, route?.port);
+        const deployment = K8sExporter.toDeployment(spec, namespace, service.type, ports, warnings);
+
+        for (const volume of deployment.spec.template.spec.volumes || []) {
+          const claim = volume.persistentVolumeClaim?.claimName;
+          if (claim && !claims.has(claim)) {
+            claims.add(claim);
+            manifests.push(K8sExporter.toPersistentVolumeClaim(claim, namespace));
+          }
+        }
+
+        manifests.push(deployment);
+        if (ports.length > 0) {
+          manifests.push(K8sExporter.toService(name, namespace, ports));
+        } else {
+          warnings.push(`${spec.name}: no published ports, no Service created`);
+        }
+        if (route) {
+          manifests.push(K8sExporter.toIngress(route, name, namespace, this.getHosts(route)));
+        }
+      }
+    }
+
+    return { manifests, warnings };
+  }
+
+  /**
+   * Write all manifests to `<outputDir>/homelab.yaml`
+   * @returns Path of the written file and export warnings
+   */
+  async write(outputDir: string): Promise<{ file: string; warnings: string[] }> {
+    const { manifests, warnings } = await this.build();
+
+    await mkdir(outputDir, { recursive: true });
+    const file = join(outputDir, 'homelab.yaml');
+    const header = `# Generated by hal export k8s for ${this.config.domain}\n`;
+    await writeFile(file, header + manifests.map(m => Bun.YAML.stringify(m, null, 2)).join('\n---\n') + '\n');
+
+    return { file, warnings };
+  }
+
+  /**
+   * Apply a manifest file with the kubectl of the HAL-managed k3s container
+   * @returns kubectl output
+   */
+  async apply(file: string): Promise<string> {
+    if (!this.config.selectedServices.includes(ServiceType.K3D)) {
+      throw new HomelabError(
+        'k3d is not installed. Install it first with: hal add k3d',
+        'K3D_NOT_INSTALLED',
+        false,
+      );
+    }
+
+    const runtime = await ContainerRuntimeUtils.detectRuntime(true);
+    try {
+      const result = await $`sh -c ${`${runtime} exec -i ${K3D_CONTAINER} kubectl apply -f - < '${file.replace(/'/g, `'\\''`)}'`}`.quiet();
+      return result.stdout.toString();
+    } catch (error: any) {
+      throw new HomelabError(
+        `kubectl apply failed: ${error?.stderr?.toString() || error}`,
+        'K8S_APPLY_FAILED',
+        true,
+        { file },
+      );
+    }
+  }
+
+  /**
+   * Hostnames Caddy serves for a route (local domain and Cloudflare Tunnel domain)
+   */
+  private getHosts(route: ProxyRoute): string[] {
+    const hosts = [`${route.subdomain}.${this.config.domain}`];
+    if (this.config.tunnelDomain && this.config.tunnelDomain !== this.config.domain) {
+      hosts.push(`${route.subdomain}.${this.config.tunnelDomain}`);
+    }
+    return hosts;
+  }
+
+  /**
+   * Convert a parsed container into a single-replica Deployment.
+   * Named volumes and ~/ bind mounts become PersistentVolumeClaims, other paths hostPath volumes.
+   */
+  static toDeployment(
+    spec: ContainerSpec,
+    namespace: string,
+    serviceType: string,
+    ports: ContainerPort[],
+    warnings: string[] = [],
+  ): Record<string, any> {
+    const name = this.toResourceName(spec.name || spec.image);
+    const container: Record<string, any> = {
+      name,
+      image: spec.image,
+      imagePullPolicy: 'IfNotPresent',
+    };
+
+    if (spec.entrypoint) container.command = [spec.entrypoint];
+    if (spec.command.length > 0) container.args = spec.command;
+    if (spec.workdir) container.workingDir = spec.workdir;
+
+    const env = Object.entries(spec.environment).map(([key, value]) => ({
+      name: key,
+      // $(VAR) is expanded by Kubernetes, $$ keeps it literal
+      value: value.replace(/\$\(/g, '$$$$('),
+    }));
+    if (env.length > 0) container.env = env;
+    if (ports.length > 0) container.ports = ports;
+    if (spec.healthcheck?.command) container.readinessProbe = this.toProbe(spec.healthcheck);
+
+    const securityContext: Record<string, any> = {};
+    if (spec.privileged) securityContext.privileged = true;
+    if (spec.capAdd.length > 0) securityContext.capabilities = { add: spec.capAdd };
+    if (spec.user) {
+      const uid = spec.user === 'root' ? 0 : Number(spec.user.split(':')[0]);
+      if (Number.isInteger(uid)) {
+        securityContext.runAsUser = uid;
+      } else {
+        warnings.push(`${spec.name}: user ${spec.user} is not numeric and was ignored`);
+      }
+    }
+    if (Object.keys(securityContext).length > 0) container.securityContext = securityContext;
+
+    const volumes: Record<string, any>[] = [];
+    const mounts: Record<string, any>[] = [];
+    spec.volumes.forEach((volume, index) => {
+      const [source, target, options = ''] = volume.split(':');
+      if (!target) {
+        return;
+      }
+      const volumeName = `vol-${index}`;
+      const mount: Record<string, any> = { name: volumeName, mountPath: target };
+      if (options.split(',').includes('ro')) mount.readOnly = true;
+      mounts.push(mount);
+
+      if (/^[A-Za-z0-9][A-Za-z0-9_.-]*$/.test(source)) {
+        volumes.push({ name: volumeName, persistentVolumeClaim: { claimName: this.toResourceName(source) } });
+      } else if (source.startsWith('~/')) {
+        const claimName = this.toResourceName(`${name}-${source.split('/').filter(Boolean).pop()}`);
+        volumes.push({ name: volumeName, persistentVolumeClaim: { claimName } });
+        warnings.push(`${spec.name}: ${source} mounted from a new PersistentVolumeClaim (${claimName}), existing files are not copied`);
+      } else {
+        volumes.push({ name: volumeName, hostPath: { path: source } });
+        warnings.push(`${spec.name}: ${source} mounted as a hostPath of the k3s node`);
+      }
+    });
+    if (mounts.length > 0) container.volumeMounts = mounts;
+
+    for (const ulimit of spec.ulimits) {
+      warnings.push(`${spec.name}: ignored --ulimit ${ulimit}`);
+    }
+
+    const podSpec: Record<string, any> = { containers: [container] };
+    if (spec.network === 'host') podSpec.hostNetwork = true;
+    if (spec.hostname && /^[a-z0-9-]+$/.test(spec.hostname)) podSpec.hostname = spec.hostname;
+    if (volumes.length > 0) podSpec.volumes = volumes;
+
+    return {
+      apiVersion: 'apps/v1',
+      kind: 'Deployment',
+      metadata: { name, namespace, labels: this.labels(name, serviceType) },
+      spec: {
+        replicas: 1,
+        // Volumes are ReadWriteOnce, so never run two pods side by side
+        strategy: { type: 'Recreate' },
+        selector: { matchLabels: { 'app.kubernetes.io/name': name } },
+        template: {
+          metadata: { labels: this.labels(name, serviceType) },
+          spec: podSpec,
+        },
+      },
+    };
+  }
+
+  /**
+   * ClusterIP Service named like the container, so hostnames used between containers keep working
+   */
+  static toService(name: string, namespace: string, ports: ContainerPort[]): Record<string, any> {
+    return {
+      apiVersion: 'v1',
+      kind: 'Service',
+      metadata: { name, namespace },
+      spec: {
+        selector: { 'app.kubernetes.io/name': name },
+        ports: ports.map(port => ({
+          name: `${port.protocol.toLowerCase()}-${port.containerPort}`,
+          port: port.containerPort,
+          targetPort: port.containerPort,
+          protocol: port.protocol,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Ingress with the same subdomain and port Caddy uses for the service
+   */
+  static toIngress(route: ProxyRoute, serviceName: string, namespace: string, hosts: string[]): Record<string, any> {
+    return {
+      apiVersion: 'networking.k8s.io/v1',
+      kind: 'Ingress',
+      metadata: { name: serviceName, namespace },
+      spec: {
+        rules: hosts.map(host => ({
+          host,
+          http: {
+            paths: [{
+              path: '/',
+              pathType: 'Prefix',
+              backend: { service: { name: serviceName, port: { number: route.port } } },
+            }],
+          },
+        })),
+      },
+    };
+  }
+
+  static toPersistentVolumeClaim(name: string, namespace: string): Record<string, any> {
+    return {
+      apiVersion: 'v1',
+      kind: 'PersistentVolumeClaim',
+      metadata: { name, namespace },
+      spec: {
+        accessModes: ['ReadWriteOnce'],
+        resources: { requests: { storage: DEFAULT_STORAGE } },
+      },
+    };
+  }
+
+  /**
+   * Container ports from `-p` mappings plus the port Caddy proxies to
+   */
+  static toContainerPorts(publish: string[], proxyPort?: number): ContainerPort[] {
+    const ports: ContainerPort[] = [];
+    const add = (containerPort: number, protocol: 'TCP' | 'UDP') => {
+      if (Number.isInteger(containerPort) && !ports.some(p => p.containerPort === containerPort && p.protocol === protocol)) {
+        ports.push({ containerPort, protocol });
+      }
+    };
+
+    for (const mapping of publish) {
+      const [address, proto = 'tcp'] = mapping.split('/');
+      const containerPort = address.split(':').pop() || '';
+      // Port ranges (e.g. 8000-8010) are not supported by Services
+      if (/^\d+$/.test(containerPort)) {
+        add(Number(containerPort), proto.toLowerCase() === 'udp' ? 'UDP' : 'TCP');
+      }
+    }
+    if (proxyPort) {
+      add(proxyPort, 'TCP');
+    }
+    return ports;
+  }
+
+  /**
+   * Readiness probe running the container healthcheck (durations in whole seconds)
+   */
+  static toProbe(check: ContainerHealthCheck): Record<string, any> {
+    const seconds = (value: string) => Math.max(1, Math.ceil(HealthChecks.parseDuration(value) / 1000));
+    const probe: Record<string, any> = { exec: { command: ['sh', '-c', check.command] } };
+    if (check.interval) probe.periodSeconds = seconds(check.interval);
+    if (check.timeout) probe.timeoutSeconds = seconds(check.timeout);
+    if (check.retries) probe.failureThreshold = check.retries;
+    if (check.startPeriod) probe.initialDelaySeconds = seconds(check.startPeriod);
+    return probe;
+  }
+
+  /**
+   * Convert a container or volume name to a valid Kubernetes resource name (RFC 1123 label)
+   */
+  static toResourceName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[^a-z0-9-]/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 63) || 'hal';
+  }
+
+  private static labels(name: string, serviceType: string): Record<string, string> {
+    return {
+      'app.kubernetes.io/name': name,
+      'app.kubernetes.io/instance': serviceType,
+      'app.kubernetes.io/part-of': 'onmind-hal',
+    };
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Shared base for exporters of an installation (compose, Kubernetes)
+ * Interpolates each installed service template and parses the containers
+ * its run command starts
+ */
+
+import { HomelabConfig } from '../core/types.js';
+import { ServiceFactory } from '../services/factory.js';
+import { BaseService, InterpolatedCommands } from '../services/base.js';
+import { TemplateInspector } from '../services/inspector.js';
+import { TemplateEngine } from '../templates/engine.js';
+import { ContainerRuntimeUtils } from '../utils/container.js';
+import { ContainerSpec, DockerRunParser } from './docker-run.js';
+import { $ } from 'bun';
+
+/**
+ * A service with its interpolated commands and the containers it starts
+ */
+export interface ExportedService {
+  service: BaseService;
+  commands: InterpolatedCommands;
+  /** Long-running containers, in start order */
+  containers: ContainerSpec[];
+  /** One-shot (--rm) containers of the run command */
+  jobs: ContainerSpec[];
+  /** Image tags built locally by the install commands */
+  builtImages: string[];
+}
+
+const BUILD_TAG = /(?:docker|podman)\s+build\s+.*-t\s+(\S+)/;
+
+/**
+ * Base class for exporters working on the installed services
+ */
+export abstract class StackExporter {
+  protected config: HomelabConfig;
+  protected templateEngine: TemplateEngine;
+  protected serviceFactory: ServiceFactory;
+
+  constructor(config: HomelabConfig, templateEngine: TemplateEngine = new TemplateEngine()) {
+    this.config = config;
+    this.templateEngine = templateEngine;
+    this.serviceFactory = new ServiceFactory(templateEngine);
+  }
+
+  /**
+   * Interpolate every installed service and parse the containers its run command starts
+   */
+  protected async collectServices(warnings: string[]): Promise<ExportedService[]> {
+    const services = this.serviceFactory.getInstallationOrder(this.serviceFactory.createServices(this.config));
+    let runtime = 'docker';
+    try {
+      runtime = await ContainerRuntimeUtils.detectRuntime(true);
+    } catch {
+      // No runtime: generated secrets cannot be recovered from running containers
+    }
+
+    const result: ExportedService[] = [];
+    const seen = new Set<string>();
+    for (const service of services) {
+      if (!(service instanceof BaseService)) {
+        continue;
+      }
+
+      let template: any;
+      try {
+        template = (await this.templateEngine.load(`services/${service.type}`)).content;
+      } catch {
+        warnings.push(`${service.type}: no template found, skipped`);
+        continue;
+      }
+
+      const commands = await service.getInterpolatedCommands(await this.recoverSecrets(runtime, template));
+      const specs = DockerRunParser.parse(commands.run);
+      const containers: ContainerSpec[] = [];
+      const jobs: ContainerSpec[] = [];
+
+      for (const spec of specs) {
+        if (spec.oneShot || !spec.name) {
+          jobs.push(spec);
+        } else if (seen.has(spec.name)) {
+          // e.g. cloudflared starts the same container from either branch of an if
+          warnings.push(`${spec.name}: alternative definition in ${service.type} ignored`);
+        } else {
+          seen.add(spec.name);
+          containers.push(spec);
+        }
+      }
+
+      if (containers.length === 0) {
+        warnings.push(`${service.type}: no long-running container found in the run command`);
+      }
+
+      const builtImages = commands.install
+        .map(command => command.match(BUILD_TAG)?.[1])
+        .filter((tag): tag is string => !!tag);
+
+      result.push({ service, commands, containers, jobs, builtImages });
+    }
+    return result;
+  }
+
+  /**
+   * Reuse the ADMIN_TOKEN the running containers were started with, if any
+   */
+  protected async recoverSecrets(runtime: string, template: any): Promise<Record<string, string>> {
+    for (const container of TemplateInspector.getContainerNames(template, true)) {
+      try {
+        const output = await $`sh -c ${`${runtime} inspect --format '{{json .Config.Env}}' ${container}`}`.quiet();
+        const token = TemplateInspector.recoverAdminToken(template, JSON.parse(output.stdout.toString()));
+        if (token) {
+          return { ADMIN_TOKEN: token };
+        }
+      } catch {
+        // Container not running
+      }
+    }
+    return {};
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * systemd export of an installation
+ * Generates one unit per container (Docker) or Quadlet `.container` files (Podman)
+ * so services start at boot after the services they depend on, grouped in homelab.target
+ */
+
+import { ContainerRuntimeUtils, ContainerRuntime } from '../utils/container.js';
+import { HomelabError } from '../utils/errors.js';
+import { ContainerSpec } from './docker-run.js';
+import { StackExporter } from './stack.js';
+import { $ } from 'bun';
+import { writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { homedir } from 'os';
+
+export interface SystemdExport {
+  runtime: ContainerRuntime;
+  /** Unit file name to content, homelab.target first */
+  units: Record<string, string>;
+  /** Exported containers, in start order */
+  containers: string[];
+  warnings: string[];
+}
+
+export const HOMELAB_TARGET = 'homelab.target';
+
+/**
+ * Builds systemd units or Podman Quadlet files from the installed services
+ */
+export class SystemdExporter extends StackExporter {
+  /**
+   * Build the unit files for every exported container, in installation order
+   * @param runtime Container runtime to generate for (detected when omitted)
+   */
+  async build(runtime?: ContainerRuntime): Promise<SystemdExport> {
+    const warnings: string[] = [];
+    const selected = runtime || await ContainerRuntimeUtils.detectRuntime(true);
+    const exported = await this.collectServices(warnings);
+    const rootless = selected === 'podman' && SystemdExporter.isRootless();
+
+    const unitsByService = new Map<string, string[]>();
+    for (const entry of exported) {
+      unitsByService.set(entry.service.name, entry.containers.map(c => SystemdExporter.unitName(c.name!)));
+    }
+
+    const units: Record<string, string> = { [HOMELAB_TARGET]: SystemdExporter.toTarget(rootless) };
+    const containers: string[] = [];
+
+    for (const entry of exported) {
+      const dependencies = entry.service.dependencies.flatMap(dep => unitsByService.get(dep) || []);
+      for (const job of entry.jobs) {
+        warnings.push(`${entry.service.type}: one-shot container ${job.image} is not started at boot`);
+      }
+
+      entry.containers.forEach((spec, index) => {
+        // Containers of a multi-container template start in template order
+        const previous = index > 0 ? [SystemdExporter.unitName(entry.containers[index - 1].name!)] : [];
+        const description = `HomeLab ${entry.service.name} (${spec.name})`;
+
+        if (selected === 'podman') {
+          units[`hal-${spec.name}.container`] = SystemdExporter.toQuadlet(spec, description, dependencies, previous, entry.builtImages);
+        } else {
+          units[SystemdExporter.unitName(spec.name!)] = SystemdExporter.toDockerUnit(spec.name!, description, dependencies, previous);
+        }
+        containers.push(spec.name!);
+      });
+    }
+
+    return { runtime: selected, units, containers, warnings };
+  }
+
+  /**
+   * Write the unit files to a directory
+   * @returns Written paths and the export
+   */
+  async write(outputDir: string, runtime?: ContainerRuntime): Promise<{ files: string[]; result: SystemdExport }> {
+    const result = await this.build(runtime);
+
+    await mkdir(outputDir, { recursive: true });
+    const files: string[] = [];
+    for (const [name, content] of Object.entries(result.units)) {
+      const path = join(outputDir, name);
+      await writeFile(path, content);
+      files.push(path);
+    }
+    return { files, result };
+  }
+
+  /**
+   * Install written unit files and enable homelab.target.
+   * Docker units go to /etc/systemd/system and the containers' own restart policy is
+   * disabled so dockerd does not start them before their dependencies.
+   * Podman Quadlet files go to ~/.config/containers/systemd (rootless) or /etc/containers/systemd.
+   */
+  async install(files: string[], result: SystemdExport): Promise<void> {
+    const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+    const target = files.find(f => f.endsWith(HOMELAB_TARGET))!;
+    const units = files.filter(f => f !== target);
+
+    try {
+      if (result.runtime === 'docker') {
+        await $`sh -c ${`sudo install -m 644 ${files.map(quote).join(' ')} /etc/systemd/system/`}`.quiet();
+        await $`sh -c ${`docker update --restart=no ${result.containers.join(' ')}`}`.quiet();
+        await $`sudo systemctl daemon-reload`.quiet();
+        const names = [HOMELAB_TARGET, ...result.containers.map(c => SystemdExporter.unitName(c))];
+        await $`sh -c ${`sudo systemctl enable ${names.join(' ')}`}`.quiet();
+        console.log('   Installed units in /etc/systemd/system');
+        return;
+      }
+
+      if (SystemdExporter.isRootless()) {
+        const quadletDir = join(homedir(), '.config', 'containers', 'systemd');
+        const userDir = join(homedir(), '.config', 'systemd', 'user');
+        await mkdir(quadletDir, { recursive: true });
+        await mkdir(userDir, { recursive: true });
+        await $`sh -c ${`install -m 644 ${units.map(quote).join(' ')} ${quote(quadletDir)}`}`.quiet();
+        await $`sh -c ${`install -m 644 ${quote(target)} ${quote(userDir)}`}`.quiet();
+        await $`systemctl --user daemon-reload`.quiet();
+        await $`systemctl --user enable ${HOMELAB_TARGET}`.quiet();
+        console.log(`   Installed Quadlet files in ${quadletDir}`);
+
+        // Without lingering, user units only start once the user logs in
+        try {
+          await $`loginctl enable-linger ${process.env.USER || ''}`.quiet();
+        } catch {
+          console.log('   ⚠️  Could not enable lingering, run: sudo loginctl enable-linger $USER');
+        }
+        return;
+      }
+
+      await $`sh -c ${`sudo install -m 644 ${units.map(quote).join(' ')} /etc/containers/systemd/`}`.quiet();
+      await $`sh -c ${`sudo install -m 644 ${quote(target)} /etc/systemd/system/`}`.quiet();
+      await $`sudo systemctl daemon-reload`.quiet();
+      await $`sudo systemctl enable ${HOMELAB_TARGET}`.quiet();
+      console.log('   Installed Quadlet files in /etc/containers/systemd');
+    } catch (error: any) {
+      throw new HomelabError(
+        `Failed to install systemd units: ${error?.stderr?.toString() || error}`,
+        'SYSTEMD_INSTALL_FAILED',
+        true,
+      );
+    }
+  }
+
+  /**
+   * Unit that starts and stops an existing Docker container
+   */
+  static toDockerUnit(container: string, description: string, dependencies: string[], previous: string[] = []): string {
+    const requires = ['docker.service', ...dependencies];
+    return [
+      '[Unit]',
+      `Description=${this.escape(description)}`,
+      `Requires=${requires.join(' ')}`,
+      `After=${[...requires, ...previous].join(' ')}`,
+      `PartOf=${HOMELAB_TARGET}`,
+      '',
+      '[Service]',
+      `ExecStart=/usr/bin/docker start -a ${container}`,
+      `ExecStop=/usr/bin/docker stop ${container}`,
+      'Restart=on-failure',
+      'RestartSec=10',
+      '',
+      '[Install]',
+      `WantedBy=${HOMELAB_TARGET}`,
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Quadlet `.container` file describing the container (Podman generates the service)
+   */
+  static toQuadlet(
+    spec: ContainerSpec,
+    description: string,
+    dependencies: string[],
+    previous: string[] = [],
+    builtImages: string[] = [],
+  ): string {
+    // Locally built images keep their tag, others are fully qualified for Podman
+    const image = builtImages.includes(spec.image)
+      ? spec.image
+      : ContainerRuntimeUtils.normalizeImageName(spec.image, 'podman');
+
+    const lines = ['[Unit]', `Description=${this.escape(description)}`];
+    if (dependencies.length > 0) {
+      lines.push(`Requires=${dependencies.join(' ')}`);
+    }
+    if (dependencies.length > 0 || previous.length > 0) {
+      lines.push(`After=${[...dependencies, ...previous].join(' ')}`);
+    }
+    lines.push(`PartOf=${HOMELAB_TARGET}`, '', '[Container]', `ContainerName=${spec.name}`, `Image=${image}`);
+
+    if (spec.network) lines.push(`Network=${spec.network}`);
+    if (spec.hostname) lines.push(`HostName=${spec.hostname}`);
+    if (spec.user) lines.push(`User=${spec.user}`);
+    for (const port of spec.ports) lines.push(`PublishPort=${port}`);
+    for (const volume of spec.volumes) lines.push(`Volume=${this.escape(this.toHostPath(volume))}`);
+    for (const [key, value] of Object.entries(spec.environment)) {
+      lines.push(`Environment=${this.quote(this.escape(`${key}=${value}`))}`);
+    }
+    for (const file of spec.envFiles) lines.push(`EnvironmentFile=${this.escape(this.toHostPath(file))}`);
+    for (const cap of spec.capAdd) lines.push(`AddCapability=${cap}`);
+    for (const ulimit of spec.ulimits) lines.push(`Ulimit=${ulimit}`);
+    for (const device of spec.devices) lines.push(`AddDevice=${device}`);
+    for (const [key, value] of Object.entries(spec.labels)) {
+      lines.push(`Label=${this.quote(this.escape(`${key}=${value}`))}`);
+    }
+    if (spec.healthcheck) {
+      const { command, interval, timeout, retries, startPeriod } = spec.healthcheck;
+      if (command) lines.push(`HealthCmd=${this.escape(command)}`);
+      if (interval) lines.push(`HealthInterval=${interval}`);
+      if (timeout) lines.push(`HealthTimeout=${timeout}`);
+      if (retries) lines.push(`HealthRetries=${retries}`);
+      if (startPeriod) lines.push(`HealthStartPeriod=${startPeriod}`);
+    }
+
+    const podmanArgs: string[] = [];
+    if (spec.privileged) podmanArgs.push('--privileged');
+    if (spec.entrypoint) podmanArgs.push(`--entrypoint=${spec.entrypoint}`);
+    if (spec.workdir) podmanArgs.push(`--workdir=${spec.workdir}`);
+    for (const host of spec.extraHosts) podmanArgs.push(`--add-host=${host}`);
+    for (const flag of spec.unsupported) podmanArgs.push(...flag.split(' '));
+    if (podmanArgs.length > 0) {
+      lines.push(`PodmanArgs=${podmanArgs.map(arg => this.quote(this.escapeCommand(arg))).join(' ')}`);
+    }
+    if (spec.command.length > 0) {
+      lines.push(`Exec=${spec.command.map(arg => this.quote(this.escapeCommand(arg))).join(' ')}`);
+    }
+
+    lines.push(
+      '',
+      '[Service]',
+      'Restart=always',
+      // First start may pull the image
+      'TimeoutStartSec=900',
+      '',
+      '[Install]',
+      `WantedBy=${HOMELAB_TARGET}`,
+      '',
+    );
+    return lines.join('\n');
+  }
+
+  /**
+   * Target grouping every HomeLab unit
+   */
+  static toTarget(rootless: boolean = false): string {
+    return [
+      '[Unit]',
+      'Description=OnMind-HAL HomeLab services',
+      'Wants=network-online.target',
+      'After=network-online.target',
+      '',
+      '[Install]',
+      `WantedBy=${rootless ? 'default.target' : 'multi-user.target'}`,
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Unit name for a container (Quadlet `hal-<name>.container` files generate the same name)
+   */
+  static unitName(container: string): string {
+    return `hal-${container}.service`;
+  }
+
+  private static isRootless(): boolean {
+    return typeof process.getuid === 'function' && process.getuid() !== 0;
+  }
+
+  /**
+   * Escape systemd specifiers (`%`)
+   */
+  private static escape(value: string): string {
+    return value.replace(/%/g, '%%');
+  }
+
+  /**
+   * Escape specifiers and variable expansion for command lines (Exec=, PodmanArgs=)
+   */
+  private static escapeCommand(value: string): string {
+    return this.escape(value).replace(/\$/g, '$$$$');
+  }
+
+  /**
+   * Quote a value that contains whitespace, quotes or backslashes
+   */
+  private static quote(value: string): string {
+    if (!/[\s"'\\]/.test(value)) {
+      return value;
+    }
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+
+  /**
+   * Expand a leading `~` in a bind mount (units do not run in the user's shell)
+   */
+  private static toHostPath(path: string): string {
+    return path.startsWith('~/') ? join(homedir(), path.slice(2)) : path;
+  }
+}
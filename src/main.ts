@@ -8,6 +8,10 @@
  */
 
 import { CLIInterface } from './cli/interface.js';
+import { parseArgs } from './cli/args.js';
+import { runCommand } from './cli/commands/index.js';
+import { DryRun } from './utils/dryrun.js';
+import { InstallRollback } from './utils/rollback.js';
 import { HomelabApplication } from './core/application.js';
 import { ErrorHandler } from './utils/errors.js';
 import { logger } from './utils/logger.js';
@@ -17,26 +21,51 @@ import { logger } from './utils/logger.js';
  */
 async function main(): Promise<void> {
   const errorHandler = ErrorHandler.getInstance();
+
+  // Subcommands (add, remove, status, ...) operate on an existing installation
+  const args = parseArgs(Bun.argv);
+  if (args.noRollback) {
+    InstallRollback.disable();
+  }
+
+  if (args.command) {
+    try {
+      await runCommand(args);
+      process.exit();
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  }
   
+  if (args.dryRun) {
+    DryRun.enable();
+  }
+
   try {
     // Display welcome banner
     console.log('🏠 Welcome to OnMind-HAL (Home Apps Labs)');
     console.log('=========================================');
     console.log('');
     
-    // Verify sudo access
-    console.log('⚠️  This script requires sudo privileges for installation.');
-    console.log('   It is convenient to run first: sudo -v');
-    console.log('');
-    
-    // Test sudo access
-    try {
-      await Bun.spawn(['sudo', '-n', 'true'], { stdout: 'ignore', stderr: 'ignore' }).exited;
-      console.log('✅ Sudo access verified.');
-    } catch {
-      console.log('⚠️  Sudo access not cached. You will be prompted for password during installation.');
+    if (args.dryRun) {
+      console.log('📝 Dry run: nothing will be installed or changed on this host.');
+      console.log('');
+    } else {
+      // Verify sudo access
+      console.log('⚠️  This script requires sudo privileges for installation.');
+      console.log('   It is convenient to run first: sudo -v');
+      console.log('');
+
+      // Test sudo access
+      try {
+        await Bun.spawn(['sudo', '-n', 'true'], { stdout: 'ignore', stderr: 'ignore' }).exited;
+        console.log('✅ Sudo access verified.');
+      } catch {
+        console.log('⚠️  Sudo access not cached. You will be prompted for password during installation.');
+      }
+      console.log('');
     }
-    console.log('');
     
     logger.info('Starting HomeLab Tool...');
     
@@ -51,9 +80,22 @@ async function main(): Promise<void> {
 
     // Set the collected configuration to the application
     app.setConfig(config);
+    if (args.parallel) {
+      app.setParallel(args.parallel);
+    }
+    if (args.force) {
+      app.setForce(true);
+    }
+    if (args.autoPorts) {
+      app.setAutoPorts(true);
+    }
 
     // Run the main application workflow
     await app.run();
+
+    if (args.dryRun) {
+      return;
+    }
     
     logger.info('OnMind-HAL has finished successfully! 🎉');
     console.log('');
@@ -109,6 +151,8 @@ process.on('SIGINT', async () => {
   if (errorHandler.getRecoveryManager().hasActions()) {
     console.log('🔄 Cleaning up...');
     await errorHandler.getRecoveryManager().executeRollback();
+  } else if (InstallRollback.isDisabled()) {
+    console.log('⚠️  Rollback disabled (--no-rollback), partial installation kept');
   }
   
   console.log('👋 Goodbye!');
@@ -1,10 +1,26 @@
 import { Service, ServiceType, HomelabConfig } from '../core/types.js';
 import { ServiceInstallationError } from '../utils/errors.js';
 import { TemplateEngine } from '../templates/engine.js';
+import { HealthChecks } from '../templates/healthcheck.js';
 import { ContainerRuntimeUtils } from '../utils/container.js';
+import { TemplateInspector } from './inspector.js';
+import { DryRun } from '../utils/dryrun.js';
+import { InstallRollback } from '../utils/rollback.js';
+import { DockerRunParser } from '../export/docker-run.js';
+import { CredentialStore, SECRET_REFERENCE, LEGACY_PASSWORD_VARIABLES } from '../utils/credentials.js';
 import { $ } from 'bun';
 import { join } from 'path';
 
+/**
+ * Template commands after variable interpolation
+ */
+export interface InterpolatedCommands {
+  install: string[];
+  setup: string[];
+  run: string;
+  postRun: string[];
+}
+
 /**
  * Abstract base class for all HomeLab services
  * Provides common functionality for service installation and configuration
@@ -20,6 +36,7 @@ export abstract class BaseService implements Service {
   protected serviceTemplate: any;
   private installationFailed: boolean = false;
   private localImages: Set<string> = new Set();
+  private contextOverrides: Record<string, string> = {};
 
   constructor(
     name: string,
@@ -33,7 +50,9 @@ export abstract class BaseService implements Service {
     this.type = type;
     this.isCore = isCore;
     this.dependencies = dependencies;
-    this.config = config;
+    // A per-service data path replaces DATA_PATH for this service only
+    const dataPath = config.serviceOverrides?.[type]?.dataPath;
+    this.config = dataPath ? { ...config, dataPath } : config;
     this.templateEngine = templateEngine;
   }
 
@@ -70,6 +89,13 @@ export abstract class BaseService implements Service {
     };
   }
 
+  /**
+   * Value of a {{SECRET:service.role}} reference (the shared password in legacy mode)
+   */
+  protected getSecret(key: string): string {
+    return CredentialStore.resolve(this.config, key);
+  }
+
   /**
    * Generate a secure admin token for services that need it
    */
@@ -86,14 +112,13 @@ export abstract class BaseService implements Service {
    * Execute shell commands with error handling
    */
   protected async executeCommands(commands: string[]): Promise<void> {
-    const context = this.getTemplateContext();
+    const context = { ...this.getTemplateContext(), ...this.contextOverrides };
     context['DOCKER_SOCKET_PATH'] = await ContainerRuntimeUtils.getSocketPath();
     
     for (const command of commands) {
       let interpolatedCommand = command;
       try {
-        // Interpolate variables in command
-        interpolatedCommand = this.interpolateCommand(command, context);
+        interpolatedCommand = this.prepareCommand(command, context);
         
         // Process container commands for Docker/Podman compatibility
         if (interpolatedCommand.includes('docker ')) {
@@ -118,7 +143,15 @@ export abstract class BaseService implements Service {
           }
         }
         
+        if (DryRun.isEnabled()) {
+          DryRun.recordCommand(interpolatedCommand, this.name);
+          continue;
+        }
+
         console.log(`Executing: ${interpolatedCommand}`);
+
+        // Containers, volumes and directories this command creates are undone on rollback
+        const undo = await InstallRollback.planCommand(interpolatedCommand);
         
         // Use sh -c to properly handle complex commands with pipes, redirects, etc.
         const result = await $`sh -c ${interpolatedCommand}`.quiet();
@@ -127,6 +160,7 @@ export abstract class BaseService implements Service {
           console.log(`❌ Error: ${errorMsg}`);
           throw new Error(`Command failed with exit code ${result.exitCode}: ${errorMsg}`);
         }
+        InstallRollback.register(undo);
       } catch (error) {
         // Check for container runtime issues (both Docker and Podman)
         const isContainerCommand = interpolatedCommand.includes('pull') ||
@@ -190,7 +224,17 @@ export abstract class BaseService implements Service {
    * Interpolate variables in command string
    */
   private interpolateCommand(command: string, context: Record<string, any>): string {
-    return command.replace(/\{\{(\w+)\}\}/g, (match, variableName) => {
+    return command.replace(/\{\{(?:SECRET:([^}]+)|(\w+))\}\}/g, (match, secret: string | undefined, variableName: string) => {
+      if (secret) {
+        if (!new RegExp(`^${SECRET_REFERENCE.source}$`).test(match)) {
+          throw new ServiceInstallationError(this.type, `Invalid secret reference ${match} (expected {{SECRET:service.role}})`);
+        }
+        return this.getSecret(secret);
+      }
+      // Older templates use the shared password; with a credential store it is per service
+      if (this.config.credentials && LEGACY_PASSWORD_VARIABLES.includes(variableName)) {
+        return this.getSecret(`${this.type}.password`);
+      }
       const value = context[variableName];
       if (value === undefined || value === null) {
         throw new ServiceInstallationError(
@@ -202,6 +246,62 @@ export abstract class BaseService implements Service {
     });
   }
 
+  /**
+   * Apply the hal.yml overrides of this service to an interpolated command:
+   * the image tag of the main container (first `docker run` of the template) wherever
+   * it appears, and extra environment variables and the host port on its run command
+   */
+  private applyOverrides(command: string): string {
+    const override = this.config.serviceOverrides?.[this.type];
+    const main = this.serviceTemplate?.commands?.run
+      ? DockerRunParser.parse(this.serviceTemplate.commands.run)[0]
+      : undefined;
+    if (!override || !main) {
+      return command;
+    }
+
+    if (override.tag) {
+      const repository = main.image.replace(/@.*$/, '').replace(/:[^:/]+$/, '');
+      const image = new RegExp(`(^|\\s)${main.image.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=\\s|$)`, 'g');
+      command = command.replace(image, `$1${repository}:${override.tag}`);
+    }
+
+    const isMainRun = DockerRunParser.parse(command).some(spec => spec.name && spec.name === main.name);
+    if (!isMainRun) {
+      return command;
+    }
+
+    // Host port of the first published port of the main container
+    const hostPort = main.ports[0]?.split(':').slice(-2, -1)[0];
+    if (override.port && hostPort) {
+      command = command.replace(
+        new RegExp(`((?:-p|--publish)(?:\\s+|=)(?:\\d{1,3}(?:\\.\\d{1,3}){3}:)?)${hostPort}(?=:)`),
+        `$1${override.port}`,
+      );
+    }
+
+    const env = Object.entries(override.env || {});
+    if (env.length > 0) {
+      const flags = env.map(([key, value]) => `-e '${`${key}=${value}`.replace(/'/g, `'\\''`)}'`).join(' ');
+      command = command.replace(new RegExp(`--name(?:\\s+|=)${main.name}(?=\\s)`), `$& ${flags}`);
+    }
+
+    return command;
+  }
+
+  /**
+   * Publish the host ports reassigned by --auto-ports (any command of this service)
+   */
+  private applyPortMappings(command: string): string {
+    for (const [original, port] of Object.entries(this.config.portMappings?.[this.type] || {})) {
+      command = command.replace(
+        new RegExp(`((?:-p|--publish)(?:\\s+|=)(?:\\d{1,3}(?:\\.\\d{1,3}){3}:|\\[[^\\]]*\\]:)?)${original}(?=:)`, 'g'),
+        `$1${port}`,
+      );
+    }
+    return command;
+  }
+
   /**
    * Check if container already exists
    */
@@ -233,6 +333,10 @@ export abstract class BaseService implements Service {
       const containers = output.split('\n');
       const staleContainer = containers.find(name => name === this.type || name.startsWith(this.type + '-'));
       if (staleContainer) {
+        if (DryRun.isEnabled()) {
+          DryRun.recordCommand(`${runtime} rm -f ${staleContainer}`, this.name);
+          return;
+        }
         console.log(`🧹 Removing stale container: ${staleContainer}`);
         await $`sh -c "${runtime} rm -f ${staleContainer}"`.quiet();
       }
@@ -291,7 +395,7 @@ export abstract class BaseService implements Service {
       '--name', '-v', '--volume', '-p', '--publish',
       '--network', '--restart', '--label', '-l', '--mount',
       '--user', '-u', '-w', '--workdir', '--entrypoint',
-      '--health-cmd', '--health-interval', '--health-retries', '--health-timeout',
+      '--health-cmd', '--health-interval', '--health-retries', '--health-timeout', '--health-start-period',
       '--cpus', '--memory', '-m', '--dns', '--ip', '--ip6',
       '--log-driver', '--log-opt', '--pid', '--privileged',
       '--security-opt', '--sysctl', '--shm-size', '--tmpfs',
@@ -312,7 +416,7 @@ export abstract class BaseService implements Service {
         if (!tok) { i++; continue; }
 
         // Flags like -e / --env: value extends to end of line (may contain spaces)
-        if (tok === '-e' || tok === '--env' || tok === '--env-file') {
+        if (tok === '-e' || tok === '--env' || tok === '--env-file' || tok === '--health-cmd') {
           break; // skip rest of this line, move to next
         }
 
@@ -417,6 +521,7 @@ export abstract class BaseService implements Service {
       if (this.serviceTemplate.commands?.run) {
         await this.executeCommands([this.serviceTemplate.commands.run]);
       }
+      await this.waitForHealthCheck();
 
       // Execute post-run commands (health checks, additional setup after container starts)
       // Post-run failures are non-fatal - the container is already running
@@ -438,6 +543,93 @@ export abstract class BaseService implements Service {
     }
   }
 
+  /**
+   * Recreate the containers started by the run commands (e.g. after pulling a newer image)
+   * Install and setup commands are not replayed and config files are left untouched
+   * @param contextOverrides Template variables to reuse instead of generating new ones (e.g. ADMIN_TOKEN)
+   */
+  async recreate(contextOverrides: Record<string, string> = {}): Promise<void> {
+    if (!this.serviceTemplate) {
+      await this.loadServiceTemplate();
+    }
+
+    const runtime = await ContainerRuntimeUtils.detectRuntime();
+    for (const container of TemplateInspector.getContainerNames(this.serviceTemplate, true)) {
+      await $`sh -c ${`${runtime} rm -f ${container} 2>/dev/null || true`}`.quiet();
+    }
+
+    this.contextOverrides = contextOverrides;
+    this.installationFailed = false;
+    try {
+      if (this.serviceTemplate.commands?.run) {
+        await this.executeCommands([this.serviceTemplate.commands.run]);
+      }
+      if (this.installationFailed) {
+        throw new ServiceInstallationError(this.type, 'Container could not be recreated');
+      }
+      await this.waitForHealthCheck();
+
+      if (this.serviceTemplate.commands?.postRun) {
+        try {
+          await this.executeCommands(this.serviceTemplate.commands.postRun);
+        } catch (error) {
+          console.log(`⚠️  Post-run setup for ${this.name} failed: ${error}`);
+        }
+      }
+    } finally {
+      this.contextOverrides = {};
+    }
+  }
+
+  /**
+   * Wait for the container of the template healthcheck, so post-run commands can use it
+   */
+  private async waitForHealthCheck(): Promise<void> {
+    const check = HealthChecks.fromTemplate(this.serviceTemplate);
+    const container = check && HealthChecks.getContainer(this.serviceTemplate, check);
+    if (!check || !container || this.installationFailed || DryRun.isEnabled()) {
+      return;
+    }
+
+    console.log(`⏳ Waiting for ${container} to be healthy...`);
+    const probe = HealthChecks.getProbe(this.serviceTemplate, check);
+    if (!(await ContainerRuntimeUtils.waitForHealthy(container, HealthChecks.getTimeoutMs(check), probe))) {
+      throw new ServiceInstallationError(this.type, `${container} did not become healthy`);
+    }
+  }
+
+  /**
+   * Get the template commands with variables interpolated, without executing them
+   * @param contextOverrides Template variables to reuse instead of generating new ones (e.g. ADMIN_TOKEN)
+   */
+  async getInterpolatedCommands(contextOverrides: Record<string, string> = {}): Promise<InterpolatedCommands> {
+    if (!this.serviceTemplate) {
+      await this.loadServiceTemplate();
+    }
+
+    const context = { ...this.getTemplateContext(), ...contextOverrides };
+    context['DOCKER_SOCKET_PATH'] = await ContainerRuntimeUtils.getSocketPath();
+    const commands = this.serviceTemplate.commands || {};
+    const interpolate = (list: string[] = []) => list.map(command => this.prepareCommand(command, context));
+
+    return {
+      install: interpolate(commands.install),
+      setup: interpolate(commands.setup),
+      run: commands.run ? this.prepareCommand(commands.run, context) : '',
+      postRun: interpolate(commands.postRun),
+    };
+  }
+
+  /**
+   * Template command as it runs: healthcheck flags added, variables interpolated
+   * (after adding the healthcheck, which may use them), overrides and port mappings applied.
+   * Shared by installation and export so both create the same containers
+   */
+  private prepareCommand(command: string, context: Record<string, any>): string {
+    const withHealthCheck = HealthChecks.apply(command, this.serviceTemplate);
+    return this.applyPortMappings(this.applyOverrides(this.interpolateCommand(withHealthCheck, context)));
+  }
+
   /**
    * Get the access URL for the service
    */
@@ -447,7 +639,11 @@ export abstract class BaseService implements Service {
     }
 
     const context = this.getTemplateContext();
-    return this.interpolateCommand(this.serviceTemplate.accessUrl, context);
+    let url = this.interpolateCommand(this.serviceTemplate.accessUrl, context);
+    for (const [original, port] of Object.entries(this.config.portMappings?.[this.type] || {})) {
+      url = url.replace(new RegExp(`:${original}(?=[/?#]|$)`), `:${port}`);
+    }
+    return url;
   }
 
   /**
@@ -498,7 +694,7 @@ export abstract class BaseService implements Service {
           const portCheck = await $`lsof -i :${hostPort}`.quiet();
           if (portCheck.stdout.toString().trim()) {
             console.log(`❌ Port ${hostPort} is already in use`);
-            console.log(`💡 Try a different port or stop the conflicting service`);
+            console.log(`💡 Stop the conflicting service or run again with --auto-ports to reassign it`);
             return;
           }
         } catch {
@@ -571,7 +767,7 @@ export abstract class BaseService implements Service {
         // Check for port conflicts
         const portMatches = command.match(/-p\s+(\d+):/g);
         if (portMatches) {
-          console.log(`💡 Check if ports are available: ${portMatches.join(', ')}`);
+          console.log(`💡 Check if ports are available: ${portMatches.join(', ')} (--auto-ports reassigns taken ports)`);
         }
       }
     } catch (diagError) {
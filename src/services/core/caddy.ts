@@ -1,7 +1,7 @@
 import { ServiceType, HomelabConfig } from '../../core/types.js';
 import { TemplateEngine } from '../../templates/engine.js';
 import { BaseService } from '../base.js';
-import { writeFile, mkdir } from 'fs/promises';
+import { writeFile, mkdir } from '../../utils/dryrun.js';
 import { NetworkUtils } from '../../utils/network.js';
 import { join } from 'path';
 
@@ -139,7 +139,7 @@ export class CaddyService extends BaseService {
   /**
    * Get proxy configuration for selected services
    */
-  private getServiceProxyConfig(): Array<{name: string, subdomain: string, port: number, container: string}> {
+  getServiceProxyConfig(): Array<{name: string, subdomain: string, port: number, container: string}> {
     const serviceProxyMap = {
       // Core services (always installed)
       [ServiceType.DOCKHAND]: { subdomain: 'dockhand', port: 3000, container: 'dockhand' },
@@ -567,6 +567,34 @@ export class ServiceFactory {
     return ordered;
   }
 
+  /**
+   * Group services into dependency levels: every service only depends on services
+   * in earlier levels, so services within a level can be installed concurrently.
+   * Core services keep their own leading levels, as in getInstallationOrder.
+   * @param ordered Services in installation order (see getInstallationOrder)
+   * @returns Levels in installation order, each in installation order
+   */
+  static getInstallationLevels(ordered: Service[]): Service[][] {
+    const depth = new Map<string, number>();
+
+    const group = (subset: Service[]): Service[][] => {
+      const levels: Service[][] = [];
+      for (const service of subset) {
+        const level = service.dependencies
+          .filter(dep => subset.some(s => s.name === dep))
+          .reduce((max, dep) => Math.max(max, (depth.get(dep) ?? -1) + 1), 0);
+        depth.set(service.name, level);
+        (levels[level] ||= []).push(service);
+      }
+      return levels;
+    };
+
+    return [
+      ...group(ordered.filter(s => s.isCore)),
+      ...group(ordered.filter(s => !s.isCore)),
+    ];
+  }
+
   /**
    * Resolve dependencies for a service
    * @param serviceType Service type to resolve dependencies for
@@ -588,6 +616,31 @@ export class ServiceFactory {
     return dependencies;
   }
 
+  /**
+   * Expand service types with their transitive dependencies
+   * @param serviceTypes Service types to expand
+   * @param config HomeLab configuration
+   * @returns Requested service types followed by any dependency not already listed
+   */
+  resolveDependencyClosure(serviceTypes: ServiceType[], config: HomelabConfig): ServiceType[] {
+    const resolved: ServiceType[] = [];
+    const pending = [...serviceTypes];
+
+    while (pending.length > 0) {
+      const serviceType = pending.shift()!;
+      if (resolved.includes(serviceType)) {
+        continue;
+      }
+      resolved.push(serviceType);
+
+      for (const dependency of this.resolveDependencies(serviceType, config)) {
+        pending.push(dependency.type);
+      }
+    }
+
+    return resolved;
+  }
+
   /**
    * Get core services that are always installed
    * @returns Array of core service types
@@ -723,11 +776,12 @@ export class ServiceFactory {
    */
   validateConfiguration(config: HomelabConfig): void {
     // Check if PostgreSQL, MariaDB, MongoDB, or OpenSearch is selected but password is not provided
+    // (shared password mode only; with a credential store the passwords are generated)
     if (config.selectedServices.includes(ServiceType.POSTGRESQL) || 
         config.selectedServices.includes(ServiceType.MARIADB) || 
         config.selectedServices.includes(ServiceType.MONGODB) ||
         config.selectedServices.includes(ServiceType.OPENSEARCH)) {
-      if (!config.storagePassword || config.storagePassword.trim() === '') {
+      if (!config.credentials && (!config.storagePassword || config.storagePassword.trim() === '')) {
         throw new ServiceInstallationError(
           ServiceType.CADDY, // Use a generic service type for this combined error
           'Database service (PostgreSQL, MariaDB, MongoDB, or OpenSearch) is selected but no database password is provided in configuration'
@@ -0,0 +1,85 @@
+/**
+ * Service template inspection helpers
+ * Extracts the runtime resources a template creates (containers, volumes)
+ * so they can be managed after installation
+ */
+export class TemplateInspector {
+  /**
+   * Get every shell command declared by a template, in execution order
+   */
+  static getCommands(template: any): string[] {
+    const commands = template?.commands || {};
+    return [
+      ...(commands.install || []),
+      ...(commands.setup || []),
+      ...(commands.run ? [commands.run] : []),
+      ...(commands.postRun || []),
+    ].filter((c: unknown): c is string => typeof c === 'string');
+  }
+
+  /**
+   * Get the commands that start containers after setup (run and postRun)
+   */
+  static getRunCommands(template: any): string[] {
+    const commands = template?.commands || {};
+    return [
+      ...(commands.run ? [commands.run] : []),
+      ...(commands.postRun || []),
+    ].filter((c: unknown): c is string => typeof c === 'string');
+  }
+
+  /**
+   * Get container names started by the template (`--name <container>`)
+   * @param runOnly Only consider run and postRun commands
+   */
+  static getContainerNames(template: any, runOnly: boolean = false): string[] {
+    const names = new Set<string>();
+    const commands = runOnly ? this.getRunCommands(template) : this.getCommands(template);
+    for (const command of commands) {
+      for (const match of command.matchAll(/--name[\s=]+([A-Za-z0-9][A-Za-z0-9_.-]*)/g)) {
+        names.add(match[1]);
+      }
+    }
+    return Array.from(names);
+  }
+
+  /**
+   * Get named volumes used by the template (`volume create` and `-v name:/path`)
+   * Bind mounts (paths starting with ~, / or a variable) are not included
+   */
+  static getVolumeNames(template: any): string[] {
+    const names = new Set<string>();
+    for (const command of this.getCommands(template)) {
+      for (const match of command.matchAll(/volume\s+create\s+([A-Za-z0-9][A-Za-z0-9_.-]*)/g)) {
+        names.add(match[1]);
+      }
+      for (const match of command.matchAll(/(?:-v|--volume)\s+([A-Za-z0-9][A-Za-z0-9_.-]*):\//g)) {
+        names.add(match[1]);
+      }
+    }
+    return Array.from(names);
+  }
+
+  /**
+   * Recover the ADMIN_TOKEN a container was started with from its environment,
+   * using the `-e NAME={{ADMIN_TOKEN}}` mappings of the template commands
+   */
+  static recoverAdminToken(template: any, env: string[]): string | undefined {
+    const values = new Map<string, string>();
+    for (const entry of env) {
+      const idx = entry.indexOf('=');
+      if (idx > 0) values.set(entry.slice(0, idx), entry.slice(idx + 1));
+    }
+
+    for (const command of this.getCommands(template)) {
+      for (const match of command.matchAll(/(?:-e|--env)\s+(\w+)=((?:\{\{ADMIN_TOKEN\}\})+)(?=\s|$)/g)) {
+        const value = values.get(match[1]);
+        const repeat = match[2].length / '{{ADMIN_TOKEN}}'.length;
+        if (value && value.length % repeat === 0) {
+          return value.slice(0, value.length / repeat);
+        }
+      }
+    }
+    return undefined;
+  }
+}
@@ -19,7 +19,7 @@ export class AutheliaService extends BaseService {
 
   protected async generateConfigFiles(): Promise<void> {
     try {
-      const { writeFile, mkdir } = await import('fs/promises');
+      const { writeFile, mkdir } = await import('../../utils/dryrun.js');
       const { join } = await import('path');
       const homeDir = process.env.HOME || process.env.USERPROFILE || '~';
       const configDir = join(homeDir, this.config.dataPath, 'authelia', 'config');
@@ -1,7 +1,8 @@
 import { ServiceType, HomelabConfig } from '../../core/types.js';
 import { TemplateEngine } from '../../templates/engine.js';
 import { BaseService } from '../base.js';
-import { writeFile, mkdir } from 'fs/promises';
+import { readFile } from 'fs/promises';
+import { writeFile, mkdir } from '../../utils/dryrun.js';
 import { join } from 'path';
 
 export class CloudflaredService extends BaseService {
@@ -19,13 +20,10 @@ export class CloudflaredService extends BaseService {
   protected async generateConfigFiles(): Promise<void> {
     try {
       const homeDir = process.env.HOME || process.env.USERPROFILE || '~';
-      const configDir = join(homeDir, this.config.configPath, 'cloudflared');
+      const configPath = join(homeDir, this.config.configPath, 'cloudflared', 'config.yml');
 
-      await mkdir(configDir, { recursive: true });
-
-      const configContent = this.generateConfigYml();
-      const configPath = join(configDir, 'config.yml');
-      await writeFile(configPath, configContent);
+      // A tunnel already configured (reinstall, migrated host) is kept
+      await this.regenerateConfigFiles();
 
       console.log(`Generated cloudflared config at ${configPath}`);
     } catch (error) {
@@ -33,6 +31,35 @@ export class CloudflaredService extends BaseService {
     }
   }
 
+  /**
+   * Rewrite config.yml ingress rules for the current service selection,
+   * keeping the tunnel ID and credentials of an already configured tunnel
+   */
+  async regenerateConfigFiles(): Promise<void> {
+    const homeDir = process.env.HOME || process.env.USERPROFILE || '~';
+    const configPath = join(homeDir, this.config.configPath, 'cloudflared', 'config.yml');
+
+    let existing = '';
+    try {
+      existing = await readFile(configPath, 'utf-8');
+    } catch {
+      // No config yet, generate a fresh one
+    }
+
+    let content = this.generateConfigYml();
+    const tunnelLine = existing.match(/^tunnel: .*/m);
+    if (tunnelLine && !tunnelLine[0].includes('TUNNEL_ID')) {
+      content = content.replace(/^tunnel: .*/m, tunnelLine[0]);
+      const credentialsLine = existing.match(/^credentials-file: .*/m);
+      if (credentialsLine) {
+        content = content.replace(/^credentials-file: .*/m, credentialsLine[0]);
+      }
+    }
+
+    await mkdir(join(homeDir, this.config.configPath, 'cloudflared'), { recursive: true });
+    await writeFile(configPath, content);
+  }
+
   private generateConfigYml(): string {
     const tunnelDomain = this.config.tunnelDomain || this.config.domain;
     const routes = this.getServiceRoutes();
@@ -59,7 +86,10 @@ export class CloudflaredService extends BaseService {
     return content;
   }
 
-  private getServiceRoutes(): Array<{ hostname: string }> {
+  /**
+   * Get ingress hostnames for the selected services
+   */
+  getServiceRoutes(): Array<{ hostname: string }> {
     const tunnelDomain = this.config.tunnelDomain || this.config.domain;
 
     const serviceProxyMap: Record<string, string> = {
@@ -1,7 +1,7 @@
 import { ServiceType, HomelabConfig } from '../../core/types.js';
 import { TemplateEngine } from '../../templates/engine.js';
 import { BaseService } from '../base.js';
-import { writeFile, mkdir } from 'fs/promises';
+import { writeFile, mkdir } from '../../utils/dryrun.js';
 import { join } from 'path';
 
 /**
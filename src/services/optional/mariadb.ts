@@ -24,7 +24,8 @@ export class MariaDBService extends BaseService {
    */
   async install(): Promise<void> {
     // Validate that mariadb password is set
-    if (!this.config.storagePassword || this.config.storagePassword.trim() === '') {
+    // With a credential store the password is generated
+    if (!this.config.credentials && (!this.config.storagePassword || this.config.storagePassword.trim() === '')) {
       throw new ServiceInstallationError(
         ServiceType.MARIADB,
         'MariaDB password is required but not provided in configuration'
@@ -47,10 +48,11 @@ export class MariaDBService extends BaseService {
    * Get MariaDB connection URL
    */
   getAccessUrl(): string {
-    if (!this.config.storagePassword) {
+    const password = this.getSecret('mariadb.user');
+    if (!password) {
       return 'mysql://homelab:PASSWORD_NOT_SET@' + this.config.ip + ':3306/homelab';
     }
-    return `mysql://homelab:${this.config.storagePassword}@${this.config.ip}:3306/homelab`;
+    return `mysql://homelab:${password}@${this.config.ip}:3306/homelab`;
   }
 
   /**
@@ -59,7 +61,7 @@ export class MariaDBService extends BaseService {
   protected getTemplateContext(): Record<string, any> {
     const context = super.getTemplateContext();
     
-    if (!this.config.storagePassword) {
+    if (!this.config.credentials && !this.config.storagePassword) {
       throw new ServiceInstallationError(
         ServiceType.MARIADB,
         'MariaDB password is required for template rendering'
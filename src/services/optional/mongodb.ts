@@ -30,9 +30,10 @@ export class MongoDBService extends BaseService {
    * Get MongoDB connection URL
    */
   getAccessUrl(): string {
-    if (!this.config.storagePassword) {
+    const password = this.getSecret('mongodb.root');
+    if (!password) {
       return `mongodb://admin:PASSWORD_NOT_SET@${this.config.ip}:27017/admin`;
     }
-    return `mongodb://admin:${this.config.storagePassword}@${this.config.ip}:27017/admin`;
+    return `mongodb://admin:${password}@${this.config.ip}:27017/admin`;
   }
 }
\ No newline at end of file
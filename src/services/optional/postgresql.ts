@@ -24,7 +24,8 @@ export class PostgreSQLService extends BaseService {
    */
   async install(): Promise<void> {
     // Validate that postgres password is set
-    if (!this.config.storagePassword || this.config.storagePassword.trim() === '') {
+    // With a credential store the password is generated
+    if (!this.config.credentials && (!this.config.storagePassword || this.config.storagePassword.trim() === '')) {
       throw new ServiceInstallationError(
         ServiceType.POSTGRESQL,
         'PostgreSQL password is required but not provided in configuration'
@@ -47,10 +48,11 @@ export class PostgreSQLService extends BaseService {
    * Get PostgreSQL connection URL
    */
   getAccessUrl(): string {
-    if (!this.config.storagePassword) {
+    const password = this.getSecret('postgresql.root');
+    if (!password) {
       return 'postgresql://homelab:PASSWORD_NOT_SET@' + this.config.ip + ':5432/homelab';
     }
-    return `postgresql://homelab:${this.config.storagePassword}@${this.config.ip}:5432/homelab`;
+    return `postgresql://homelab:${password}@${this.config.ip}:5432/homelab`;
   }
 
   /**
@@ -59,7 +61,7 @@ export class PostgreSQLService extends BaseService {
   protected getTemplateContext(): Record<string, any> {
     const context = super.getTemplateContext();
     
-    if (!this.config.storagePassword) {
+    if (!this.config.credentials && !this.config.storagePassword) {
       throw new ServiceInstallationError(
         ServiceType.POSTGRESQL,
         'PostgreSQL password is required for template rendering'
@@ -2,7 +2,8 @@ import { ServiceType, HomelabConfig } from '../../core/types.js';
 import { TemplateEngine } from '../../templates/engine.js';
 import { BaseService } from '../base.js';
 import { $ } from 'bun';
-import { readFile, writeFile, mkdir } from 'fs/promises';
+import { readFile } from 'fs/promises';
+import { writeFile, mkdir, DryRun } from '../../utils/dryrun.js';
 import { join } from 'path';
 import { ContainerRuntimeUtils } from '../../utils/container.js';
 
@@ -48,13 +49,20 @@ export class TinyauthService extends BaseService {
       // Create admin user using Bun's shell
       console.log(`Creating Tinyauth admin user...`);
       const runtime = await ContainerRuntimeUtils.detectRuntime();
+
+      if (DryRun.isEnabled()) {
+        DryRun.recordCommand(`${runtime} run --rm ghcr.io/tinyauthapp/tinyauth:v5 user create --username admin --password '***'`, this.name);
+        DryRun.recordFile(usersFile, this.name);
+        return;
+      }
       console.log(`Using runtime: ${runtime}`);
 
-      const cmd = `${runtime} run --rm ghcr.io/tinyauthapp/tinyauth:v5 user create --username admin --password '${this.config.storagePassword}'`;
+      const password = this.getSecret('tinyauth.admin');
+      const cmd = `${runtime} run --rm ghcr.io/tinyauthapp/tinyauth:v5 user create --username admin --password '${password}'`;
       console.log(`Executing: ${cmd.replace(/--password '.*'/, "--password '***'")}`);
 
       // Escape $ chars to prevent shell variable expansion in Bun's shell
-      const escapedPassword = this.config.storagePassword.replace(/\$/g, '\\$');
+      const escapedPassword = password.replace(/\$/g, '\\$');
       const result = await $`${runtime} run --rm ghcr.io/tinyauthapp/tinyauth:v5 user create --username admin --password ${escapedPassword}`.quiet();
       const output = result.stdout.toString();
       const stderr = result.stderr.toString();
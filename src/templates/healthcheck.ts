@@ -0,0 +1,187 @@
+/**
+ * Declarative container healthchecks of service templates
+ * A `healthcheck:` block (http path, tcp port or exec command) becomes the
+ * --health-* flags of the container it applies to, and tells how long to wait
+ * for that container before its dependents are installed
+ */
+
+import { TemplateHealthCheck } from '../core/types.js';
+import { DockerRunParser } from '../export/docker-run.js';
+
+const DURATION = /^(\d+)(ms|s|m|h)$/;
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+const PROBES = ['http', 'tcp', 'exec'] as const;
+const FIELDS = [...PROBES, 'port', 'container', 'interval', 'timeout', 'startPeriod', 'retries'];
+
+const DEFAULT_INTERVAL = '10s';
+const DEFAULT_TIMEOUT = '5s';
+const DEFAULT_RETRIES = 5;
+
+/** Shortest wait for a container with a healthcheck (image start-up is not covered by retries) */
+const MIN_WAIT_MS = 30000;
+
+/**
+ * Healthcheck helpers for service templates
+ */
+export class HealthChecks {
+  /**
+   * Get the healthcheck declared by a template, if any
+   */
+  static fromTemplate(template: any): TemplateHealthCheck | undefined {
+    const check = template?.healthcheck;
+    return check && typeof check === 'object' ? check : undefined;
+  }
+
+  /**
+   * Validate a healthcheck block
+   * @returns Error messages, empty when the block is valid
+   */
+  static validate(value: any): string[] {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return ['healthcheck must be an object'];
+    }
+
+    const errors: string[] = [];
+    for (const key of Object.keys(value)) {
+      if (!FIELDS.includes(key)) {
+        errors.push(`healthcheck.${key} is not supported (expected ${FIELDS.join(', ')})`);
+      }
+    }
+
+    const probes = PROBES.filter(probe => value[probe] !== undefined);
+    if (probes.length !== 1) {
+      errors.push(`healthcheck needs exactly one of ${PROBES.join(', ')}`);
+    }
+    if (value.http !== undefined && (typeof value.http !== 'string' || !value.http.startsWith('/'))) {
+      errors.push('healthcheck.http must be a path starting with /');
+    }
+    if (value.exec !== undefined && (typeof value.exec !== 'string' || !value.exec.trim())) {
+      errors.push('healthcheck.exec must be a command');
+    }
+    for (const key of ['tcp', 'port']) {
+      if (value[key] !== undefined && !(Number.isInteger(value[key]) && value[key] >= 1 && value[key] <= 65535)) {
+        errors.push(`healthcheck.${key} must be a port number`);
+      }
+    }
+    if (value.container !== undefined && (typeof value.container !== 'string' || !value.container)) {
+      errors.push('healthcheck.container must be a container name');
+    }
+    for (const key of ['interval', 'timeout', 'startPeriod']) {
+      if (value[key] !== undefined && !DURATION.test(String(value[key]))) {
+        errors.push(`healthcheck.${key} must be a duration such as 10s or 1m`);
+      }
+    }
+    if (value.retries !== undefined && !(Number.isInteger(value.retries) && value.retries > 0)) {
+      errors.push('healthcheck.retries must be a positive whole number');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Container the healthcheck applies to: the one named in the block, or the
+   * main container (first `docker run` of the template)
+   */
+  static getContainer(template: any, check: TemplateHealthCheck): string | undefined {
+    if (check.container) {
+      return check.container;
+    }
+    const run = template?.commands?.run;
+    return run ? DockerRunParser.parse(run)[0]?.name : undefined;
+  }
+
+  /**
+   * Shell command that probes the container from inside
+   * @param port Container port of the http probe when the block does not set one
+   */
+  static getTestCommand(check: TemplateHealthCheck, port?: number): string {
+    if (check.exec) {
+      return check.exec.trim();
+    }
+    if (check.tcp) {
+      // nc is missing from many images, bash can open the port itself
+      return `nc -z 127.0.0.1 ${check.tcp} || bash -c 'echo > /dev/tcp/127.0.0.1/${check.tcp}'`;
+    }
+    const url = `http://127.0.0.1:${check.port || port || 80}${check.http}`;
+    return `curl -fsS -o /dev/null ${url} || wget -q -O /dev/null ${url}`;
+  }
+
+  /**
+   * `docker run` flags of the healthcheck
+   * @param port Container port of the http probe when the block does not set one
+   */
+  static getRunFlags(check: TemplateHealthCheck, port?: number): string {
+    const flags = [
+      `--health-cmd '${this.getTestCommand(check, port).replace(/'/g, `'\\''`)}'`,
+      `--health-interval ${check.interval || DEFAULT_INTERVAL}`,
+      `--health-timeout ${check.timeout || DEFAULT_TIMEOUT}`,
+      `--health-retries ${check.retries || DEFAULT_RETRIES}`,
+    ];
+    if (check.startPeriod) {
+      flags.push(`--health-start-period ${check.startPeriod}`);
+    }
+    return flags.join(' ');
+  }
+
+  /**
+   * Add the healthcheck flags of a template to the `docker run` of its container
+   * Other commands are returned unchanged. The flags go on their own line after
+   * `--name <container>` so a multi-word health command stays on one line.
+   */
+  static apply(command: string, template: any): string {
+    const check = this.fromTemplate(template);
+    const container = check && this.getContainer(template, check);
+    if (!check || !container) {
+      return command;
+    }
+
+    const spec = DockerRunParser.parse(command).find(s => s.name === container);
+    if (!spec) {
+      return command;
+    }
+
+    const port = this.getContainerPort(spec.ports);
+    const name = new RegExp(`--name(?:\\s+|=)${container.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=\\s|$)`);
+    return command.replace(name, match => `${match} ${this.getRunFlags(check, port)} \\\n     `);
+  }
+
+  /**
+   * Command that probes the container of a template healthcheck, for containers
+   * created without the --health-* flags
+   */
+  static getProbe(template: any, check: TemplateHealthCheck): string {
+    const container = this.getContainer(template, check);
+    const spec = DockerRunParser.parse(template?.commands?.run || '').find(s => s.name === container);
+    return this.getTestCommand(check, spec && this.getContainerPort(spec.ports));
+  }
+
+  /**
+   * Container port of the first published port (8080:80/tcp -> 80)
+   */
+  private static getContainerPort(ports: string[]): number | undefined {
+    return Number(ports[0]?.replace(/\/\w+$/, '').split(':').pop()) || undefined;
+  }
+
+  /**
+   * Time to wait for the container to become healthy: the start period plus every
+   * retry, with a floor for slow starts
+   */
+  static getTimeoutMs(check: TemplateHealthCheck): number {
+    const interval = this.parseDuration(check.interval || DEFAULT_INTERVAL);
+    const timeout = this.parseDuration(check.timeout || DEFAULT_TIMEOUT);
+    const startPeriod = check.startPeriod ? this.parseDuration(check.startPeriod) : 0;
+    const retries = check.retries || DEFAULT_RETRIES;
+    return Math.max(MIN_WAIT_MS, startPeriod + (retries + 1) * (interval + timeout));
+  }
+
+  /**
+   * Parse a duration such as 500ms, 10s, 2m or 1h into milliseconds
+   */
+  static parseDuration(value: string): number {
+    const match = DURATION.exec(value);
+    if (!match) {
+      throw new Error(`Invalid duration: ${value}`);
+    }
+    return Number(match[1]) * DURATION_UNITS[match[2]];
+  }
+}
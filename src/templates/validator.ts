@@ -1,4 +1,5 @@
 import { TemplateError } from '../utils/errors.js';
+import { HealthChecks } from './healthcheck.js';
 
 /**
  * Validation result interface
@@ -146,17 +147,20 @@ export class TemplateValidator {
     // Docker template schema
     this.registerSchema('docker', {
       requiredFields: ['commands'],
-      optionalFields: ['variables', 'dependencies'],
+      optionalFields: ['variables', 'dependencies', 'resources', 'healthcheck'],
       fieldTypes: {
         commands: 'object',
         variables: 'array',
-        dependencies: 'array'
+        dependencies: 'array',
+        resources: 'object',
+        healthcheck: 'object'
       },
       customValidators: {
         commands: (value) => {
           return typeof value === 'object' && 
                  ('install' in value || 'setup' in value || 'run' in value || 'postRun' in value);
-        }
+        },
+        healthcheck: (value) => HealthChecks.validate(value).length === 0
       }
     });
 
@@ -15,8 +15,9 @@ export class ContainerRuntimeUtils {
 
   /**
    * Detect available container runtime
+   * @param quiet Skip the detection messages (e.g. for machine-readable output)
    */
-  static async detectRuntime(): Promise<ContainerRuntime> {
+  static async detectRuntime(quiet: boolean = false): Promise<ContainerRuntime> {
     if (this.detectedRuntime) {
       return this.detectedRuntime;
     }
@@ -27,7 +28,7 @@ export class ContainerRuntimeUtils {
       try {
         await $`podman info`.quiet();
         this.detectedRuntime = 'podman';
-        this.logger.info('✅ Podman detected as container runtime');
+        if (!quiet) this.logger.info('✅ Podman detected as container runtime');
         return 'podman';
       } catch {
         this.logger.warn('⚠️  Podman is installed but not running properly');
@@ -42,7 +43,7 @@ export class ContainerRuntimeUtils {
       try {
         await $`docker info`.quiet();
         this.detectedRuntime = 'docker';
-        this.logger.info('✅ Docker detected as container runtime');
+        if (!quiet) this.logger.info('✅ Docker detected as container runtime');
         return 'docker';
       } catch {
         this.logger.warn('⚠️  Docker is installed but not running');
@@ -171,6 +172,50 @@ export class ContainerRuntimeUtils {
     }
   }
 
+  /**
+   * Wait until a container is running and, if it defines a healthcheck, healthy
+   * Containers without a healthcheck must pass the probe when one is given (e.g. containers
+   * created before their template declared a healthcheck), or else stay running without
+   * restarting for a few seconds
+   * @param probe Shell command run inside the container, ready when it exits with 0
+   * @returns true when the container is considered healthy before the timeout
+   */
+  static async waitForHealthy(container: string, timeoutMs: number = 120000, probe?: string, intervalMs: number = 2000): Promise<boolean> {
+    const runtime = await this.detectRuntime();
+    const format = '{{.State.Status}}|{{if .State.Health}}{{.State.Health.Status}}{{end}}|{{.RestartCount}}';
+    const deadline = Date.now() + timeoutMs;
+    let stableSince: number | null = null;
+    let lastRestarts = -1;
+
+    while (Date.now() < deadline) {
+      try {
+        const result = await $`sh -c ${`${runtime} inspect --format '${format}' ${container}`}`.quiet();
+        const [status, health, restarts] = result.stdout.toString().trim().split('|');
+
+        if (health === 'healthy') return true;
+        if (health === 'unhealthy' || status === 'exited' || status === 'dead') return false;
+
+        if (!health && status === 'running' && probe) {
+          const command = `${runtime} exec ${container} sh -c '${probe.replace(/'/g, `'\\''`)}'`;
+          if ((await $`sh -c ${command}`.quiet().nothrow()).exitCode === 0) return true;
+        } else if (!health && status === 'running') {
+          const restartCount = Number(restarts) || 0;
+          if (restartCount !== lastRestarts) {
+            lastRestarts = restartCount;
+            stableSince = Date.now();
+          } else if (stableSince !== null && Date.now() - stableSince >= 10000) {
+            return true;
+          }
+        }
+      } catch {
+        // Container not created yet
+      }
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+
+    return false;
+  }
+
   /**
    * Get runtime-specific warnings
    */
@@ -201,6 +246,13 @@ export class ContainerRuntimeUtils {
     ];
   }
 
+  /**
+   * Use a runtime without detecting it (e.g. to plan a dry run before Docker is installed)
+   */
+  static useRuntime(runtime: ContainerRuntime): void {
+    this.detectedRuntime = runtime;
+  }
+
   /**
    * Get current runtime (cached)
    */
@@ -0,0 +1,359 @@
+/**
+ * Per-service credentials store
+ * Templates reference secrets as {{SECRET:service.role}} (e.g. {{SECRET:postgresql.root}},
+ * {{SECRET:immich.db}}); each one is generated once and kept in hal-credentials.json.
+ * Installations without a store use the shared storagePassword for every secret (legacy mode)
+ *
+ * The config directory is shared over Copyparty, so the file is encrypted (AES-256-GCM)
+ * with a key derived from HAL_SECRETS_PASSPHRASE, or with a random key kept outside
+ * that directory in ~/.config/onmind-hal/secrets.key (owner only)
+ */
+
+import { readFile, writeFile, chmod, mkdir, rm } from 'fs/promises';
+import { join, dirname } from 'path';
+import { homedir } from 'os';
+import { randomBytes, createCipheriv, createDecipheriv, scryptSync } from 'crypto';
+import { HomelabConfig, ServiceType } from '../core/types.js';
+import { HomelabError } from './errors.js';
+
+/** Plain text store written by earlier versions, encrypted on the next load */
+export interface CredentialsFile {
+  version: number;
+  /** Secret values by `service.role` */
+  secrets: Record<string, string>;
+}
+
+export interface EncryptedCredentialsFile {
+  version: number;
+  cipher: 'aes-256-gcm';
+  /** scrypt: key derived from the passphrase and salt; keyfile: key read from the key file */
+  kdf: 'scrypt' | 'keyfile';
+  salt?: string;
+  iv: string;
+  tag: string;
+  /** Encrypted JSON of the secrets, base64 */
+  data: string;
+}
+
+export interface EncryptedPayload {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const CREDENTIALS_FILENAME = 'hal-credentials.json';
+const CREDENTIALS_VERSION = 2;
+
+export const PASSPHRASE_ENV = 'HAL_SECRETS_PASSPHRASE';
+export const KEYFILE_ENV = 'HAL_SECRETS_KEYFILE';
+const DEFAULT_KEYFILE = join('.config', 'onmind-hal', 'secrets.key');
+const ENVIRONMENT_FILE = join('.config', 'onmind-hal', 'backup.env');
+const KEY_LENGTH = 32;
+
+/** Letters and digits only: secrets are interpolated into shell commands and URLs unquoted */
+const SECRET_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const SECRET_LENGTH = 24;
+
+export const SECRET_REFERENCE = /\{\{SECRET:([a-z0-9][a-z0-9-]*\.[a-z0-9_-]+)\}\}/g;
+
+/** Shared-password variables of older templates; they resolve to `<service>.password` */
+export const LEGACY_PASSWORD_VARIABLES = ['STORAGE_PASSWORD', 'MAIL_PASSWORD'];
+
+/** Secrets read by service code rather than by their template */
+const CODE_SECRETS: Record<string, string[]> = {
+  tinyauth: ['tinyauth.admin'],
+};
+
+export class CredentialStore {
+  static getPath(configPath?: string): string {
+    return join(homedir(), configPath || join('ws', 'init'), CREDENTIALS_FILENAME);
+  }
+
+  /**
+   * Key file used when no passphrase is set
+   */
+  static getKeyPath(): string {
+    return process.env[KEYFILE_ENV] || join(homedir(), DEFAULT_KEYFILE);
+  }
+
+  /**
+   * Environment file giving the passphrase to unattended runs (backup timers, cron)
+   */
+  static getEnvironmentPath(): string {
+    return join(homedir(), ENVIRONMENT_FILE);
+  }
+
+  /**
+   * Whether the store can only be opened with HAL_SECRETS_PASSPHRASE
+   */
+  static async isPassphraseProtected(configPath?: string): Promise<boolean> {
+    try {
+      const file = JSON.parse(await readFile(this.getPath(configPath), 'utf-8'));
+      return file.kdf === 'scrypt';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Write HAL_SECRETS_PASSPHRASE to the environment file, readable by the owner only.
+   * Quoted so that both systemd (EnvironmentFile=) and sh (.) read it unchanged
+   * @returns path of the environment file
+   */
+  static async saveEnvironment(configPath?: string): Promise<string> {
+    const passphrase = process.env[PASSPHRASE_ENV];
+    if (!passphrase) {
+      throw new HomelabError(
+        `Credentials file ${this.getPath(configPath)} is encrypted with a passphrase: set ${PASSPHRASE_ENV} so scheduled backups can read it`,
+        'CREDENTIALS_LOCKED',
+        false,
+        { path: this.getPath(configPath), kdf: 'scrypt' },
+      );
+    }
+
+    const filePath = this.getEnvironmentPath();
+    await mkdir(dirname(filePath), { recursive: true, mode: 0o700 });
+    await this.writePrivate(filePath, `${PASSPHRASE_ENV}="${passphrase.replace(/["\\$`]/g, '\\$&')}"\n`);
+    return filePath;
+  }
+
+  /**
+   * Remove the environment file once no scheduled run needs the passphrase
+   */
+  static async removeEnvironment(): Promise<void> {
+    await rm(this.getEnvironmentPath(), { force: true });
+  }
+
+  /**
+   * Read the stored secrets; a plain text store is encrypted in place
+   * @returns null when there is no store (legacy shared password installations)
+   */
+  static async load(configPath?: string): Promise<Record<string, string> | null> {
+    const filePath = this.getPath(configPath);
+    let data: string;
+    try {
+      data = await readFile(filePath, 'utf-8');
+    } catch {
+      return null;
+    }
+
+    let file: CredentialsFile | EncryptedCredentialsFile;
+    try {
+      file = JSON.parse(data);
+    } catch (error) {
+      throw new HomelabError(
+        `Credentials file ${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        'CREDENTIALS_INVALID',
+        false,
+        { path: filePath },
+      );
+    }
+
+    if (!('data' in file)) {
+      const secrets = { ...file.secrets };
+      await this.save(secrets, configPath);
+      return secrets;
+    }
+
+    const key = await this.readKey(file, filePath);
+    try {
+      return this.decrypt(file, key);
+    } catch {
+      throw new HomelabError(
+        `Credentials file ${filePath} cannot be decrypted: ${file.kdf === 'scrypt' ? `wrong ${PASSPHRASE_ENV}` : `${this.getKeyPath()} does not match`}`,
+        'CREDENTIALS_LOCKED',
+        false,
+        { path: filePath, kdf: file.kdf },
+      );
+    }
+  }
+
+  /**
+   * Encrypt and write the secrets, readable by the owner only
+   */
+  static async save(secrets: Record<string, string>, configPath?: string): Promise<void> {
+    const filePath = this.getPath(configPath);
+    const sorted = Object.fromEntries(Object.entries(secrets).sort(([a], [b]) => a.localeCompare(b)));
+
+    const passphrase = process.env[PASSPHRASE_ENV];
+    const salt = passphrase ? randomBytes(16).toString('base64') : undefined;
+    const key = passphrase ? this.deriveKey(passphrase, salt!) : await this.ensureKeyFile();
+    const file: EncryptedCredentialsFile = {
+      version: CREDENTIALS_VERSION,
+      cipher: 'aes-256-gcm',
+      kdf: passphrase ? 'scrypt' : 'keyfile',
+      salt,
+      ...this.encrypt(sorted, key),
+    };
+
+    await this.writePrivate(filePath, JSON.stringify(file, null, 2));
+  }
+
+  /**
+   * Load the store and set or remove one secret
+   */
+  static async update(key: string, value: string | undefined, configPath?: string): Promise<void> {
+    const secrets = (await this.load(configPath)) ?? {};
+    if (secrets[key] === value) return;
+
+    if (value === undefined) {
+      delete secrets[key];
+    } else {
+      secrets[key] = value;
+    }
+    await this.save(secrets, configPath);
+  }
+
+  /**
+   * Encrypt secrets with a 32 byte key (AES-256-GCM)
+   */
+  static encrypt(secrets: Record<string, string>, key: Buffer): EncryptedPayload {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()]);
+    return {
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+  }
+
+  /**
+   * Decrypt secrets; throws when the key is wrong or the data was modified
+   */
+  static decrypt(payload: EncryptedPayload, key: Buffer): Record<string, string> {
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(payload.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+    const data = Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]);
+    return JSON.parse(data.toString('utf-8'));
+  }
+
+  static deriveKey(passphrase: string, salt: string): Buffer {
+    return scryptSync(passphrase, Buffer.from(salt, 'base64'), KEY_LENGTH);
+  }
+
+  /**
+   * Key that encrypted a store
+   */
+  private static async readKey(file: EncryptedCredentialsFile, filePath: string): Promise<Buffer> {
+    if (file.kdf === 'scrypt') {
+      const passphrase = process.env[PASSPHRASE_ENV];
+      if (!passphrase || !file.salt) {
+        throw new HomelabError(
+          `Credentials file ${filePath} is encrypted with a passphrase: set ${PASSPHRASE_ENV}`,
+          'CREDENTIALS_LOCKED',
+          false,
+          { path: filePath, kdf: file.kdf },
+        );
+      }
+      return this.deriveKey(passphrase, file.salt);
+    }
+
+    try {
+      return Buffer.from((await readFile(this.getKeyPath(), 'utf-8')).trim(), 'base64');
+    } catch {
+      throw new HomelabError(
+        `Key file ${this.getKeyPath()} not found: restore it (or set ${KEYFILE_ENV}) to read ${filePath}`,
+        'CREDENTIALS_LOCKED',
+        false,
+        { path: filePath, kdf: file.kdf },
+      );
+    }
+  }
+
+  /**
+   * Read the key file, creating it on first use
+   */
+  private static async ensureKeyFile(): Promise<Buffer> {
+    const keyPath = this.getKeyPath();
+    try {
+      return Buffer.from((await readFile(keyPath, 'utf-8')).trim(), 'base64');
+    } catch {
+      const key = randomBytes(KEY_LENGTH);
+      await mkdir(dirname(keyPath), { recursive: true, mode: 0o700 });
+      await this.writePrivate(keyPath, key.toString('base64'));
+      return key;
+    }
+  }
+
+  private static async writePrivate(filePath: string, content: string): Promise<void> {
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, content, { mode: 0o600 });
+    // mode only applies when the file is created
+    await chmod(filePath, 0o600);
+  }
+
+  /**
+   * Generate a random secret
+   */
+  static generate(length: number = SECRET_LENGTH): string {
+    const limit = 256 - (256 % SECRET_ALPHABET.length);
+    let result = '';
+    while (result.length < length) {
+      for (const byte of randomBytes(length * 2)) {
+        // Reject bytes above the largest multiple of the alphabet size to avoid bias
+        if (byte < limit && result.length < length) {
+          result += SECRET_ALPHABET[byte % SECRET_ALPHABET.length];
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Secrets referenced by a template, including `<service>.password` for the
+   * shared-password variables of older templates and the secrets of the service code
+   */
+  static findReferences(template: any, service: ServiceType): string[] {
+    const content = JSON.stringify(template ?? {});
+    const keys = new Set([...content.matchAll(SECRET_REFERENCE)].map(match => match[1]));
+    for (const key of CODE_SECRETS[service] || []) {
+      keys.add(key);
+    }
+    if (LEGACY_PASSWORD_VARIABLES.some(name => content.includes(`{{${name}}}`))) {
+      keys.add(`${service}.password`);
+    }
+    return [...keys];
+  }
+
+  /**
+   * Generate the missing secrets in place
+   * @returns Keys that were generated
+   */
+  static ensure(secrets: Record<string, string>, keys: string[]): string[] {
+    const added = keys.filter(key => !secrets[key]);
+    for (const key of added) {
+      secrets[key] = this.generate();
+    }
+    return added;
+  }
+
+  /**
+   * Value of a secret for a configuration: the stored credential, or the shared
+   * storagePassword when the installation has no store
+   * Secrets are only generated before installing (see ensure); a missing one is an error
+   */
+  static resolve(config: HomelabConfig, key: string): string {
+    if (!config.credentials) {
+      return config.storagePassword || '';
+    }
+    const value = config.credentials[key];
+    if (!value) {
+      const service = key.split('.')[0];
+      throw new HomelabError(
+        `Secret ${key} not found in ${this.getPath(config.configPath)}: restore the file from a backup, or reinstall ${service} to generate it`,
+        'CREDENTIAL_MISSING',
+        false,
+        { key },
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Secrets of one service (keys starting with `<service>.`)
+   */
+  static forService(secrets: Record<string, string>, service: string): Record<string, string> {
+    return Object.fromEntries(Object.entries(secrets).filter(([key]) => key.startsWith(`${service}.`)));
+  }
+}
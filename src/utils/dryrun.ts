@@ -0,0 +1,125 @@
+/**
+ * Dry-run support: records what an installation would do instead of doing it
+ */
+
+import { writeFile as fsWriteFile, mkdir as fsMkdir } from 'fs/promises';
+import { InstallRollback } from './rollback.js';
+
+export type PlannedOperationKind = 'command' | 'file' | 'sudo';
+
+export interface PlannedOperation {
+  kind: PlannedOperationKind;
+  detail: string;
+  source: string;
+}
+
+/**
+ * Global dry-run recorder
+ */
+export class DryRun {
+  private static enabled = false;
+  private static operations: PlannedOperation[] = [];
+
+  static enable(): void {
+    this.enabled = true;
+    this.operations = [];
+  }
+
+  static disable(): void {
+    this.enabled = false;
+  }
+
+  static isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Record a shell command that would be executed
+   */
+  static recordCommand(command: string, source: string): void {
+    this.record('command', command, source);
+  }
+
+  /**
+   * Record a file that would be written
+   */
+  static recordFile(path: string, source: string): void {
+    this.record('file', path, source);
+  }
+
+  /**
+   * Record a privileged (sudo) host operation
+   */
+  static recordSudo(operation: string, source: string): void {
+    this.record('sudo', operation, source);
+  }
+
+  static getOperations(kind?: PlannedOperationKind): PlannedOperation[] {
+    return kind ? this.operations.filter(op => op.kind === kind) : [...this.operations];
+  }
+
+  /**
+   * Print the recorded plan grouped by operation kind
+   */
+  static printPlan(): void {
+    const commands = this.getOperations('command');
+    const files = this.getOperations('file');
+    const sudo = this.getOperations('sudo');
+
+    console.log('\n📝 Dry run plan (nothing was changed)');
+    console.log('═'.repeat(60));
+
+    console.log(`\n🔐 Sudo operations (${sudo.length}):`);
+    for (const op of sudo) {
+      console.log(`   [${op.source}] ${op.detail}`);
+    }
+
+    console.log(`\n📄 Files that would be written (${files.length}):`);
+    for (const op of files) {
+      console.log(`   [${op.source}] ${op.detail}`);
+    }
+
+    console.log(`\n💻 Commands in execution order (${commands.length}):`);
+    commands.forEach((op, i) => {
+      const lines = op.detail.split('\n');
+      console.log(`   ${String(i + 1).padStart(3)}. [${op.source}] ${lines[0]}`);
+      for (const line of lines.slice(1)) {
+        console.log(`        ${line}`);
+      }
+    });
+
+    console.log('═'.repeat(60));
+  }
+
+  private static record(kind: PlannedOperationKind, detail: string, source: string): void {
+    if (!this.enabled) return;
+    this.operations.push({ kind, detail, source });
+  }
+}
+
+/**
+ * fs/promises writeFile that only records the path during a dry run
+ * (and can be undone by InstallRollback otherwise)
+ */
+export async function writeFile(path: string, data: string, options?: Parameters<typeof fsWriteFile>[2]): Promise<void> {
+  if (DryRun.isEnabled()) {
+    DryRun.recordFile(path, 'config');
+    return;
+  }
+  const undo = await InstallRollback.planFile(path);
+  await fsWriteFile(path, data, options);
+  InstallRollback.register(undo);
+}
+
+/**
+ * fs/promises mkdir that does nothing during a dry run
+ * (and can be undone by InstallRollback otherwise)
+ */
+export async function mkdir(path: string, options?: { recursive?: boolean; mode?: number }): Promise<void> {
+  if (DryRun.isEnabled()) {
+    return;
+  }
+  const undo = InstallRollback.planDirectory(path);
+  await fsMkdir(path, options);
+  InstallRollback.register(undo);
+}
@@ -0,0 +1,75 @@
+/**
+ * Concurrency helpers for installing independent services side by side
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { format } from 'util';
+
+type ConsoleMethod = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+const CONSOLE_METHODS: ConsoleMethod[] = ['log', 'info', 'warn', 'error', 'debug'];
+
+export interface BufferedResult<T> {
+  output: string[];
+  result?: T;
+  error?: unknown;
+}
+
+/**
+ * Runs tasks with a concurrency limit and buffers their console output
+ */
+export class Parallel {
+  private static storage = new AsyncLocalStorage<string[]>();
+  private static patched = false;
+
+  /**
+   * Run a worker for every item, with at most `limit` workers at a time.
+   * Worker errors are not caught here; handle them inside the worker.
+   */
+  static async map<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+    const queue = [...items];
+    const runners = Array.from({ length: Math.max(1, Math.min(limit, queue.length)) }, async () => {
+      while (queue.length > 0) {
+        await worker(queue.shift()!);
+      }
+    });
+    await Promise.all(runners);
+  }
+
+  /**
+   * Run a task while collecting everything it writes through console.* instead of printing it,
+   * so concurrent tasks can print their output in one block when they finish
+   */
+  static async buffered<T>(task: () => Promise<T>): Promise<BufferedResult<T>> {
+    this.patchConsole();
+    const output: string[] = [];
+    try {
+      const result = await this.storage.run(output, task);
+      return { output, result };
+    } catch (error) {
+      return { output, error };
+    }
+  }
+
+  /**
+   * Route console output to the buffer of the running task, if any
+   */
+  private static patchConsole(): void {
+    if (this.patched) {
+      return;
+    }
+    this.patched = true;
+
+    for (const method of CONSOLE_METHODS) {
+      const original = console[method].bind(console);
+      console[method] = (...args: any[]) => {
+        const buffer = this.storage.getStore();
+        if (buffer) {
+          buffer.push(format(...args));
+        } else {
+          original(...args);
+        }
+      };
+    }
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Rollback of partially installed services
+ * While an installation is tracked, every change it makes to the host (containers,
+ * volumes, directories and config files) registers a compensating RollbackAction
+ * with the ErrorRecoveryManager, so a failed core install or Ctrl+C can undo it
+ */
+
+import { ErrorHandler, RollbackAction } from './errors.js';
+import { ContainerRuntimeUtils } from './container.js';
+import { DockerRunParser } from '../export/docker-run.js';
+import { $ } from 'bun';
+import { existsSync } from 'fs';
+import { readFile, writeFile, rm } from 'fs/promises';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+
+/**
+ * Global tracker of the changes made by the running installation
+ */
+export class InstallRollback {
+  private static tracking = false;
+  private static disabled = false;
+
+  /**
+   * Start tracking changes (does nothing when rollback is disabled)
+   */
+  static start(): void {
+    if (this.disabled) return;
+    this.tracking = true;
+  }
+
+  /**
+   * Stop tracking and forget the registered actions (the installation is complete)
+   */
+  static finish(): void {
+    this.tracking = false;
+    ErrorHandler.getInstance().getRecoveryManager().clear();
+  }
+
+  /**
+   * Keep partial state on failure (--no-rollback), e.g. to debug a failed install
+   */
+  static disable(): void {
+    this.disabled = true;
+    this.tracking = false;
+  }
+
+  static enable(): void {
+    this.disabled = false;
+  }
+
+  static isDisabled(): boolean {
+    return this.disabled;
+  }
+
+  static isTracking(): boolean {
+    return this.tracking;
+  }
+
+  /**
+   * Register actions with the recovery manager while tracking
+   */
+  static register(actions: RollbackAction[]): void {
+    if (!this.tracking) return;
+    const manager = ErrorHandler.getInstance().getRecoveryManager();
+    for (const action of actions) {
+      manager.addRollbackAction(action);
+    }
+  }
+
+  /**
+   * Plan how to undo a shell command before it runs: remove the containers it starts
+   * and the volumes and directories it creates that do not exist yet.
+   * Register the result with register() once the command succeeded.
+   */
+  static async planCommand(command: string): Promise<RollbackAction[]> {
+    if (!this.tracking) return [];
+    const actions: RollbackAction[] = [];
+
+    for (const segment of DockerRunParser.tokenize(command)) {
+      const words = segment[0] === 'sudo' ? segment.slice(1) : segment;
+      const [program, subcommand, action] = words;
+
+      if ((program === 'docker' || program === 'podman') && subcommand === 'volume' && action === 'create') {
+        const volume = words.slice(3).find(word => !word.startsWith('-'));
+        if (volume && !(await this.volumeExists(program, volume))) {
+          actions.push({
+            description: `Remove volume ${volume}`,
+            execute: async () => { await $`${program} volume rm -f ${volume}`.quiet(); },
+          });
+        }
+      } else if (program === 'mkdir') {
+        for (const path of words.slice(1).filter(word => !word.startsWith('-'))) {
+          actions.push(...this.planDirectory(this.expandHome(path)));
+        }
+      }
+    }
+
+    const runtime = ContainerRuntimeUtils.getCurrentRuntime() || 'docker';
+    for (const spec of DockerRunParser.parse(command)) {
+      if (!spec.name || spec.oneShot) continue;
+      const name = spec.name;
+      actions.push({
+        description: `Remove container ${name}`,
+        execute: async () => { await $`${runtime} rm -f ${name}`.quiet(); },
+      });
+    }
+
+    return actions;
+  }
+
+  /**
+   * Plan how to undo a file write: restore the previous content or delete the new file
+   */
+  static async planFile(path: string): Promise<RollbackAction[]> {
+    if (!this.tracking) return [];
+
+    if (existsSync(path)) {
+      const previous = await readFile(path);
+      return [{
+        description: `Restore ${path}`,
+        execute: async () => { await writeFile(path, previous); },
+      }];
+    }
+    return [
+      ...this.planDirectory(dirname(path)),
+      { description: `Remove ${path}`, execute: () => this.remove(path) },
+    ];
+  }
+
+  /**
+   * Plan how to undo creating a directory: remove its topmost missing ancestor
+   */
+  static planDirectory(path: string): RollbackAction[] {
+    if (!this.tracking || existsSync(path)) return [];
+
+    let top = path;
+    while (!existsSync(dirname(top)) && dirname(top) !== top) {
+      top = dirname(top);
+    }
+    return [{ description: `Remove ${top}`, execute: () => this.remove(top) }];
+  }
+
+  /**
+   * Remove a path, with sudo when containers left root-owned files in it
+   */
+  private static async remove(path: string): Promise<void> {
+    try {
+      await rm(path, { recursive: true, force: true });
+    } catch {
+      await $`sudo rm -rf ${path}`.quiet();
+    }
+  }
+
+  private static async volumeExists(runtime: string, volume: string): Promise<boolean> {
+    try {
+      const result = await $`${runtime} volume inspect ${volume}`.quiet().nothrow();
+      return result.exitCode === 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private static expandHome(path: string): string {
+    if (path === '~' || path === '$HOME') return homedir();
+    for (const prefix of ['~/', '$HOME/', '${HOME}/']) {
+      if (path.startsWith(prefix)) {
+        return join(homedir(), path.slice(prefix.length));
+      }
+    }
+    return path;
+  }
+}
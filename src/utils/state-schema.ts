@@ -0,0 +1,236 @@
+/**
+ * Schema of the installation state file (onmind-hal.json)
+ * Shared by the CLI (StateManager) and the ui/ server: validates the file and
+ * upgrades older versions through a chain of migrations (v1 -> v2 -> ...).
+ * It only depends on Node built-ins so the UI can bundle it.
+ *
+ * Adding a field: bump STATE_VERSION, add a migration from the previous version
+ * and describe the field in validateState
+ */
+
+import { readFile } from 'fs/promises';
+import type { ServiceType, ServiceOverride, RouteCheck } from '../core/types.js';
+
+export interface HalState {
+  version: number;
+  installedAt: string;
+  ip: string;
+  domain: string;
+  tunnelDomain?: string;
+  networkName: string;
+  configPath: string;
+  dataPath: string;
+  /**
+   * Shared password (legacy mode), read from the credential store by StateManager.load;
+   * never written to this file, which is shared over Copyparty
+   */
+  storagePassword?: string;
+  /** Credential store key of the shared password */
+  storagePasswordRef?: string;
+  managementUI: ServiceType;
+  selectedServices: ServiceType[];
+  /** Per-service settings from hal.yml (image tag, env, host port, data path) */
+  serviceOverrides?: Partial<Record<ServiceType, ServiceOverride>>;
+  /** Host ports reassigned by --auto-ports (template host port -> chosen port) */
+  portMappings?: Partial<Record<ServiceType, Record<string, number>>>;
+  /** Installation progress per service, saved after every service */
+  progress?: Partial<Record<ServiceType, ServiceProgress>>;
+  /** Services whose last installation attempt failed (see hal retry-failed) */
+  failedServices?: ServiceType[];
+  /** Post-install probe of each Caddy route (status, TLS, latency, broken routes) */
+  routeChecks?: Partial<Record<ServiceType, RouteCheck>>;
+}
+
+export type ServiceProgressStatus = 'pending' | 'installed' | 'configured' | 'failed';
+
+export interface ServiceProgress {
+  status: ServiceProgressStatus;
+  updatedAt: string;
+  startedAt?: string;
+  error?: string;
+}
+
+export const STATE_FILENAME = 'onmind-hal.json';
+export const STATE_VERSION = 3;
+
+/** Credential store key of the shared password of legacy installations */
+export const SHARED_PASSWORD_KEY = 'shared.password';
+
+const PROGRESS_STATUSES: ServiceProgressStatus[] = ['pending', 'installed', 'configured', 'failed'];
+
+/**
+ * Upgrade from one version to the next
+ * @param secrets Secrets removed from the file, by credential store key
+ */
+interface StateMigration {
+  from: number;
+  description: string;
+  migrate(state: Record<string, any>, secrets: Record<string, string>): Record<string, any>;
+}
+
+const MIGRATIONS: StateMigration[] = [
+  {
+    from: 1,
+    description: 'Move the shared password to the credential store and drop empty service entries',
+    migrate: ({ storagePassword, ...state }, secrets) => {
+      if (Array.isArray(state.selectedServices)) {
+        state.selectedServices = state.selectedServices.filter((s: unknown) => s != null);
+      }
+      if (!storagePassword) return state;
+      secrets[SHARED_PASSWORD_KEY] = storagePassword;
+      return { ...state, storagePasswordRef: SHARED_PASSWORD_KEY };
+    },
+  },
+  {
+    from: 2,
+    description: 'Add the optional route checks (nothing to convert)',
+    migrate: state => state,
+  },
+];
+
+export interface MigratedState {
+  state: HalState;
+  /** Version of the file before migrating (equals STATE_VERSION when nothing changed) */
+  from: number;
+  /** Secrets removed by the migrations, to be saved in the credential store */
+  secrets: Record<string, string>;
+}
+
+export class StateSchemaError extends Error {
+  constructor(message: string, public readonly problems: string[] = []) {
+    super(problems.length > 0 ? `${message}: ${problems.join('; ')}` : message);
+    this.name = 'StateSchemaError';
+  }
+}
+
+/**
+ * Upgrade parsed state data to STATE_VERSION (files without a version are version 1)
+ */
+export function migrateState(data: Record<string, any>): MigratedState {
+  const from = data.version ?? 1;
+  if (!Number.isInteger(from) || from < 1) {
+    throw new StateSchemaError(`Unknown state version ${JSON.stringify(data.version)}`);
+  }
+  if (from > STATE_VERSION) {
+    throw new StateSchemaError(`State version ${from} was written by a newer hal (this one reads up to ${STATE_VERSION})`);
+  }
+
+  const secrets: Record<string, string> = {};
+  let state = data;
+  for (let version = from; version < STATE_VERSION; version++) {
+    const migration = MIGRATIONS.find(m => m.from === version);
+    if (!migration) {
+      throw new StateSchemaError(`No migration from state version ${version}`);
+    }
+    state = { ...migration.migrate(state, secrets), version: version + 1 };
+  }
+  return { state: state as HalState, from, secrets };
+}
+
+/**
+ * Check the current schema
+ * @returns Problems found, empty when the state is valid
+ */
+export function validateState(data: unknown): string[] {
+  if (!isObject(data)) {
+    return ['state is not an object'];
+  }
+
+  const problems: string[] = [];
+  const expect = (field: string, valid: boolean, type: string) => {
+    if (!valid) problems.push(`${field} must be ${type}`);
+  };
+  const optional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+
+  expect('version', data.version === STATE_VERSION, `${STATE_VERSION}`);
+  for (const field of ['installedAt', 'ip', 'domain', 'networkName', 'configPath', 'dataPath', 'managementUI']) {
+    expect(field, typeof data[field] === 'string', 'a string');
+  }
+  expect('tunnelDomain', optional(data.tunnelDomain, isString), 'a string');
+  expect('storagePassword', data.storagePassword === undefined, 'absent (secrets belong in the credential store)');
+  expect('storagePasswordRef', optional(data.storagePasswordRef, isString), 'a string');
+  expect('selectedServices', isStringArray(data.selectedServices), 'a list of service names');
+  expect('failedServices', optional(data.failedServices, isStringArray), 'a list of service names');
+  expect('serviceOverrides', optional(data.serviceOverrides, v => isObject(v) && Object.values(v).every(isObject)), 'an object per service');
+  expect(
+    'portMappings',
+    optional(data.portMappings, v => isObject(v) && Object.values(v).every(m => isObject(m) && Object.values(m).every(Number.isInteger))),
+    'host port numbers per service',
+  );
+
+  if (data.routeChecks !== undefined) {
+    if (!isObject(data.routeChecks)) {
+      problems.push('routeChecks must be an object per service');
+    } else {
+      for (const [service, check] of Object.entries(data.routeChecks)) {
+        expect(`routeChecks.${service}.host`, isObject(check) && isString(check.host), 'a string');
+        expect(`routeChecks.${service}.broken`, isObject(check) && typeof check.broken === 'boolean', 'true or false');
+        expect(`routeChecks.${service}.http`, isObject(check) && isObject(check.http), 'an object');
+        expect(`routeChecks.${service}.https`, isObject(check) && isObject(check.https), 'an object');
+      }
+    }
+  }
+
+  if (data.progress !== undefined) {
+    if (!isObject(data.progress)) {
+      problems.push('progress must be an object per service');
+    } else {
+      for (const [service, entry] of Object.entries(data.progress)) {
+        expect(`progress.${service}.status`, isObject(entry) && PROGRESS_STATUSES.includes(entry.status), PROGRESS_STATUSES.join(', '));
+        expect(`progress.${service}.updatedAt`, isObject(entry) && isString(entry.updatedAt), 'a string');
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Read, migrate and validate a state file
+ * @returns null when the file does not exist
+ */
+export async function readStateFile(path: string): Promise<MigratedState | null> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch {
+    return null;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    throw new StateSchemaError(`${path} is not valid JSON (${error instanceof Error ? error.message : String(error)})`);
+  }
+  if (!isObject(data)) {
+    throw new StateSchemaError(`${path} does not contain an object`);
+  }
+
+  const migrated = migrateState(data);
+  const problems = validateState(migrated.state);
+  if (problems.length > 0) {
+    throw new StateSchemaError(`${path} does not match state version ${STATE_VERSION}`, problems);
+  }
+  return migrated;
+}
+
+/**
+ * Copy of an older state without the secrets the migrations moved out,
+ * so the backup in the shared config directory leaks nothing
+ */
+export function redactSecrets(data: Record<string, any>): Record<string, any> {
+  const { storagePassword, ...rest } = data;
+  return storagePassword === undefined ? rest : { ...rest, storagePassword: '[moved to the credential store]' };
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isString);
+}
@@ -1,24 +1,22 @@
 import { readFile, writeFile, access } from 'fs/promises';
 import { join } from 'path';
 import { homedir } from 'os';
-import { ServiceType, HomelabConfig } from '../core/types.js';
-
-export interface HalState {
-  version: number;
-  installedAt: string;
-  ip: string;
-  domain: string;
-  tunnelDomain?: string;
-  networkName: string;
-  configPath: string;
-  dataPath: string;
-  storagePassword?: string;
-  managementUI: ServiceType;
-  selectedServices: ServiceType[];
-}
+import { ServiceType, HomelabConfig, RouteCheck } from '../core/types.js';
+import { CredentialStore } from './credentials.js';
+import { HomelabError } from './errors.js';
+import {
+  HalState,
+  ServiceProgress,
+  MigratedState,
+  STATE_FILENAME,
+  STATE_VERSION,
+  SHARED_PASSWORD_KEY,
+  StateSchemaError,
+  readStateFile,
+  redactSecrets,
+} from './state-schema.js';
 
-const STATE_FILENAME = 'onmind-hal.json';
-const STATE_VERSION = 1;
+export type { HalState, ServiceProgress, ServiceProgressStatus } from './state-schema.js';
 
 function getDefaultStatePath(): string {
   return join(homedir(), 'ws', 'init', STATE_FILENAME);
@@ -32,6 +30,10 @@ function getStatePath(configPath?: string): string {
 }
 
 export class StateManager {
+  static getPath(configPath?: string): string {
+    return getStatePath(configPath);
+  }
+
   static async exists(configPath?: string): Promise<boolean> {
     try {
       await access(getStatePath(configPath));
@@ -41,16 +43,64 @@ export class StateManager {
     }
   }
 
+  /**
+   * Load the installation state, migrated to the current version, with the shared
+   * password resolved from the credential store
+   * @returns null when there is no state file
+   */
   static async load(configPath?: string): Promise<HalState | null> {
+    const filePath = getStatePath(configPath);
+    let loaded: MigratedState | null;
     try {
-      const data = await readFile(getStatePath(configPath), 'utf-8');
-      return JSON.parse(data) as HalState;
-    } catch {
+      loaded = await readStateFile(filePath);
+    } catch (error) {
+      if (!(error instanceof StateSchemaError)) throw error;
+      throw new HomelabError(
+        `Invalid installation state: ${error.message}. Fix or remove ${filePath} (older versions are backed up next to it)`,
+        'STATE_INVALID',
+        false,
+        { path: filePath, problems: error.problems },
+      );
+    }
+    if (!loaded) {
       return null;
     }
+
+    const { state } = loaded;
+    const storePath = configPath || state.configPath;
+    if (loaded.from < STATE_VERSION) {
+      await this.saveMigration(filePath, loaded, storePath);
+    }
+    if (state.storagePasswordRef) {
+      state.storagePassword = (await CredentialStore.load(storePath))?.[state.storagePasswordRef];
+    }
+    return state;
+  }
+
+  /**
+   * Write a migrated state, keeping the previous file as onmind-hal.json.v<N>.bak
+   * (without the secrets moved to the credential store)
+   */
+  private static async saveMigration(filePath: string, migrated: MigratedState, configPath?: string): Promise<void> {
+    // Secrets first, so a failure leaves the old file untouched
+    for (const [key, value] of Object.entries(migrated.secrets)) {
+      await CredentialStore.update(key, value, configPath);
+    }
+
+    const previous = JSON.parse(await readFile(filePath, 'utf-8'));
+    await writeFile(`${filePath}.v${migrated.from}.bak`, JSON.stringify(redactSecrets(previous), null, 2));
+    await writeFile(filePath, JSON.stringify(migrated.state, null, 2));
   }
 
-  static async save(config: HomelabConfig, managementUI: ServiceType): Promise<void> {
+  /**
+   * Save the installation state
+   * @param progress Per-service progress; the saved progress is kept when omitted
+   */
+  static async save(
+    config: HomelabConfig,
+    managementUI: ServiceType,
+    progress?: Partial<Record<ServiceType, ServiceProgress>>,
+  ): Promise<void> {
     const validServices = Object.values(ServiceType);
     const sanitized = config.selectedServices.filter(
       (s): s is ServiceType => s != null && validServices.includes(s),
@@ -58,6 +108,27 @@ export class StateManager {
 
     const coreServices = [ServiceType.CADDY, ServiceType.COPYPARTY];
     const missing = coreServices.filter(s => !sanitized.includes(s));
+    const selectedServices = missing.length > 0 ? [...sanitized, ...missing] : sanitized;
+
+    const filePath = getStatePath(config.configPath);
+    const current = progress ?? (await this.load(config.configPath))?.progress ?? {};
+
+    // Keep progress of selected services, and of failed ones so they can be retried
+    const kept = Object.fromEntries(
+      Object.entries(current).filter(([service, entry]) =>
+        selectedServices.includes(service as ServiceType) || entry?.status === 'failed'),
+    ) as Partial<Record<ServiceType, ServiceProgress>>;
+    const failedServices = (Object.keys(kept) as ServiceType[]).filter(s => kept[s]?.status === 'failed');
+    const portMappings = config.portMappings && Object.fromEntries(
+      Object.entries(config.portMappings).filter(([service]) => selectedServices.includes(service as ServiceType)),
+    ) as Partial<Record<ServiceType, Record<string, number>>>;
+    const routeChecks = config.routeChecks && Object.fromEntries(
+      Object.entries(config.routeChecks).filter(([service]) => selectedServices.includes(service as ServiceType)),
+    ) as Partial<Record<ServiceType, RouteCheck>>;
+
+    if (config.storagePassword) {
+      await CredentialStore.update(SHARED_PASSWORD_KEY, config.storagePassword, config.configPath);
+    }
 
     const state: HalState = {
       version: STATE_VERSION,
@@ -68,17 +139,30 @@ export class StateManager {
       networkName: config.networkName,
       configPath: config.configPath || 'ws/init',
       dataPath: config.dataPath || 'ws/data',
-      storagePassword: config.storagePassword,
+      storagePasswordRef: config.storagePassword ? SHARED_PASSWORD_KEY : undefined,
       managementUI,
-      selectedServices: missing.length > 0
-        ? [...sanitized, ...missing]
-        : sanitized,
+      selectedServices,
+      serviceOverrides: config.serviceOverrides,
+      portMappings: portMappings && Object.keys(portMappings).length > 0 ? portMappings : undefined,
+      progress: kept,
+      failedServices,
+      routeChecks: routeChecks && Object.keys(routeChecks).length > 0 ? routeChecks : undefined,
     };
 
-    const filePath = getStatePath(config.configPath);
     await writeFile(filePath, JSON.stringify(state, null, 2));
   }
 
+  /**
+   * Services whose installation did not finish (pending, or installed but not configured)
+   */
+  static getUnfinished(state: HalState): ServiceType[] {
+    const progress = state.progress || {};
+    return state.selectedServices.filter(s => {
+      const status = progress[s]?.status;
+      return status === 'pending' || status === 'installed';
+    });
+  }
+
   static toConfig(state: HalState): Partial<HomelabConfig> & { managementUI?: ServiceType } {
     return {
       ip: state.ip,
@@ -89,6 +173,9 @@ export class StateManager {
       dataPath: state.dataPath,
       storagePassword: state.storagePassword,
       selectedServices: state.selectedServices,
+      serviceOverrides: state.serviceOverrides,
+      portMappings: state.portMappings,
+      routeChecks: state.routeChecks,
       managementUI: state.managementUI,
     };
   }
@@ -232,8 +232,8 @@ export function validateHomelabConfig(config: HomelabConfig): void {
     validateStoragePassword(config.storagePassword);
   }
 
-  // If PostgreSQL or MariaDB is selected, password is required
-  if ((config.selectedServices.includes(ServiceType.POSTGRESQL) || config.selectedServices.includes(ServiceType.MARIADB)) && !config.storagePassword) {
+  // If PostgreSQL or MariaDB is selected, password is required (unless generated per service)
+  if ((config.selectedServices.includes(ServiceType.POSTGRESQL) || config.selectedServices.includes(ServiceType.MARIADB)) && !config.storagePassword && !config.credentials) {
     throw new ConfigurationError('storagePassword', config.storagePassword, 'Storage password is required when PostgreSQL or MariaDB service are selected');
   }
 }
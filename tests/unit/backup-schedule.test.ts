@@ -0,0 +1,118 @@
+import { describe, it, expect, mock, spyOn, afterEach } from 'bun:test';
+import { BackupScheduler } from '../../src/core/backup-schedule.js';
+import { RestorePoint } from '../../src/core/backup.js';
+import { ServiceType, HomelabConfig, DistributionType } from '../../src/core/types.js';
+import { CredentialStore, PASSPHRASE_ENV } from '../../src/utils/credentials.js';
+
+// Mock Bun shell
+mock.module('bun', () => ({
+  $: mock(() => Promise.resolve({ exitCode: 0, stderr: '' }))
+}));
+
+const point = (createdAt: string): RestorePoint => ({
+  name: `hal-backup-n8n-${createdAt}.tar.gz`,
+  label: 'n8n',
+  createdAt: new Date(createdAt),
+  location: `/backups/${createdAt}`,
+  inBucket: false,
+});
+
+describe('BackupScheduler', () => {
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should convert cron expressions to systemd calendar events', () => {
+    expect(BackupScheduler.toOnCalendar('0 3 * * *')).toBe('*-*-* 03:00:00');
+    expect(BackupScheduler.toOnCalendar('30 2 * * 0')).toBe('Sun *-*-* 02:30:00');
+    expect(BackupScheduler.toOnCalendar('15 4 1 */3 *')).toBe('*-01,04,07,10-01 04:15:00');
+    expect(BackupScheduler.toOnCalendar('0 */6 * * 1-5')).toBe('Mon,Tue,Wed,Thu,Fri *-*-* 00,06,12,18:00:00');
+    expect(BackupScheduler.toOnCalendar('0 1 * * 7')).toBe('Sun *-*-* 01:00:00');
+  });
+
+  it('should reject invalid cron expressions', () => {
+    expect(() => BackupScheduler.toOnCalendar('0 3 * *')).toThrow('expected 5 fields');
+    expect(() => BackupScheduler.toOnCalendar('60 3 * * *')).toThrow('minute "60" is out of range 0-59');
+    expect(() => BackupScheduler.toOnCalendar('0 3 * * mon')).toThrow('invalid day of week "mon"');
+    expect(() => BackupScheduler.toOnCalendar('0 3 1 * 1')).toThrow('not both');
+  });
+
+  it('should build a timer running the scheduled backup', () => {
+    const units = BackupScheduler.getUnits(ServiceType.N8N, { schedule: '0 3 * * *' }, '/usr/bin/bun run /opt/hal/src/main.ts', '/opt/hal', 'admin');
+
+    expect(units['hal-backup-n8n.service']).toContain('ExecStart=/usr/bin/bun run /opt/hal/src/main.ts backup n8n --scheduled');
+    expect(units['hal-backup-n8n.service']).toContain('User=admin');
+    expect(units['hal-backup-n8n.timer']).toContain('OnCalendar=*-*-* 03:00:00');
+    expect(units['hal-backup-n8n.timer']).toContain('Persistent=true');
+  });
+
+  it('should read the passphrase of the credentials store from the environment file', () => {
+    const units = BackupScheduler.getUnits(ServiceType.N8N, { schedule: '0 3 * * *' }, 'hal', '/opt/hal', 'admin', '/home/admin/.config/onmind-hal/backup.env');
+
+    expect(units['hal-backup-n8n.service']).toContain('EnvironmentFile=/home/admin/.config/onmind-hal/backup.env');
+    expect(BackupScheduler.getUnits(ServiceType.N8N, { schedule: '0 3 * * *' }, 'hal', '/opt/hal', 'admin')['hal-backup-n8n.service'])
+      .not.toContain('EnvironmentFile=');
+  });
+
+  it('should refuse to schedule backups of a passphrase store without the passphrase', async () => {
+    const passphrase = process.env[PASSPHRASE_ENV];
+    delete process.env[PASSPHRASE_ENV];
+    spyOn(CredentialStore, 'isPassphraseProtected').mockResolvedValue(true);
+    const config: HomelabConfig = {
+      ip: '192.168.1.100',
+      domain: 'homelab.local',
+      networkName: 'homelab-network',
+      selectedServices: [ServiceType.CADDY, ServiceType.N8N],
+      distribution: DistributionType.UBUNTU,
+      configPath: 'ws/init',
+      dataPath: 'ws/data',
+      serviceOverrides: { [ServiceType.N8N]: { backup: { schedule: '0 3 * * *' } } },
+    };
+
+    try {
+      await expect(BackupScheduler.install(config)).rejects.toThrow(`set ${PASSPHRASE_ENV} so scheduled backups can read it`);
+    } finally {
+      if (passphrase !== undefined) process.env[PASSPHRASE_ENV] = passphrase;
+    }
+  });
+
+  it('should keep the newest restore point of each retained period', () => {
+    const points = [
+      point('2026-03-10T03:00:00Z'),
+      point('2026-03-09T15:00:00Z'),
+      point('2026-03-09T03:00:00Z'),
+      point('2026-03-08T03:00:00Z'),
+      point('2026-03-01T03:00:00Z'),
+      point('2026-02-20T03:00:00Z'),
+      point('2026-01-15T03:00:00Z'),
+    ];
+
+    const expired = BackupScheduler.selectExpired(points, { keepDaily: 2, keepWeekly: 2, keepMonthly: 2 });
+
+    // Days: 03-10, 03-09 15:00; weeks: 03-10 (W11), 03-08 (W10); months: 03-10, 02-20
+    expect(expired.map(p => p.createdAt.toISOString().slice(0, 13))).toEqual([
+      '2026-03-09T03',
+      '2026-03-01T03',
+      '2026-01-15T03',
+    ]);
+    expect(BackupScheduler.selectExpired(points, {})).toEqual([]);
+  });
+
+  it('should only schedule installed services', () => {
+    const config: HomelabConfig = {
+      ip: '192.168.1.100',
+      domain: 'homelab.local',
+      networkName: 'homelab-network',
+      selectedServices: [ServiceType.CADDY, ServiceType.COPYPARTY, ServiceType.N8N],
+      distribution: DistributionType.UBUNTU,
+      configPath: 'ws/init',
+      dataPath: 'ws/data',
+      serviceOverrides: {
+        [ServiceType.N8N]: { backup: { schedule: '0 3 * * *' } },
+        [ServiceType.IMMICH]: { backup: { schedule: '0 4 * * *' } },
+      },
+    };
+
+    expect(Object.keys(BackupScheduler.getSchedules(config))).toEqual([ServiceType.N8N]);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Unit tests for command line argument parsing
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { parseArgs } from '../../../src/cli/args.js';
+import { ServiceType } from '../../../src/core/types.js';
+
+const argv = (...args: string[]) => ['bun', 'hal', ...args];
+
+describe('parseArgs', () => {
+  it('should return empty args for interactive mode', () => {
+    expect(parseArgs(argv())).toEqual({});
+  });
+
+  it('should parse install options', () => {
+    const result = parseArgs(argv('--domain', 'lab.lan', '--list', 'n8n,unknown'));
+
+    expect(result.scriptMode).toBe(true);
+    expect(result.domain).toBe('lab.lan');
+    expect(result.list).toEqual([ServiceType.N8N]);
+  });
+
+  it('should keep profile, tag and exclusion selectors in --list', () => {
+    const result = parseArgs(argv('--list', 'profile:ai,tag:database,-kafka,-unknown,profile:'));
+
+    expect(result.list).toEqual(['profile:ai', 'tag:database', '-kafka']);
+  });
+
+  it('should parse --dry-run', () => {
+    const result = parseArgs(argv('--dry-run', '--list', 'n8n'));
+
+    expect(result.scriptMode).toBe(true);
+    expect(result.dryRun).toBe(true);
+  });
+
+  it('should parse --config', () => {
+    const result = parseArgs(argv('--config', 'hal.yml', '--ip', '192.168.1.10'));
+
+    expect(result.scriptMode).toBe(true);
+    expect(result.configFile).toBe('hal.yml');
+    expect(result.ip).toBe('192.168.1.10');
+  });
+
+  it('should parse --no-rollback', () => {
+    expect(parseArgs(argv('--no-rollback', '--list', 'n8n')).noRollback).toBe(true);
+    expect(parseArgs(argv('add', 'grafana', '--no-rollback')).noRollback).toBe(true);
+    expect(parseArgs(argv('add', 'grafana')).noRollback).toBe(false);
+  });
+
+  it('should parse --force', () => {
+    expect(parseArgs(argv('--force', '--list', 'profile:ai')).force).toBe(true);
+    expect(parseArgs(argv('add', 'ollama', '--force')).force).toBe(true);
+    expect(parseArgs(argv('resume')).force).toBe(false);
+  });
+
+  it('should parse --auto-ports', () => {
+    expect(parseArgs(argv('--auto-ports', '--list', 'n8n')).autoPorts).toBe(true);
+    expect(parseArgs(argv('add', 'n8n', '--auto-ports')).autoPorts).toBe(true);
+  });
+
+  it('should parse --parallel as a positive integer', () => {
+    expect(parseArgs(argv('--parallel', '4', '--list', 'n8n')).parallel).toBe(4);
+    expect(parseArgs(argv('--parallel', '0')).parallel).toBeUndefined();
+    expect(parseArgs(argv('add', 'grafana', '--parallel', '2')).parallel).toBe(2);
+  });
+
+  describe('add command', () => {
+    it('should parse targets', () => {
+      const result = parseArgs(argv('add', 'grafana,loki'));
+
+      expect(result.command).toBe('add');
+      expect(result.targets).toEqual(['grafana', 'loki']);
+      expect(result.scriptMode).toBeUndefined();
+    });
+  });
+
+  describe('remove command', () => {
+    it('should parse targets and flags', () => {
+      const result = parseArgs(argv('remove', 'n8n,Redis', 'grafana', '--cascade', '--purge'));
+
+      expect(result.command).toBe('remove');
+      expect(result.targets).toEqual(['n8n', 'redis', 'grafana']);
+      expect(result.cascade).toBe(true);
+      expect(result.purge).toBe(true);
+    });
+
+    it('should keep unknown names so the command can report them', () => {
+      const result = parseArgs(argv('remove', 'n8nn'));
+
+      expect(result.targets).toEqual(['n8nn']);
+      expect(result.cascade).toBe(false);
+      expect(result.purge).toBe(false);
+    });
+
+    it('should show help', () => {
+      expect(parseArgs(argv('remove', '--help'))).toEqual({ scriptMode: true, help: true });
+    });
+  });
+
+  describe('status command', () => {
+    it('should parse --json', () => {
+      const result = parseArgs(argv('status', '--json'));
+
+      expect(result.command).toBe('status');
+      expect(result.targets).toEqual([]);
+      expect(result.json).toBe(true);
+    });
+  });
+
+  describe('doctor command', () => {
+    it('should parse --json', () => {
+      const result = parseArgs(argv('doctor', '--json'));
+
+      expect(result.command).toBe('doctor');
+      expect(result.json).toBe(true);
+    });
+  });
+
+  describe('credentials command', () => {
+    it('should parse services and --json', () => {
+      const result = parseArgs(argv('credentials', 'postgresql,immich', '--json'));
+
+      expect(result.command).toBe('credentials');
+      expect(result.targets).toEqual(['postgresql', 'immich']);
+      expect(result.json).toBe(true);
+    });
+  });
+
+  describe('rotate-secret command', () => {
+    it('should parse the service', () => {
+      const result = parseArgs(argv('rotate-secret', 'postgresql'));
+
+      expect(result.command).toBe('rotate-secret');
+      expect(result.targets).toEqual(['postgresql']);
+    });
+  });
+
+  describe('backup and restore commands', () => {
+    it('should parse the output directory and --bucket', () => {
+      const result = parseArgs(argv('backup', 'immich', '--output', '/mnt/backups', '--bucket'));
+
+      expect(result.command).toBe('backup');
+      expect(result.targets).toEqual(['immich']);
+      expect(result.output).toBe('/mnt/backups');
+      expect(result.bucket).toBe(true);
+    });
+
+    it('should not take the archive for a service name', () => {
+      const result = parseArgs(argv('restore', '--archive', 'hal-backup.tar.gz', 'postgresql'));
+
+      expect(result.command).toBe('restore');
+      expect(result.archive).toBe('hal-backup.tar.gz');
+      expect(result.targets).toEqual(['postgresql']);
+    });
+
+    it('should parse scheduled runs and the configuration file of backup schedule', () => {
+      expect(parseArgs(argv('backup', 'n8n', '--scheduled')).scheduled).toBe(true);
+
+      const result = parseArgs(argv('backup', 'schedule', '--config', 'hal.yml'));
+      expect(result.targets).toEqual(['schedule']);
+      expect(result.configFile).toBe('hal.yml');
+    });
+  });
+
+  describe('migrate command', () => {
+    it('should parse the action, bundle and IP of this host', () => {
+      const result = parseArgs(argv('migrate', 'import', '--archive', 'hal-migrate.tar.gz', '--ip', '10.0.0.5'));
+
+      expect(result.command).toBe('migrate');
+      expect(result.targets).toEqual(['import']);
+      expect(result.archive).toBe('hal-migrate.tar.gz');
+      expect(result.ip).toBe('10.0.0.5');
+    });
+  });
+
+  describe('upgrade command', () => {
+    it('should allow no targets', () => {
+      const result = parseArgs(argv('upgrade'));
+
+      expect(result.command).toBe('upgrade');
+      expect(result.targets).toEqual([]);
+    });
+  });
+
+  describe('export command', () => {
+    it('should parse the format and output directory', () => {
+      const result = parseArgs(argv('export', 'compose', '--output', './stack'));
+
+      expect(result.command).toBe('export');
+      expect(result.targets).toEqual(['compose']);
+      expect(result.output).toBe('./stack');
+      expect(result.apply).toBe(false);
+    });
+
+    it('should parse --apply', () => {
+      expect(parseArgs(argv('export', 'k8s', '--apply')).apply).toBe(true);
+    });
+  });
+
+  describe('resume commands', () => {
+    it('should parse resume and retry-failed', () => {
+      expect(parseArgs(argv('resume')).command).toBe('resume');
+
+      const result = parseArgs(argv('retry-failed', '--parallel', '3'));
+      expect(result.command).toBe('retry-failed');
+      expect(result.parallel).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'bun:test';
+import { ConfigFile } from '../../../src/cli/config-file.js';
+import { ServiceType } from '../../../src/core/types.js';
+import { HomelabError } from '../../../src/utils/errors.js';
+
+const errorsOf = (content: string, env: Record<string, string> = {}): string[] => {
+  try {
+    ConfigFile.parse(content, 'hal.yml', env);
+  } catch (error) {
+    expect(error).toBeInstanceOf(HomelabError);
+    return (error as HomelabError).context!.errors;
+  }
+  return [];
+};
+
+describe('ConfigFile', () => {
+  it('should parse settings and service overrides', () => {
+    const config = ConfigFile.parse(`
+ip: 192.168.1.50
+domain: lab.lan
+networkName: lab-net
+dataPath: mnt/data
+managementUI: arcane
+services:
+  postgresql:
+  n8n:
+    tag: 1.80.0
+    port: 5679
+    env:
+      N8N_LOG_LEVEL: debug
+      N8N_PORT: 5678
+  kafka:
+    enabled: false
+`, 'hal.yml', {});
+
+    expect(config.ip).toBe('192.168.1.50');
+    expect(config.networkName).toBe('lab-net');
+    expect(config.managementUI).toBe(ServiceType.ARCANE);
+    expect(config.services?.[ServiceType.POSTGRESQL]).toEqual({});
+    expect(config.services?.[ServiceType.N8N]).toEqual({
+      tag: '1.80.0',
+      port: 5679,
+      env: { N8N_LOG_LEVEL: 'debug', N8N_PORT: '5678' },
+    });
+    expect(config.services?.[ServiceType.KAFKA]?.enabled).toBe(false);
+  });
+
+  it('should resolve environment references', () => {
+    const config = ConfigFile.parse(`
+storagePassword: \${HAL_DB_PASSWORD}
+domain: \${HAL_DOMAIN:-homelab.lan}
+services:
+  n8n:
+    env:
+      N8N_ENCRYPTION_KEY: key-\${N8N_KEY}
+`, 'hal.yml', { HAL_DB_PASSWORD: 's3cret!', N8N_KEY: 'abc' });
+
+    expect(config.storagePassword).toBe('s3cret!');
+    expect(config.domain).toBe('homelab.lan');
+    expect(config.services?.[ServiceType.N8N]?.env?.N8N_ENCRYPTION_KEY).toBe('key-abc');
+  });
+
+  it('should report missing environment variables with their location', () => {
+    expect(errorsOf('storagePassword: ${MISSING}')).toEqual([
+      'storagePassword: environment variable MISSING is not set',
+    ]);
+  });
+
+  it('should report every invalid setting', () => {
+    const errors = errorsOf(`
+ip: 999.1.1.1
+dataPath: ../outside
+colour: blue
+managementUI: portainer
+services:
+  caddy:
+    enabled: false
+  nope: {}
+  grafana:
+    port: 8080
+    tag: "bad tag"
+  n8n:
+    port: 8080
+    image: n8n
+`);
+
+    expect(errors).toHaveLength(9);
+    expect(errors).toContain('colour: unknown setting (expected one of ip, domain, networkName, configPath, dataPath, storagePassword, managementUI, services)');
+    expect(errors).toContain('services.caddy.enabled: core services cannot be disabled');
+    expect(errors).toContain('services.nope: unknown service');
+    expect(errors).toContain('services.n8n.port: 8080 is already used by services.grafana');
+    expect(errors).toContain('services.n8n.image: unknown setting (expected one of enabled, tag, env, port, dataPath, backup)');
+  });
+
+  it('should validate backup schedules', () => {
+    const config = ConfigFile.parse(`
+services:
+  immich:
+    backup:
+      schedule: "0 3 * * *"
+      keepDaily: 7
+      keepMonthly: 6
+`, 'hal.yml');
+    expect(config.services?.[ServiceType.IMMICH]?.backup).toEqual({ schedule: '0 3 * * *', keepDaily: 7, keepMonthly: 6 });
+
+    const errors = errorsOf(`
+services:
+  n8n:
+    backup:
+      schedule: "0 25 * * *"
+      keepWeekly: -1
+      bucket: yes please
+  immich:
+    backup: daily
+`);
+    expect(errors).toEqual([
+      'services.n8n.backup.schedule: Invalid backup schedule "0 25 * * *": hour "25" is out of range 0-23',
+      'services.n8n.backup.keepWeekly: must be a whole number of restore points',
+      'services.n8n.backup.bucket: must be true or false',
+      'services.immich.backup: must be a mapping with a cron schedule (e.g. schedule: "0 3 * * *")',
+    ]);
+  });
+
+  it('should reject invalid YAML', () => {
+    expect(errorsOf('services: [unclosed')[0]).toStartWith('not valid YAML');
+  });
+});
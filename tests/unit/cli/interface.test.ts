@@ -2,9 +2,10 @@
  * Unit tests for CLI interface class
  */
 
-import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { describe, it, expect, beforeEach, mock, spyOn } from 'bun:test';
 import { CLIInterface } from '../../../src/cli/interface.js';
 import { ServiceType, HomelabError } from '../../../src/core/types.js';
+import { StateManager } from '../../../src/utils/state.js';
 
 describe('CLI Interface Unit Tests', () => {
   let cli: CLIInterface;
@@ -163,4 +164,30 @@ describe('CLI Interface Unit Tests', () => {
       }).toThrow('At least one service must be selected');
     });
   });
-});
\ No newline at end of file
+
+  describe('Previous Installation', () => {
+    it('should keep the reassigned ports of the previous installation on a re-run', async () => {
+      const portMappings = { [ServiceType.N8N]: { '5678': 5679 } };
+      const load = spyOn(StateManager, 'load').mockResolvedValue({
+        version: 3,
+        installedAt: new Date().toISOString(),
+        ip: '192.168.1.100',
+        domain: 'homelab.lan',
+        networkName: 'homelab-network',
+        configPath: 'ws/init',
+        dataPath: 'ws/data',
+        managementUI: ServiceType.DOCKHAND,
+        selectedServices: [ServiceType.CADDY, ServiceType.COPYPARTY, ServiceType.DOCKHAND, ServiceType.N8N],
+        portMappings,
+      });
+      try {
+        const config = await new CLIInterface(['bun', 'hal', '--ip', '192.168.1.100']).run();
+
+        expect(config.selectedServices).toContain(ServiceType.N8N);
+        expect(config.portMappings).toEqual(portMappings);
+      } finally {
+        load.mockRestore();
+      }
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'bun:test';
+import { ServiceProfiles, BUILTIN_PROFILES, SERVICE_TAGS, DEFAULT_OPTIONAL_SERVICES } from '../../../src/cli/profiles.js';
+import { ServiceType } from '../../../src/core/types.js';
+import { HomelabError } from '../../../src/utils/errors.js';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('ServiceProfiles', () => {
+  it('should only reference known optional services', () => {
+    const groups = [...Object.values(BUILTIN_PROFILES).map(p => p.services), ...Object.values(SERVICE_TAGS)];
+    for (const services of groups) {
+      for (const service of services) {
+        expect(Object.values(ServiceType)).toContain(service);
+        expect([ServiceType.CADDY, ServiceType.COPYPARTY, ServiceType.DOCKHAND, ServiceType.ARCANE]).not.toContain(service);
+      }
+    }
+  });
+
+  it('should resolve profiles, tags and exclusions', () => {
+    const services = ServiceProfiles.resolve(['profile:ai', 'tag:database', '-kafka', '-redis']);
+
+    expect(services).toContain(ServiceType.OLLAMA);
+    expect(services).toContain(ServiceType.LIGHTRAG);
+    expect(services).toContain(ServiceType.MONGODB);
+    expect(services).not.toContain(ServiceType.REDIS);
+    expect(new Set(services).size).toBe(services.length);
+  });
+
+  it('should apply exclusions after every inclusion', () => {
+    expect(ServiceProfiles.resolve(['-qdrant', 'profile:ai'])).not.toContain(ServiceType.QDRANT);
+    expect(ServiceProfiles.resolve(['profile:observability', '-tag:observability'])).toEqual([]);
+  });
+
+  it('should start from the defaults when only exclusions are given', () => {
+    expect(ServiceProfiles.resolve(['-kafka'])).toEqual(
+      DEFAULT_OPTIONAL_SERVICES.filter(s => s !== ServiceType.KAFKA),
+    );
+  });
+
+  it('should reject unknown profiles and tags', () => {
+    expect(() => ServiceProfiles.resolve(['profile:games'])).toThrow(HomelabError);
+    expect(() => ServiceProfiles.resolve(['tag:games'])).toThrow('unknown tag "games"');
+  });
+
+  it('should resolve custom profiles that reference other profiles', () => {
+    const custom = ServiceProfiles.parseCustom(`
+profiles:
+  mystack: [profile:ai, postgresql, -ollama]
+  team:
+    - profile:mystack
+    - n8n
+`, 'hal-profiles.yml');
+
+    const services = ServiceProfiles.resolve(['profile:team'], custom);
+    expect(services).toContain(ServiceType.POSTGRESQL);
+    expect(services).toContain(ServiceType.N8N);
+    expect(services).toContain(ServiceType.LITELLM);
+    expect(services).not.toContain(ServiceType.OLLAMA);
+    expect(ServiceProfiles.list(custom).map(p => p.name)).toContain('team');
+  });
+
+  it('should detect profiles that reference themselves', () => {
+    const custom = { loop: ['profile:other'], other: ['profile:loop'] };
+    expect(() => ServiceProfiles.resolve(['profile:loop'], custom)).toThrow('references itself');
+  });
+
+  it('should report every problem in a custom profiles file', () => {
+    try {
+      ServiceProfiles.parseCustom(`
+profiles:
+  Bad Name: [n8n]
+  empty: []
+  typo: [n8nn]
+`, 'hal-profiles.yml');
+      throw new Error('expected an error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(HomelabError);
+      expect((error as HomelabError).code).toBe('PROFILES_FILE_INVALID');
+      expect((error as HomelabError).context!.errors).toHaveLength(3);
+    }
+  });
+
+  it('should treat a missing profiles file as no custom profiles', async () => {
+    expect(await ServiceProfiles.loadCustom(join(tmpdir(), 'hal-missing', 'hal-profiles.yml'))).toEqual({});
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'bun:test';
+import { CredentialStore, PASSPHRASE_ENV } from '../../src/utils/credentials.js';
+import { ServiceType, HomelabConfig, DistributionType } from '../../src/core/types.js';
+import { TemplateEngine } from '../../src/templates/engine.js';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { join, relative } from 'path';
+import { tmpdir, homedir } from 'os';
+import { randomBytes } from 'crypto';
+
+describe('CredentialStore', () => {
+  const config = (extra: Partial<HomelabConfig> = {}): HomelabConfig => ({
+    ip: '192.168.1.100',
+    domain: 'homelab.lan',
+    networkName: 'homelab-network',
+    configPath: 'ws/init',
+    dataPath: 'ws/data',
+    selectedServices: [],
+    distribution: DistributionType.UBUNTU,
+    ...extra,
+  });
+
+  it('should generate strong alphanumeric secrets', () => {
+    const first = CredentialStore.generate();
+    expect(first).toMatch(/^[A-Za-z0-9]{24}$/);
+    expect(CredentialStore.generate()).not.toBe(first);
+    expect(CredentialStore.generate(40)).toHaveLength(40);
+  });
+
+  it('should find the secrets referenced by a template', async () => {
+    const template = (await new TemplateEngine('templates').load('services/immich')).content;
+
+    expect(CredentialStore.findReferences(template, ServiceType.IMMICH)).toEqual(['immich.db']);
+    expect(CredentialStore.findReferences({ commands: { run: '-e PASS={{STORAGE_PASSWORD}}' } }, ServiceType.N8N))
+      .toEqual(['n8n.password']);
+    expect(CredentialStore.findReferences({}, ServiceType.TINYAUTH)).toEqual(['tinyauth.admin']);
+  });
+
+  it('should only generate missing secrets', () => {
+    const secrets: Record<string, string> = { 'postgresql.root': 'kept' };
+
+    expect(CredentialStore.ensure(secrets, ['postgresql.root', 'immich.db'])).toEqual(['immich.db']);
+    expect(secrets['postgresql.root']).toBe('kept');
+    expect(secrets['immich.db']).toMatch(/^[A-Za-z0-9]{24}$/);
+  });
+
+  it('should resolve secrets per service, or to the shared password in legacy mode', () => {
+    const withStore = config({ storagePassword: 'ignored', credentials: { 'postgresql.root': 'r00t' } });
+    expect(CredentialStore.resolve(withStore, 'postgresql.root')).toBe('r00t');
+
+    expect(CredentialStore.resolve(config({ storagePassword: 'shared' }), 'postgresql.root')).toBe('shared');
+  });
+
+  it('should not generate secrets that are missing from the store', () => {
+    const withStore = config({ credentials: {} });
+
+    expect(() => CredentialStore.resolve(withStore, 'immich.db')).toThrow('Secret immich.db not found');
+    expect(withStore.credentials).toEqual({});
+  });
+
+  it('should select the secrets of one service', () => {
+    const secrets = { 'postgresql.root': 'a', 'plausible.db': 'b', 'plausible.clickhouse': 'c' };
+
+    expect(CredentialStore.forService(secrets, 'plausible')).toEqual({ 'plausible.db': 'b', 'plausible.clickhouse': 'c' });
+    expect(CredentialStore.forService(secrets, 'postgres')).toEqual({});
+  });
+
+  it('should not leave shared password variables in the service templates', async () => {
+    const engine = new TemplateEngine('templates');
+    for (const service of [ServiceType.POSTGRESQL, ServiceType.MAILSERVER, ServiceType.LIQUIBASE, ServiceType.LITELLM]) {
+      const content = JSON.stringify((await engine.load(`services/${service}`)).content);
+      expect(content).not.toMatch(/\{\{(STORAGE|MAIL)_PASSWORD\}\}|Admin\d\d!/);
+    }
+  });
+
+  it('should encrypt secrets and reject a wrong key', () => {
+    const key = randomBytes(32);
+    const payload = CredentialStore.encrypt({ 'postgresql.root': 'secret' }, key);
+
+    expect(payload.data).not.toContain('secret');
+    expect(CredentialStore.decrypt(payload, key)).toEqual({ 'postgresql.root': 'secret' });
+    expect(() => CredentialStore.decrypt(payload, randomBytes(32))).toThrow();
+  });
+
+  it('should encrypt a plain text store with the passphrase on load', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'hal-credentials-'));
+    const configPath = relative(homedir(), dir);
+    process.env[PASSPHRASE_ENV] = 'correct horse';
+    try {
+      writeFileSync(CredentialStore.getPath(configPath), JSON.stringify({ version: 1, secrets: { 'immich.db': 'plain' } }));
+
+      expect(await CredentialStore.load(configPath)).toEqual({ 'immich.db': 'plain' });
+      const file = JSON.parse(readFileSync(CredentialStore.getPath(configPath), 'utf-8'));
+      expect(file.kdf).toBe('scrypt');
+      expect(JSON.stringify(file)).not.toContain('plain');
+
+      process.env[PASSPHRASE_ENV] = 'wrong';
+      await expect(CredentialStore.load(configPath)).rejects.toThrow('cannot be decrypted');
+    } finally {
+      delete process.env[PASSPHRASE_ENV];
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -126,6 +126,33 @@ describe('BaseDistributionStrategy', () => {
   });
 });
 
+describe('planHostChanges', () => {
+  let strategy: TestDistributionStrategy;
+
+  beforeEach(() => {
+    strategy = new TestDistributionStrategy();
+  });
+
+  it('should plan Docker, firewall and dnsmasq operations', async () => {
+    spyOn(strategy as any, 'commandExists').mockResolvedValue(false);
+
+    const operations = await strategy.planHostChanges('homelab.lan', '192.168.1.50', ['n8n'], true);
+
+    expect(operations[0]).toContain('sudo test-pm install docker');
+    expect(operations).toContain('sudo ufw allow 443/tcp');
+    expect(operations.some(op => op.includes('/etc/dnsmasq.d/homelab.conf'))).toBe(true);
+  });
+
+  it('should skip Docker and dnsmasq when not needed', async () => {
+    spyOn(strategy as any, 'commandExists').mockResolvedValue(true);
+
+    const operations = await strategy.planHostChanges('example.com', '1.2.3.4', [], false);
+
+    expect(operations.some(op => op.includes('docker'))).toBe(false);
+    expect(operations.some(op => op.includes('dnsmasq'))).toBe(false);
+  });
+});
+
 describe('DistributionDetector', () => {
   let detector: DistributionDetector;
 
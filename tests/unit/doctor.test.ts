@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'bun:test';
+import { HostDoctor } from '../../src/core/doctor.js';
+
+describe('HostDoctor', () => {
+  it('should tell a stopped runtime from a missing one', () => {
+    const stopped = HostDoctor.evaluateRuntime(true, false, false);
+    expect(stopped.status).toBe('fail');
+    expect(stopped.fix).toContain('systemctl enable --now docker');
+
+    expect(HostDoctor.evaluateRuntime(false, true, true).fix).toBe('podman machine start');
+    expect(HostDoctor.evaluateRuntime(false, false, false).status).toBe('warn');
+  });
+
+  it('should detect a docker group that is not applied to the session', () => {
+    const entry = 'docker:x:998:alice';
+
+    expect(HostDoctor.evaluateDockerGroup('alice', ['alice', 'docker'], entry)?.status).toBe('pass');
+    expect(HostDoctor.evaluateDockerGroup('alice', ['alice'], entry)?.fix).toContain('newgrp docker');
+    expect(HostDoctor.evaluateDockerGroup('bob', ['bob'], entry)?.fix).toContain('usermod -aG docker bob');
+    expect(HostDoctor.evaluateDockerGroup('alice', ['alice'], '')).toBeUndefined();
+  });
+
+  it('should fail when ports 80/443 are taken by something other than Caddy', () => {
+    expect(HostDoctor.evaluateWebPorts([{ port: 80, container: 'caddy' }], false).status).toBe('pass');
+
+    const busy = HostDoctor.evaluateWebPorts([{ port: 443 }], false);
+    expect(busy.status).toBe('fail');
+    expect(busy.message).toContain('443 (host process)');
+  });
+
+  it('should fail when rootless Podman cannot bind privileged ports', () => {
+    const result = HostDoctor.evaluateWebPorts([], true, 1024);
+
+    expect(result.status).toBe('fail');
+    expect(result.fix).toContain('ip_unprivileged_port_start=80');
+    expect(HostDoctor.evaluateWebPorts([], true, 80).status).toBe('pass');
+    expect(HostDoctor.evaluateWebPorts([], false, 1024).status).toBe('pass');
+  });
+
+  it('should warn when systemd-resolved holds port 53', () => {
+    expect(HostDoctor.evaluateDnsPort([{ port: 53 }], true).fix).toContain('DNSStubListener=no');
+    expect(HostDoctor.evaluateDnsPort([{ port: 53 }], false).status).toBe('pass');
+    expect(HostDoctor.evaluateDnsPort([], true).status).toBe('pass');
+  });
+
+  it('should grade disk and memory', () => {
+    expect(HostDoctor.evaluateResources(16384, 1024, '/var/lib/docker').status).toBe('fail');
+    expect(HostDoctor.evaluateResources(16384, 5120, '/var/lib/docker').status).toBe('warn');
+    expect(HostDoctor.evaluateResources(2048, 51200, '/var/lib/docker').status).toBe('warn');
+    expect(HostDoctor.evaluateResources(16384, undefined, '/var/lib/docker').status).toBe('pass');
+  });
+
+  it('should warn when the local IP changed since the installation', () => {
+    expect(HostDoctor.evaluateIP(null).status).toBe('warn');
+    expect(HostDoctor.evaluateIP('192.168.1.20', '192.168.1.10').fix).toContain('--ip 192.168.1.20');
+    expect(HostDoctor.evaluateIP('192.168.1.10', '192.168.1.10').status).toBe('pass');
+  });
+
+  it('should exit non-zero only when a check fails', () => {
+    expect(HostDoctor.exitCode([{ name: 'a', status: 'warn', message: '' }])).toBe(0);
+    expect(HostDoctor.exitCode([{ name: 'a', status: 'pass', message: '' }, { name: 'b', status: 'fail', message: '' }])).toBe(1);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { DryRun, writeFile, mkdir } from '../../src/utils/dryrun.js';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('DryRun', () => {
+  afterEach(() => {
+    DryRun.disable();
+  });
+
+  it('should record operations only when enabled', () => {
+    DryRun.recordCommand('docker pull caddy', 'Caddy');
+    expect(DryRun.getOperations()).toHaveLength(0);
+
+    DryRun.enable();
+    DryRun.recordCommand('docker pull caddy', 'Caddy');
+    DryRun.recordSudo('sudo ufw allow 80/tcp', 'ubuntu');
+    DryRun.recordFile('/home/user/ws/init/Caddyfile', 'Caddy');
+
+    expect(DryRun.getOperations()).toHaveLength(3);
+    expect(DryRun.getOperations('sudo')).toEqual([
+      { kind: 'sudo', detail: 'sudo ufw allow 80/tcp', source: 'ubuntu' },
+    ]);
+  });
+
+  it('should reset operations when enabled again', () => {
+    DryRun.enable();
+    DryRun.recordCommand('docker pull caddy', 'Caddy');
+    DryRun.enable();
+
+    expect(DryRun.getOperations()).toHaveLength(0);
+  });
+
+  it('should not touch the filesystem during a dry run', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'hal-dryrun-'));
+    try {
+      DryRun.enable();
+      await mkdir(join(dir, 'caddy'), { recursive: true });
+      await writeFile(join(dir, 'Caddyfile'), 'content');
+
+      expect(existsSync(join(dir, 'caddy'))).toBe(false);
+      expect(existsSync(join(dir, 'Caddyfile'))).toBe(false);
+      expect(DryRun.getOperations('file')[0].detail).toBe(join(dir, 'Caddyfile'));
+
+      DryRun.disable();
+      await writeFile(join(dir, 'Caddyfile'), 'content');
+      expect(existsSync(join(dir, 'Caddyfile'))).toBe(true);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { ComposeExporter } from '../../../src/export/compose.js';
+import { DockerRunParser } from '../../../src/export/docker-run.js';
+import { ServiceType, HomelabConfig, DistributionType } from '../../../src/core/types.js';
+import { TemplateEngine } from '../../../src/templates/engine.js';
+
+// Mock Bun shell
+mock.module('bun', () => ({
+  $: mock(() => Promise.resolve({ exitCode: 0, stderr: '' }))
+}));
+
+describe('ComposeExporter', () => {
+  const config: HomelabConfig = {
+    ip: '192.168.1.100',
+    domain: 'homelab.local',
+    networkName: 'homelab-network',
+    selectedServices: [ServiceType.CADDY, ServiceType.COPYPARTY, ServiceType.POSTGRESQL, ServiceType.REDIS, ServiceType.IMMICH],
+    distribution: DistributionType.UBUNTU,
+    configPath: 'ws/init',
+    dataPath: 'ws/data',
+    storagePassword: 'secret',
+  };
+
+  it('should turn multi-container templates into several services with depends_on', async () => {
+    const { compose } = await new ComposeExporter(config, new TemplateEngine('templates')).build();
+
+    const server = compose.services['immich-server'];
+    expect(server.image).toBe('ghcr.io/immich-app/immich-server:release');
+    expect(server.restart).toBe('always');
+    expect(server.ports).toEqual(['2283:2283']);
+    expect(server.environment.DB_PASSWORD).toBe('secret');
+    expect(server.volumes).toEqual(['${HOME}/ws/data/immich/data:/data']);
+    expect(server.networks).toEqual(['homelab-network']);
+    expect(server.depends_on).toEqual(['postgresql', 'redis']);
+
+    expect(compose.services['immich-ml'].depends_on).toEqual(['postgresql', 'redis', 'immich-server']);
+    expect(compose.networks['homelab-network']).toEqual({ name: 'homelab-network', external: true });
+    expect(compose.volumes.postgres_data).toEqual({ name: 'postgres_data', external: true });
+  });
+
+  it('should keep the template healthcheck of installed containers', async () => {
+    const { compose } = await new ComposeExporter(config, new TemplateEngine('templates')).build();
+
+    expect(compose.services.postgresql.healthcheck).toEqual({
+      test: ['CMD-SHELL', 'pg_isready -U root -d postgres'],
+      interval: '5s',
+      timeout: '5s',
+      retries: 12,
+    });
+  });
+
+  it('should run setup steps before starting the containers of each service', async () => {
+    const { setupScript } = await new ComposeExporter(config, new TemplateEngine('templates')).build();
+
+    const mkdir = setupScript.indexOf('mkdir -p ~/ws/data/immich/data');
+    const dbUser = setupScript.indexOf('CREATE USER immich');
+    const up = setupScript.indexOf('docker compose up -d immich-server immich-ml');
+    const postgres = setupScript.indexOf('docker compose up -d postgresql');
+
+    expect(postgres).toBeGreaterThan(-1);
+    expect(postgres).toBeLessThan(mkdir);
+    expect(mkdir).toBeLessThan(dbUser);
+    expect(dbUser).toBeLessThan(up);
+    expect(setupScript).not.toContain('docker pull');
+  });
+
+  it('should escape $ in values and map host networking', () => {
+    const [spec] = DockerRunParser.parse('docker run -d --name app --network host -e PASS=a$b -v ~/data:/data img');
+    const service = ComposeExporter.toComposeService(spec);
+
+    expect(service.environment).toEqual({ PASS: 'a$$b' });
+    expect(service.network_mode).toBe('host');
+    expect(service.volumes).toEqual(['${HOME}/data:/data']);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'bun:test';
+import { DockerRunParser } from '../../../src/export/docker-run.js';
+
+describe('DockerRunParser', () => {
+  it('should split commands on separators and join line continuations', () => {
+    const segments = DockerRunParser.tokenize('docker rm -f app 2>/dev/null || true && docker run \\\n  -d --name app nginx\nsleep 3');
+    expect(segments).toEqual([
+      ['docker', 'rm', '-f', 'app', '2>/dev/null'],
+      ['true'],
+      ['docker', 'run', '-d', '--name', 'app', 'nginx'],
+      ['sleep', '3'],
+    ]);
+  });
+
+  it('should remove quotes and keep quoted separators', () => {
+    const [segment] = DockerRunParser.tokenize(`docker run -e "OPTS=-Xms1g -Xmx1g" -e 'A=x;y' -e B=a\\ b img`);
+    expect(segment).toEqual(['docker', 'run', '-e', 'OPTS=-Xms1g -Xmx1g', '-e', 'A=x;y', '-e', 'B=a b', 'img']);
+  });
+
+  it('should parse flags, image and trailing command', () => {
+    const [spec] = DockerRunParser.parse(`docker run \\
+      -d \\
+      --name redis \\
+      --network homelab \\
+      -p 6379:6379 \\
+      -e TZ=UTC \\
+      -v redis_data:/data \\
+      --restart=unless-stopped \\
+      --ulimit nofile=65536:65536 \\
+      redis:7 redis-server --appendonly yes`);
+
+    expect(spec.name).toBe('redis');
+    expect(spec.network).toBe('homelab');
+    expect(spec.ports).toEqual(['6379:6379']);
+    expect(spec.environment).toEqual({ TZ: 'UTC' });
+    expect(spec.volumes).toEqual(['redis_data:/data']);
+    expect(spec.restart).toBe('unless-stopped');
+    expect(spec.ulimits).toEqual(['nofile=65536:65536']);
+    expect(spec.image).toBe('redis:7');
+    expect(spec.command).toEqual(['redis-server', '--appendonly', 'yes']);
+    expect(spec.oneShot).toBe(false);
+  });
+
+  it('should parse every container of a multi-container run command', () => {
+    const specs = DockerRunParser.parse(`docker run -d --name immich-server -p 2283:2283 ghcr.io/immich-app/immich-server:release
+
+docker run -d --name immich-ml -v ~/ws/data/immich/model-cache:/cache ghcr.io/immich-app/immich-machine-learning:release`);
+
+    expect(specs.map(s => s.name)).toEqual(['immich-server', 'immich-ml']);
+    expect(specs[1].volumes).toEqual(['~/ws/data/immich/model-cache:/cache']);
+  });
+
+  it('should mark --rm containers as one-shot and report unknown flags', () => {
+    const [spec] = DockerRunParser.parse('docker run --rm --gpus all --entrypoint sh img -c "echo hi"');
+    expect(spec.oneShot).toBe(true);
+    expect(spec.entrypoint).toBe('sh');
+    expect(spec.unsupported).toEqual(['--gpus all']);
+    expect(spec.command).toEqual(['-c', 'echo hi']);
+  });
+
+  it('should parse healthcheck flags', () => {
+    const [spec] = DockerRunParser.parse(
+      "docker run -d --name db --health-cmd 'pg_isready -U root' --health-interval 5s --health-retries 12 --health-start-period=30s img",
+    );
+    expect(spec.healthcheck).toEqual({ command: 'pg_isready -U root', interval: '5s', retries: 12, startPeriod: '30s' });
+    expect(spec.unsupported).toEqual([]);
+  });
+
+  it('should ignore commands that are not docker run', () => {
+    expect(DockerRunParser.parse('docker exec postgresql psql -c "SELECT 1"')).toEqual([]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { K8sExporter } from '../../../src/export/k8s.js';
+import { DockerRunParser } from '../../../src/export/docker-run.js';
+import { ServiceType, HomelabConfig, DistributionType } from '../../../src/core/types.js';
+import { TemplateEngine } from '../../../src/templates/engine.js';
+
+// Mock Bun shell
+mock.module('bun', () => ({
+  $: mock(() => Promise.resolve({ exitCode: 0, stderr: '' }))
+}));
+
+describe('K8sExporter', () => {
+  const config: HomelabConfig = {
+    ip: '192.168.1.100',
+    domain: 'homelab.local',
+    networkName: 'homelab-network',
+    selectedServices: [ServiceType.CADDY, ServiceType.COPYPARTY, ServiceType.POSTGRESQL, ServiceType.GRAFANA],
+    distribution: DistributionType.UBUNTU,
+    configPath: 'ws/init',
+    dataPath: 'ws/data',
+    storagePassword: 'secret',
+  };
+
+  it('should emit a Deployment, Service and Ingress using the Caddy route', async () => {
+    const { manifests } = await new K8sExporter(config, new TemplateEngine('templates')).build();
+    const find = (kind: string, name: string): any => manifests.find(m => m.kind === kind && m.metadata.name === name);
+
+    expect(manifests[0]).toEqual({ apiVersion: 'v1', kind: 'Namespace', metadata: { name: 'homelab-network' } });
+    expect(find('Deployment', 'caddy')).toBeUndefined();
+
+    const deployment = find('Deployment', 'grafana');
+    expect(deployment.spec.template.spec.containers[0].image).toContain('grafana');
+
+    const ingress = find('Ingress', 'grafana');
+    expect(ingress.spec.rules[0].host).toBe('grafana.homelab.local');
+    expect(ingress.spec.rules[0].http.paths[0].backend.service).toEqual({ name: 'grafana', port: { number: 3000 } });
+    expect(find('Service', 'grafana').spec.ports.map((p: any) => p.port)).toContain(3000);
+
+    expect(find('PersistentVolumeClaim', 'postgres-data')).toBeDefined();
+  });
+
+  it('should map volumes, environment and security options', () => {
+    const [spec] = DockerRunParser.parse(
+      'docker run -d --name app --privileged --user 1000 -e A=x -v app_data:/data -v /var/run/docker.sock:/var/run/docker.sock:ro img serve',
+    );
+    const warnings: string[] = [];
+    const deployment = K8sExporter.toDeployment(spec, 'hal', 'app', [], warnings);
+    const pod = deployment.spec.template.spec;
+
+    expect(pod.containers[0].args).toEqual(['serve']);
+    expect(pod.containers[0].env).toEqual([{ name: 'A', value: 'x' }]);
+    expect(pod.containers[0].securityContext).toEqual({ privileged: true, runAsUser: 1000 });
+    expect(pod.containers[0].volumeMounts[1]).toEqual({ name: 'vol-1', mountPath: '/var/run/docker.sock', readOnly: true });
+    expect(pod.volumes).toEqual([
+      { name: 'vol-0', persistentVolumeClaim: { claimName: 'app-data' } },
+      { name: 'vol-1', hostPath: { path: '/var/run/docker.sock' } },
+    ]);
+    expect(warnings).toHaveLength(1);
+  });
+
+  it('should probe readiness with the container healthcheck', () => {
+    const [spec] = DockerRunParser.parse("docker run -d --name db --health-cmd 'pg_isready -U root' --health-interval 5s --health-timeout 500ms --health-retries 12 img");
+    const deployment = K8sExporter.toDeployment(spec, 'hal', 'db', []);
+
+    expect(deployment.spec.template.spec.containers[0].readinessProbe).toEqual({
+      exec: { command: ['sh', '-c', 'pg_isready -U root'] },
+      periodSeconds: 5,
+      timeoutSeconds: 1,
+      failureThreshold: 12,
+    });
+  });
+
+  it('should collect container ports from publish mappings', () => {
+    expect(K8sExporter.toContainerPorts(['8080:80', '127.0.0.1:53:53/udp', '9000'], 80)).toEqual([
+      { containerPort: 80, protocol: 'TCP' },
+      { containerPort: 53, protocol: 'UDP' },
+      { containerPort: 9000, protocol: 'TCP' },
+    ]);
+  });
+
+  it('should refuse to apply without the k3d service', async () => {
+    await expect(new K8sExporter(config, new TemplateEngine('templates')).apply('/tmp/homelab.yaml'))
+      .rejects.toThrow('k3d is not installed');
+  });
+
+  it('should build valid resource names', () => {
+    expect(K8sExporter.toResourceName('plausible_clickhouse')).toBe('plausible-clickhouse');
+    expect(K8sExporter.toResourceName('Postgres_Data')).toBe('postgres-data');
+  });
+});
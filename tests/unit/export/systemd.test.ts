@@ -0,0 +1,59 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { SystemdExporter, HOMELAB_TARGET } from '../../../src/export/systemd.js';
+import { DockerRunParser } from '../../../src/export/docker-run.js';
+import { ServiceType, HomelabConfig, DistributionType } from '../../../src/core/types.js';
+import { TemplateEngine } from '../../../src/templates/engine.js';
+
+// Mock Bun shell
+mock.module('bun', () => ({
+  $: mock(() => Promise.resolve({ exitCode: 0, stderr: '' }))
+}));
+
+describe('SystemdExporter', () => {
+  const config: HomelabConfig = {
+    ip: '192.168.1.100',
+    domain: 'homelab.local',
+    networkName: 'homelab-network',
+    selectedServices: [ServiceType.CADDY, ServiceType.COPYPARTY, ServiceType.POSTGRESQL, ServiceType.REDIS, ServiceType.IMMICH],
+    distribution: DistributionType.UBUNTU,
+    configPath: 'ws/init',
+    dataPath: 'ws/data',
+    storagePassword: 'secret',
+  };
+
+  it('should order Docker units after the units of their dependencies', async () => {
+    const { units, containers } = await new SystemdExporter(config, new TemplateEngine('templates')).build('docker');
+
+    expect(Object.keys(units)[0]).toBe(HOMELAB_TARGET);
+    expect(containers.indexOf('postgresql')).toBeLessThan(containers.indexOf('immich-server'));
+
+    const server = units['hal-immich-server.service'];
+    expect(server).toContain('Requires=docker.service hal-postgresql.service hal-redis.service');
+    expect(server).toContain('ExecStart=/usr/bin/docker start -a immich-server');
+    expect(server).toContain(`WantedBy=${HOMELAB_TARGET}`);
+    expect(units['hal-immich-ml.service']).toContain('After=docker.service hal-postgresql.service hal-redis.service hal-immich-server.service');
+  });
+
+  it('should generate Quadlet files for Podman', async () => {
+    const { units } = await new SystemdExporter(config, new TemplateEngine('templates')).build('podman');
+
+    const postgres = units['hal-postgresql.container'];
+    expect(postgres).toContain('ContainerName=postgresql');
+    expect(postgres).toContain('Image=docker.io/pgvector/pgvector:pg17');
+    expect(postgres).toContain('Volume=postgres_data:/var/lib/postgresql/data');
+    expect(units['hal-immich-server.container']).toContain('Requires=hal-postgresql.service hal-redis.service');
+    expect(postgres).toContain('HealthCmd=pg_isready -U root -d postgres');
+    expect(postgres).toContain('HealthRetries=12');
+    expect(postgres).not.toContain('PodmanArgs=');
+  });
+
+  it('should escape specifiers, variables and whitespace', () => {
+    const [spec] = DockerRunParser.parse('docker run -d --name app -e "OPTS=-Xms1g -Xmx1g" -e PASS=50% img sh -c "echo $HOME"');
+    const quadlet = SystemdExporter.toQuadlet(spec, 'App', []);
+
+    expect(quadlet).toContain('Environment="OPTS=-Xms1g -Xmx1g"');
+    expect(quadlet).toContain('Environment=PASS=50%%');
+    expect(quadlet).toContain('Exec=sh -c "echo $$HOME"');
+    expect(quadlet).not.toContain('Requires=');
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for template healthchecks
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { HealthChecks } from '../../src/templates/healthcheck.js';
+
+const template = {
+  commands: {
+    run: [
+      'docker run \\',
+      '      -d \\',
+      '      --name immich-server \\',
+      '      -p 2283:2283 \\',
+      '      ghcr.io/immich-app/immich-server:release',
+      '',
+      'docker run -d --name immich-ml ghcr.io/immich-app/immich-machine-learning:release',
+    ].join('\n'),
+  },
+  healthcheck: { http: '/api/server/ping', interval: '5s', retries: 3 },
+};
+
+describe('HealthChecks', () => {
+  describe('validate', () => {
+    it('should accept each kind of probe', () => {
+      expect(HealthChecks.validate({ http: '/health', port: 8080 })).toEqual([]);
+      expect(HealthChecks.validate({ tcp: 5432, interval: '2s', startPeriod: '1m' })).toEqual([]);
+      expect(HealthChecks.validate({ exec: 'redis-cli ping', retries: 10, timeout: '500ms' })).toEqual([]);
+    });
+
+    it('should require exactly one probe', () => {
+      expect(HealthChecks.validate({ interval: '5s' })).toContain('healthcheck needs exactly one of http, tcp, exec');
+      expect(HealthChecks.validate({ tcp: 80, exec: 'true' })).toContain('healthcheck needs exactly one of http, tcp, exec');
+    });
+
+    it('should report invalid fields', () => {
+      expect(HealthChecks.validate({ http: 'health', tcp: undefined, interval: '5 seconds', retries: 0, ports: 80 })).toEqual([
+        'healthcheck.ports is not supported (expected http, tcp, exec, port, container, interval, timeout, startPeriod, retries)',
+        'healthcheck.http must be a path starting with /',
+        'healthcheck.interval must be a duration such as 10s or 1m',
+        'healthcheck.retries must be a positive whole number',
+      ]);
+      expect(HealthChecks.validate({ tcp: 70000 })).toEqual(['healthcheck.tcp must be a port number']);
+      expect(HealthChecks.validate('pg_isready')).toEqual(['healthcheck must be an object']);
+    });
+  });
+
+  describe('getTestCommand', () => {
+    it('should probe http, tcp and exec from inside the container', () => {
+      expect(HealthChecks.getTestCommand({ http: '/health' }, 3000))
+        .toBe('curl -fsS -o /dev/null http://127.0.0.1:3000/health || wget -q -O /dev/null http://127.0.0.1:3000/health');
+      expect(HealthChecks.getTestCommand({ http: '/health', port: 9000 }, 3000)).toContain('http://127.0.0.1:9000/health');
+      expect(HealthChecks.getTestCommand({ tcp: 5432 }))
+        .toBe("nc -z 127.0.0.1 5432 || bash -c 'echo > /dev/tcp/127.0.0.1/5432'");
+      expect(HealthChecks.getTestCommand({ exec: ' pg_isready -U root ' })).toBe('pg_isready -U root');
+    });
+  });
+
+  describe('getRunFlags', () => {
+    it('should quote the command and fill in defaults', () => {
+      expect(HealthChecks.getRunFlags({ exec: "mongosh --eval \"db.adminCommand('ping')\"", startPeriod: '30s' })).toBe(
+        `--health-cmd 'mongosh --eval "db.adminCommand('\\''ping'\\'')"' --health-interval 10s --health-timeout 5s --health-retries 5 --health-start-period 30s`,
+      );
+    });
+  });
+
+  describe('apply', () => {
+    it('should add the flags to the run command of the main container only', () => {
+      const command = HealthChecks.apply(template.commands.run, template);
+
+      expect(command).toContain(
+        "--name immich-server --health-cmd 'curl -fsS -o /dev/null http://127.0.0.1:2283/api/server/ping || wget -q -O /dev/null http://127.0.0.1:2283/api/server/ping' --health-interval 5s --health-timeout 5s --health-retries 3 \\\n",
+      );
+      expect(command).toContain('docker run -d --name immich-ml ghcr.io');
+      expect(command.match(/--health-cmd/g)).toHaveLength(1);
+    });
+
+    it('should use the container named in the block', () => {
+      const command = HealthChecks.apply(template.commands.run, {
+        ...template,
+        healthcheck: { exec: 'true', container: 'immich-ml' },
+      });
+
+      expect(command).toContain("--name immich-ml --health-cmd 'true'");
+      expect(command).toContain('--name immich-server \\');
+    });
+
+    it('should leave commands unchanged without a healthcheck', () => {
+      expect(HealthChecks.apply(template.commands.run, { commands: template.commands })).toBe(template.commands.run);
+      expect(HealthChecks.apply('docker exec immich-server ls', template)).toBe('docker exec immich-server ls');
+    });
+  });
+
+  describe('getProbe', () => {
+    it('should probe the published port of the container', () => {
+      expect(HealthChecks.getProbe(template, template.healthcheck)).toBe(
+        'curl -fsS -o /dev/null http://127.0.0.1:2283/api/server/ping || wget -q -O /dev/null http://127.0.0.1:2283/api/server/ping',
+      );
+      expect(HealthChecks.getProbe(template, { exec: 'pg_isready -U root', container: 'immich-ml' })).toBe('pg_isready -U root');
+    });
+  });
+
+  describe('getTimeoutMs', () => {
+    it('should cover the start period and every retry', () => {
+      expect(HealthChecks.getTimeoutMs({ exec: 'true', interval: '10s', timeout: '5s', retries: 5, startPeriod: '1m' })).toBe(150000);
+      expect(HealthChecks.getTimeoutMs({ exec: 'true', interval: '1s', timeout: '1s', retries: 1 })).toBe(30000);
+    });
+
+    it('should parse durations', () => {
+      expect(HealthChecks.parseDuration('500ms')).toBe(500);
+      expect(HealthChecks.parseDuration('2m')).toBe(120000);
+      expect(() => HealthChecks.parseDuration('2 minutes')).toThrow();
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { MigrationManager, MigrationRestore, MIGRATION_FORMAT_VERSION } from '../../src/core/migration.js';
+import { BACKUP_FORMAT_VERSION } from '../../src/core/backup.js';
+import { ServiceType, HomelabConfig, DistributionType } from '../../src/core/types.js';
+import { TemplateEngine } from '../../src/templates/engine.js';
+
+// Mock Bun shell
+mock.module('bun', () => ({
+  $: mock(() => Promise.resolve({ exitCode: 0, stderr: '' }))
+}));
+
+describe('MigrationManager', () => {
+  const config: HomelabConfig = {
+    ip: '192.168.1.100',
+    domain: 'homelab.local',
+    networkName: 'homelab-network',
+    selectedServices: [ServiceType.CADDY, ServiceType.COPYPARTY, ServiceType.POSTGRESQL, ServiceType.IMMICH],
+    distribution: DistributionType.UBUNTU,
+    configPath: 'ws/init',
+    dataPath: 'ws/data',
+    credentials: {},
+  };
+
+  it('should name bundles after their creation time', () => {
+    expect(MigrationManager.getBundleName(new Date('2026-01-10T10:20:30.456Z'))).toBe('hal-migrate-2026-01-10T10-20-30.tar.gz');
+  });
+
+  it('should reject manifests of another format', () => {
+    expect(() => MigrationManager.parseManifest('{')).toThrow('not valid JSON');
+    expect(() => MigrationManager.parseManifest(JSON.stringify({ version: 2, backup: 'backup.tar.gz', configPath: 'ws/init' })))
+      .toThrow('Unsupported migration bundle format 2');
+    expect(MigrationManager.parseManifest(JSON.stringify({ version: MIGRATION_FORMAT_VERSION, backup: 'backup.tar.gz', configPath: 'ws/init' })).backup)
+      .toBe('backup.tar.gz');
+  });
+
+  it('should replace the previous IP in environment overrides', () => {
+    const overrides = {
+      [ServiceType.N8N]: { tag: '1.80.0', env: { WEBHOOK_URL: 'http://192.168.1.100:5678/', N8N_KEY: 'abc' } },
+      [ServiceType.KAFKA]: { enabled: false },
+    };
+
+    expect(MigrationManager.rewriteIP(overrides, '192.168.1.100', '10.0.0.5')).toEqual({
+      [ServiceType.N8N]: { tag: '1.80.0', env: { WEBHOOK_URL: 'http://10.0.0.5:5678/', N8N_KEY: 'abc' } },
+      [ServiceType.KAFKA]: { enabled: false },
+    });
+    expect(MigrationManager.rewriteIP(overrides, '192.168.1.100', '192.168.1.100')).toBe(overrides);
+    expect(MigrationManager.rewriteIP(undefined, '192.168.1.100', '10.0.0.5')).toBeUndefined();
+  });
+
+  it('should refuse a missing bundle', async () => {
+    await expect(MigrationManager.open('/nonexistent/hal-migrate.tar.gz')).rejects.toThrow('Migration bundle not found');
+  });
+
+  it('should leave databases and services outside the bundle to the installation', async () => {
+    const restore = new MigrationRestore(config, {
+      version: BACKUP_FORMAT_VERSION,
+      createdAt: '2026-01-10T10:00:00.000Z',
+      hostname: 'old-vps',
+      ip: '192.168.1.100',
+      domain: 'homelab.local',
+      services: [{ service: ServiceType.POSTGRESQL, dump: { engine: 'postgresql', file: 'dumps/postgresql.sql' }, volumes: [] }],
+    }, '/tmp/staging', new TemplateEngine('templates'));
+
+    // Dumps are loaded once the database runs, not before its containers exist
+    await restore.beforeInstall(ServiceType.POSTGRESQL);
+    await restore.beforeInstall(ServiceType.CADDY);
+    await restore.afterInstall(ServiceType.CADDY);
+
+    expect(restore.steps).toEqual([]);
+  });
+});
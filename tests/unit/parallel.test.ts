@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'bun:test';
+import { Parallel } from '../../src/utils/parallel';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Parallel', () => {
+  it('should not run more workers than the limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+
+    await Parallel.map([1, 2, 3, 4, 5], 2, async (item) => {
+      running++;
+      peak = Math.max(peak, running);
+      await sleep(5);
+      done.push(item);
+      running--;
+    });
+
+    expect(peak).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should run items one at a time in order with a limit of 1', async () => {
+    const done: number[] = [];
+    await Parallel.map([3, 1, 2], 1, async (item) => {
+      await sleep(item);
+      done.push(item);
+    });
+
+    expect(done).toEqual([3, 1, 2]);
+  });
+
+  it('should buffer console output per task', async () => {
+    const [first, second] = await Promise.all([
+      Parallel.buffered(async () => {
+        console.log('first', 1);
+        await sleep(5);
+        console.error('first done');
+        return 'a';
+      }),
+      Parallel.buffered(async () => {
+        console.info('second');
+        return 'b';
+      }),
+    ]);
+
+    expect(first.output).toEqual(['first 1', 'first done']);
+    expect(first.result).toBe('a');
+    expect(second.output).toEqual(['second']);
+  });
+
+  it('should return the error of a failed task with its output', async () => {
+    const result = await Parallel.buffered(async () => {
+      console.log('starting');
+      throw new Error('boom');
+    });
+
+    expect(result.output).toEqual(['starting']);
+    expect((result.error as Error).message).toBe('boom');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'bun:test';
+import { PortPlanner } from '../../src/core/ports.js';
+import { ServiceType, HomelabConfig, DistributionType } from '../../src/core/types.js';
+import { TemplateEngine } from '../../src/templates/engine.js';
+
+describe('PortPlanner', () => {
+  const planner = new PortPlanner(new TemplateEngine('templates'));
+  const config = (extra: Partial<HomelabConfig> = {}): HomelabConfig => ({
+    ip: '192.168.1.100',
+    domain: 'homelab.lan',
+    networkName: 'homelab-network',
+    configPath: 'ws/init',
+    dataPath: 'ws/data',
+    selectedServices: [],
+    distribution: DistributionType.UBUNTU,
+    ...extra,
+  });
+
+  it('should parse host ports of port mappings', () => {
+    expect(PortPlanner.parseHostPort('8080:80')).toBe(8080);
+    expect(PortPlanner.parseHostPort('127.0.0.1:5300:53/udp')).toBe(5300);
+    expect(PortPlanner.parseHostPort('[::]:443:443')).toBe(443);
+    expect(PortPlanner.parseHostPort('80')).toBeUndefined();
+    expect(PortPlanner.parseHostPort('8000-8010:8000-8010')).toBeUndefined();
+  });
+
+  it('should collect -p mappings and the ports field of a template', () => {
+    const template = {
+      commands: { run: 'docker run -d --name web -p 8080:80 -p 127.0.0.1:9000:9000 nginx' },
+      ports: ['8080:80', '5300:53/udp'],
+    };
+
+    expect(PortPlanner.getTemplatePorts(template).sort()).toEqual([5300, 8080, 9000]);
+  });
+
+  it('should apply the hal.yml port override and recorded mappings', () => {
+    const template = { commands: { run: 'docker run -d --name web -p 8080:80 -p 8443:443 nginx' } };
+    const ports = PortPlanner.applyMappings(template, ServiceType.N8N, config({
+      serviceOverrides: { [ServiceType.N8N]: { port: 9080 } },
+      portMappings: { [ServiceType.N8N]: { '8443': 8444 } },
+    }));
+
+    expect(ports).toEqual([9080, 8444]);
+  });
+
+  it('should find duplicates between services and ports in use on the host', async () => {
+    const plan = await planner.plan(
+      [ServiceType.CADDY, ServiceType.POSTGRESQL, ServiceType.REDIS],
+      config({ serviceOverrides: { [ServiceType.REDIS]: { port: 5432 } } }),
+      [],
+      [{ port: 80 }, { port: 443, container: 'caddy' }],
+    );
+
+    expect(plan.conflicts).toEqual([
+      { service: ServiceType.CADDY, port: 80, conflictsWith: 'host process', remappable: false },
+      { service: ServiceType.REDIS, port: 5432, conflictsWith: ServiceType.POSTGRESQL, remappable: true },
+    ]);
+  });
+
+  it('should treat ports of installed services as taken', async () => {
+    const plan = await planner.plan(
+      [ServiceType.REDIS],
+      config({ serviceOverrides: { [ServiceType.REDIS]: { port: 5432 } } }),
+      [ServiceType.POSTGRESQL],
+    );
+
+    expect(plan.conflicts.map(c => c.conflictsWith)).toEqual([ServiceType.POSTGRESQL]);
+  });
+
+  it('should reassign remappable conflicts to free ports', () => {
+    const mappings = PortPlanner.reassign({
+      ports: { [ServiceType.POSTGRESQL]: [5432], [ServiceType.REDIS]: [5432, 5433] },
+      conflicts: [
+        { service: ServiceType.REDIS, port: 5432, conflictsWith: 'postgresql', remappable: true },
+        { service: ServiceType.CADDY, port: 80, conflictsWith: 'host process', remappable: false },
+      ],
+    }, [{ port: 5434 }]);
+
+    expect(mappings).toEqual({ [ServiceType.REDIS]: { '5432': 5435 } });
+  });
+
+  it('should keep mappings keyed by the template port', () => {
+    const merged = PortPlanner.merge(
+      { [ServiceType.N8N]: { '5678': 5679 } },
+      { [ServiceType.N8N]: { '5679': 5680 }, [ServiceType.REDIS]: { '6379': 6380 } },
+    );
+
+    expect(merged).toEqual({ [ServiceType.N8N]: { '5678': 5680 }, [ServiceType.REDIS]: { '6379': 6380 } });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { ServiceRemover } from '../../src/core/remover.js';
+import { ServiceType, HomelabConfig, DistributionType } from '../../src/core/types.js';
+import { TemplateEngine } from '../../src/templates/engine.js';
+
+// Mock Bun shell
+mock.module('bun', () => ({
+  $: mock(() => Promise.resolve({ exitCode: 0, stderr: '' }))
+}));
+
+describe('ServiceRemover', () => {
+  let config: HomelabConfig;
+  let remover: ServiceRemover;
+
+  beforeEach(() => {
+    config = {
+      ip: '192.168.1.100',
+      domain: 'homelab.local',
+      networkName: 'homelab-network',
+      selectedServices: [
+        ServiceType.CADDY,
+        ServiceType.COPYPARTY,
+        ServiceType.POSTGRESQL,
+        ServiceType.REDIS,
+        ServiceType.LISTMONK,
+        ServiceType.DIRECTUS,
+        ServiceType.N8N,
+      ],
+      distribution: DistributionType.UBUNTU,
+      configPath: 'ws/init',
+      dataPath: 'ws/data',
+    };
+    remover = new ServiceRemover(config, ServiceType.DOCKHAND, new TemplateEngine('tests/fixtures/templates'));
+  });
+
+  it('should plan removal of a service without dependents', () => {
+    expect(remover.planRemoval([ServiceType.N8N])).toEqual([ServiceType.N8N]);
+  });
+
+  it('should refuse to remove a service with dependents', () => {
+    expect(() => remover.planRemoval([ServiceType.POSTGRESQL])).toThrow(/listmonk.*directus|directus.*listmonk/);
+  });
+
+  it('should remove dependents first with cascade', () => {
+    const plan = remover.planRemoval([ServiceType.POSTGRESQL], true);
+
+    expect(plan).toHaveLength(3);
+    expect(plan).toContain(ServiceType.LISTMONK);
+    expect(plan).toContain(ServiceType.DIRECTUS);
+    expect(plan[plan.length - 1]).toBe(ServiceType.POSTGRESQL);
+    expect(plan).not.toContain(ServiceType.REDIS);
+  });
+
+  it('should refuse to remove services that are not installed', () => {
+    expect(() => remover.planRemoval([ServiceType.OLLAMA])).toThrow('not installed');
+  });
+
+  it('should refuse to remove core services', () => {
+    expect(() => remover.planRemoval([ServiceType.CADDY])).toThrow('core service');
+  });
+
+  it('should drop ingress rules for removed hostnames', () => {
+    const content = [
+      'tunnel: abc',
+      'ingress:',
+      '  - hostname: n8n.example.com',
+      '    service: https://caddy:443',
+      '    originRequest:',
+      '      noTLSVerify: true',
+      '  - hostname: files.example.com',
+      '    service: https://caddy:443',
+      '  - service: http_status:404',
+    ].join('\n');
+
+    const updated = ServiceRemover.removeIngressHostnames(content, ['n8n.example.com']);
+
+    expect(updated).not.toContain('n8n.example.com');
+    expect(updated).not.toContain('noTLSVerify');
+    expect(updated).toContain('files.example.com');
+    expect(updated).toContain('http_status:404');
+  });
+});
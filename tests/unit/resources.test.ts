@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'bun:test';
+import { ResourcePlanner, HostResources } from '../../src/core/resources.js';
+import { ServiceType } from '../../src/core/types.js';
+import { TemplateEngine } from '../../src/templates/engine.js';
+
+describe('ResourcePlanner', () => {
+  const planner = new ResourcePlanner(new TemplateEngine('templates'));
+  const host = (memory: number, disk?: number, cpu: number = 4): HostResources =>
+    ({ memory, disk, cpu, dataRoot: '/var/lib/docker' });
+
+  it('should parse sizes into MB', () => {
+    expect(ResourcePlanner.parseSize('512M')).toBe(512);
+    expect(ResourcePlanner.parseSize('1.5G')).toBe(1536);
+    expect(ResourcePlanner.parseSize('2GiB')).toBe(2048);
+    expect(ResourcePlanner.parseSize(300)).toBe(300);
+    expect(ResourcePlanner.parseSize('lots')).toBeUndefined();
+    expect(ResourcePlanner.formatSize(1536)).toBe('1.5G');
+    expect(ResourcePlanner.formatSize(256)).toBe('256M');
+  });
+
+  it('should add up the resources declared by the templates', async () => {
+    const estimate = await planner.estimate([ServiceType.POSTGRESQL, ServiceType.OLLAMA]);
+
+    expect(estimate.services.every(s => s.declared)).toBe(true);
+    expect(estimate.min.memory).toBe(256 + 2048);
+    expect(estimate.min.disk).toBe(1024 + 10240);
+    expect(estimate.min.cpu).toBe(2.25);
+    expect(estimate.recommended.memory).toBe(1024 + 8192);
+  });
+
+  it('should fall back to defaults for templates without resources', () => {
+    const resources = ResourcePlanner.getResources({ commands: {} });
+
+    expect(resources.declared).toBe(false);
+    expect(resources.min.memory).toBe(256);
+    expect(resources.recommended.memory).toBeGreaterThanOrEqual(resources.min.memory);
+  });
+
+  it('should refuse selections whose minimum exceeds the host', async () => {
+    const estimate = await planner.estimate([ServiceType.OLLAMA, ServiceType.HULY]);
+    const check = ResourcePlanner.evaluate(estimate, host(4096, 100 * 1024));
+
+    expect(check.fits).toBe(false);
+    expect(check.problems[0]).toContain('Memory: at least 6G needed');
+  });
+
+  it('should refuse when the data root has too little free space', async () => {
+    const estimate = await planner.estimate([ServiceType.OLLAMA]);
+    const check = ResourcePlanner.evaluate(estimate, host(32768, 5 * 1024));
+
+    expect(check.fits).toBe(false);
+    expect(check.problems).toEqual(['Disk: at least 10G needed, 5G free on /var/lib/docker']);
+  });
+
+  it('should only warn below the recommended values and for CPU', async () => {
+    const estimate = await planner.estimate([ServiceType.OLLAMA]);
+    const check = ResourcePlanner.evaluate(estimate, host(4096, 20 * 1024, 1));
+
+    expect(check.fits).toBe(true);
+    expect(check.warnings).toHaveLength(3);
+  });
+
+  it('should count the memory of installed services when adding', async () => {
+    const estimate = await planner.estimate([ServiceType.POSTGRESQL]);
+
+    expect(ResourcePlanner.evaluate(estimate, host(2048, 50 * 1024)).fits).toBe(true);
+    expect(ResourcePlanner.evaluate(estimate, host(2048, 50 * 1024), { memory: 2048, disk: 0, cpu: 1 }).fits).toBe(false);
+  });
+
+  it('should list the largest services first in the breakdown', async () => {
+    const estimate = await planner.estimate([ServiceType.REDIS, ServiceType.OLLAMA]);
+    const lines = ResourcePlanner.formatBreakdown(estimate);
+
+    expect(lines[0]).toStartWith('ollama');
+    expect(lines[lines.length - 1]).toStartWith('total');
+  });
+});
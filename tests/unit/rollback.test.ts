@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { InstallRollback } from '../../src/utils/rollback.js';
+import { ErrorHandler } from '../../src/utils/errors.js';
+import { writeFile, mkdir } from '../../src/utils/dryrun.js';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('InstallRollback', () => {
+  const manager = ErrorHandler.getInstance().getRecoveryManager();
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'hal-rollback-'));
+    InstallRollback.enable();
+    InstallRollback.start();
+  });
+
+  afterEach(() => {
+    InstallRollback.finish();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should plan nothing when not tracking', async () => {
+    InstallRollback.finish();
+
+    expect(await InstallRollback.planCommand('docker run -d --name grafana grafana/grafana')).toEqual([]);
+    expect(InstallRollback.planDirectory(join(dir, 'new'))).toEqual([]);
+  });
+
+  it('should remove named containers but not one-shot runs', async () => {
+    const actions = await InstallRollback.planCommand(
+      'docker run -d --name grafana grafana/grafana && docker run --rm alpine true',
+    );
+
+    expect(actions.map(a => a.description)).toEqual(['Remove container grafana']);
+  });
+
+  it('should remove only the directories a command creates', async () => {
+    const actions = await InstallRollback.planCommand(`mkdir -p ${dir}/grafana/data ${dir}`);
+
+    expect(actions.map(a => a.description)).toEqual([`Remove ${dir}/grafana`]);
+  });
+
+  it('should plan removing a volume that does not exist yet', async () => {
+    const actions = await InstallRollback.planCommand('docker volume create hal_rollback_test_volume');
+
+    expect(actions.map(a => a.description)).toEqual(['Remove volume hal_rollback_test_volume']);
+  });
+
+  it('should undo file writes and directories in reverse order', async () => {
+    const existing = join(dir, 'Caddyfile');
+    writeFileSync(existing, 'old');
+
+    await writeFile(existing, 'new');
+    await mkdir(join(dir, 'tinyauth'), { recursive: true });
+    await writeFile(join(dir, 'tinyauth', 'users.txt'), 'admin');
+
+    expect(manager.hasActions()).toBe(true);
+    await manager.executeRollback();
+
+    expect(readFileSync(existing, 'utf-8')).toBe('old');
+    expect(existsSync(join(dir, 'tinyauth'))).toBe(false);
+  });
+
+  it('should not register anything when disabled', async () => {
+    InstallRollback.disable();
+    InstallRollback.start();
+
+    await mkdir(join(dir, 'kept'));
+
+    expect(manager.hasActions()).toBe(false);
+    expect(existsSync(join(dir, 'kept'))).toBe(true);
+  });
+});
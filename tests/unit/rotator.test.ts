@@ -0,0 +1,64 @@
+import { describe, it, expect, mock } from 'bun:test';
+import { SecretRotator } from '../../src/core/rotator.js';
+import { ServiceType, HomelabConfig, DistributionType } from '../../src/core/types.js';
+import { TemplateEngine } from '../../src/templates/engine.js';
+
+// Mock Bun shell
+mock.module('bun', () => ({
+  $: mock(() => Promise.resolve({ exitCode: 0, stderr: '' }))
+}));
+
+describe('SecretRotator', () => {
+  const config = (extra: Partial<HomelabConfig> = {}): HomelabConfig => ({
+    ip: '192.168.1.100',
+    domain: 'homelab.local',
+    networkName: 'homelab-network',
+    selectedServices: [ServiceType.CADDY, ServiceType.COPYPARTY, ServiceType.POSTGRESQL, ServiceType.IMMICH],
+    distribution: DistributionType.UBUNTU,
+    configPath: 'ws/init',
+    dataPath: 'ws/data',
+    credentials: { 'postgresql.root': 'old', 'immich.db': 'old' },
+    ...extra,
+  });
+
+  it('should find the database accounts of a service', async () => {
+    const engine = new TemplateEngine('templates');
+    const immich = (await engine.load('services/immich')).content;
+    const mariadb = (await engine.load('services/mariadb')).content;
+
+    expect(SecretRotator.findAccounts(immich, ['immich.db'])).toEqual([
+      { key: 'immich.db', engine: 'postgresql', user: 'immich' },
+    ]);
+    expect(SecretRotator.findAccounts(mariadb, ['mariadb.root', 'mariadb.user']).map(a => a.key))
+      .toEqual(['mariadb.user', 'mariadb.root']);
+    expect(SecretRotator.findAccounts({}, ['keycloak.admin'])).toEqual([]);
+  });
+
+  it('should authenticate with the current root password', () => {
+    const command = SecretRotator.getAlterCommand(
+      'docker',
+      { key: 'mariadb.user', engine: 'mariadb', user: 'homelab' },
+      'New123',
+      { 'mariadb.root': 'Root123' },
+    );
+
+    expect(command).toContain('-pRoot123');
+    expect(command).toContain("ALTER USER IF EXISTS 'homelab'@'%' IDENTIFIED BY 'New123'");
+    expect(SecretRotator.getAlterCommand('podman', { key: 'immich.db', engine: 'postgresql', user: 'immich' }, 'New123', {}))
+      .toBe(`podman exec postgresql psql -U root -d postgres -c "ALTER USER immich WITH PASSWORD 'New123';"`);
+  });
+
+  it('should refuse installations with a shared password', async () => {
+    const rotator = new SecretRotator(config({ credentials: undefined, storagePassword: 'shared' }));
+
+    await expect(rotator.rotate(ServiceType.POSTGRESQL)).rejects.toThrow('legacy mode');
+  });
+
+  it('should refuse services that are not installed or have no database password', async () => {
+    const engine = new TemplateEngine('templates');
+
+    await expect(new SecretRotator(config(), engine).rotate(ServiceType.MARIADB)).rejects.toThrow('Not installed: mariadb');
+    await expect(new SecretRotator(config({ selectedServices: [ServiceType.KEYCLOAK], credentials: { 'keycloak.admin': 'x' } }), engine)
+      .rotate(ServiceType.KEYCLOAK)).rejects.toThrow('no database password to rotate (keycloak.admin)');
+  });
+});
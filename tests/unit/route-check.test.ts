@@ -0,0 +1,76 @@
+/**
+ * Unit tests for the post-install route checks
+ */
+
+import { describe, it, expect } from 'bun:test';
+import { RouteChecker } from '../../src/core/route-check.js';
+import { HomelabConfig, ServiceType, DistributionType, RouteCheck } from '../../src/core/types.js';
+
+const config: HomelabConfig = {
+  ip: '192.168.1.100',
+  domain: 'homelab.lan',
+  networkName: 'homelab-network',
+  selectedServices: [ServiceType.CADDY, ServiceType.COPYPARTY, ServiceType.N8N],
+  distribution: DistributionType.UBUNTU,
+  configPath: 'ws/init',
+  dataPath: 'ws/data',
+};
+
+describe('RouteChecker', () => {
+  it('should list the Caddy routes of services with a web UI', () => {
+    const routes = new RouteChecker(config).getRoutes([ServiceType.CADDY, ServiceType.POSTGRESQL, ServiceType.N8N, ServiceType.COPYPARTY]);
+
+    expect(routes).toEqual([
+      { service: ServiceType.N8N, host: 'n8n.homelab.lan', upstream: 'n8n:5678' },
+      { service: ServiceType.COPYPARTY, host: 'files.homelab.lan', upstream: 'copyparty:3923' },
+    ]);
+  });
+
+  it('should build a curl command that resolves the route to the configured IP', () => {
+    expect(RouteChecker.getCurlCommand('https://n8n.homelab.lan/', 'n8n.homelab.lan', 443, '192.168.1.100', '/tmp/ca.crt')).toBe(
+      "curl -sS -o /dev/null --max-time 10 --retry 2 --retry-delay 3 --resolve n8n.homelab.lan:443:192.168.1.100 --cacert /tmp/ca.crt -w '%{http_code} %{time_total}' https://n8n.homelab.lan/",
+    );
+    expect(RouteChecker.getCurlCommand('https://n8n.homelab.lan/', 'n8n.homelab.lan', 443, '192.168.1.100', undefined, true))
+      .toContain('--resolve n8n.homelab.lan:443:192.168.1.100 -k ');
+  });
+
+  it('should parse status and latency', () => {
+    expect(RouteChecker.parseCurlOutput('200 0.084512')).toEqual({ status: 200, latencyMs: 85 });
+    expect(RouteChecker.parseCurlOutput('000 10.001')).toEqual({ error: 'No HTTP response', latencyMs: 10001 });
+  });
+
+  describe('evaluate', () => {
+    it('should accept any answer from the service', () => {
+      expect(RouteChecker.evaluate('n8n:5678', { status: 200 }, { status: 401, tlsValid: false })).toEqual({ broken: false });
+    });
+
+    it('should flag proxy errors from Caddy', () => {
+      expect(RouteChecker.evaluate('n8n:5678', { status: 502 }, { status: 502, tlsValid: true })).toEqual({
+        broken: true,
+        reason: 'HTTPS 502: Caddy could not reach n8n:5678 (wrong container port or container not running)',
+      });
+      expect(RouteChecker.evaluate('n8n:5678', { status: 504 }, { status: 200 }).reason)
+        .toBe('HTTP 504: n8n:5678 did not answer in time');
+    });
+
+    it('should flag routes that do not answer', () => {
+      expect(RouteChecker.evaluate('n8n:5678', { status: 200 }, { error: 'curl: (7) Failed to connect' })).toEqual({
+        broken: true,
+        reason: 'HTTPS: curl: (7) Failed to connect',
+      });
+    });
+  });
+
+  it('should describe a check in one line', () => {
+    const check: RouteCheck = {
+      host: 'n8n.homelab.lan',
+      upstream: 'n8n:5678',
+      http: { status: 200, latencyMs: 12 },
+      https: { error: 'curl: (7) Failed to connect', tlsValid: false },
+      broken: true,
+      checkedAt: '2026-01-10T10:00:00.000Z',
+    };
+
+    expect(RouteChecker.describe(check)).toBe('HTTPS no response (TLS untrusted) · HTTP 200 (12ms)');
+  });
+});
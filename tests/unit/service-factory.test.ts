@@ -238,6 +238,20 @@ describe('ServiceFactory', () => {
     }
   });
 
+  it('should group services in dependency levels', () => {
+    config.selectedServices = [ServiceType.DIRECTUS, ServiceType.POSTGRESQL, ServiceType.REDIS, ServiceType.GRAFANA];
+    const services = factory.createServices(config);
+    const levels = ServiceFactory.getInstallationLevels(factory.getInstallationOrder(services));
+    const levelOf = (type: ServiceType) => levels.findIndex(level => level.some(s => s.type === type));
+
+    // Core services come first
+    expect(levels[0].every(s => s.isCore)).toBe(true);
+    expect(levels.flat()).toHaveLength(services.length);
+    expect(levelOf(ServiceType.POSTGRESQL)).toBe(levelOf(ServiceType.REDIS));
+    expect(levelOf(ServiceType.GRAFANA)).toBe(levelOf(ServiceType.POSTGRESQL));
+    expect(levelOf(ServiceType.DIRECTUS)).toBe(levelOf(ServiceType.POSTGRESQL) + 1);
+  });
+
   it('should clear cache correctly', () => {
     factory.createService(ServiceType.CADDY, config);
     expect(factory.getCachedServices().size).toBe(1);
@@ -245,4 +259,13 @@ describe('ServiceFactory', () => {
     factory.clearCache();
     expect(factory.getCachedServices().size).toBe(0);
   });
-});
\ No newline at end of file
+
+  it('should resolve transitive dependencies', () => {
+    const resolved = factory.resolveDependencyClosure([ServiceType.DIRECTUS, ServiceType.N8N], config);
+
+    expect(resolved.slice(0, 2)).toEqual([ServiceType.DIRECTUS, ServiceType.N8N]);
+    expect(resolved).toContain(ServiceType.POSTGRESQL);
+    expect(resolved).toContain(ServiceType.REDIS);
+    expect(resolved).toHaveLength(4);
+  });
+});
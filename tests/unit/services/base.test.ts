@@ -67,8 +67,59 @@ describe('BaseService', () => {
     }).toThrow();
   });
 
+  it('should interpolate secrets from the credential store', () => {
+    config.credentials = { 'postgresql.root': 'r00t', 'caddy.password': 'Pass123', 'caddy.admin': 'Admin123' };
+    service = new TestService(config, templateEngine);
+
+    const command = 'psql postgresql://root:{{SECRET:postgresql.root}}@db -c "{{STORAGE_PASSWORD}}" {{SECRET:caddy.admin}}';
+    const interpolated = (service as any).interpolateCommand(command, {});
+
+    expect(interpolated).toBe('psql postgresql://root:r00t@db -c "Pass123" Admin123');
+    expect(() => (service as any).interpolateCommand('{{SECRET:caddy.token}}', {})).toThrow('Secret caddy.token not found');
+  });
+
+  it('should use the shared password for secrets in legacy mode', () => {
+    config.storagePassword = 'shared-pass';
+    service = new TestService(config, templateEngine);
+
+    expect((service as any).interpolateCommand('-e PASS={{SECRET:postgresql.root}}', {})).toBe('-e PASS=shared-pass');
+  });
+
   it('should check dependencies successfully', async () => {
     const result = await service.checkDependencies();
     expect(result).toBe(true);
   });
-});
\ No newline at end of file
+
+  it('should apply hal.yml overrides to the main container', () => {
+    config.serviceOverrides = {
+      [ServiceType.CADDY]: { tag: '2.8', port: 8443, env: { LOG: "it's" } },
+    };
+    service = new TestService(config, templateEngine);
+    (service as any).serviceTemplate = {
+      commands: { run: 'docker run -d --name caddy -p 443:443 -p 80:80 caddy:latest' },
+    };
+
+    expect((service as any).applyOverrides('docker pull caddy:latest')).toBe('docker pull caddy:2.8');
+    expect((service as any).applyOverrides('docker run -d --name caddy -p 443:443 -p 80:80 caddy:latest'))
+      .toBe(`docker run -d --name caddy -e 'LOG=it'\\''s' -p 8443:443 -p 80:80 caddy:2.8`);
+    expect((service as any).applyOverrides('docker run --rm alpine true')).toBe('docker run --rm alpine true');
+  });
+
+  it('should publish and link the ports reassigned by --auto-ports', () => {
+    config.portMappings = { [ServiceType.CADDY]: { '8080': 8081, '53': 5353 } };
+    service = new TestService(config, templateEngine);
+    (service as any).serviceTemplate = { accessUrl: 'http://{{IP}}:8080/admin' };
+
+    expect((service as any).applyPortMappings('docker run -p 8080:80 -p 127.0.0.1:53:53/udp -p 18080:80 caddy'))
+      .toBe('docker run -p 8081:80 -p 127.0.0.1:5353:53/udp -p 18080:80 caddy');
+    expect(service.getAccessUrl()).toBe('http://192.168.1.100:8081/admin');
+  });
+
+  it('should use the per-service data path', () => {
+    config.dataPath = 'ws/data';
+    config.serviceOverrides = { [ServiceType.CADDY]: { dataPath: 'mnt/ssd' } };
+    service = new TestService(config, templateEngine);
+
+    expect((service as any).getTemplateContext().DATA_PATH).toBe('mnt/ssd');
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'bun:test';
+import { TemplateInspector } from '../../../src/services/inspector.js';
+
+describe('TemplateInspector', () => {
+  const template = {
+    commands: {
+      install: ['docker pull postgres:16'],
+      setup: [
+        'docker volume create immich-data',
+        'docker run -d --name immich-redis redis',
+      ],
+      run: 'docker run -d --name immich-server -e JWT_SECRET={{ADMIN_TOKEN}} -v immich-data:/data -v ~/{{DATA_PATH}}/immich:/upload immich',
+      postRun: ['docker run -d --name=immich-ml -e SECRET_KEY_BASE={{ADMIN_TOKEN}}{{ADMIN_TOKEN}} -v model-cache:/cache immich-ml'],
+    },
+  };
+
+  it('should list container names', () => {
+    expect(TemplateInspector.getContainerNames(template)).toEqual(['immich-redis', 'immich-server', 'immich-ml']);
+  });
+
+  it('should list only containers started by run commands', () => {
+    expect(TemplateInspector.getContainerNames(template, true)).toEqual(['immich-server', 'immich-ml']);
+  });
+
+  it('should list named volumes but not bind mounts', () => {
+    expect(TemplateInspector.getVolumeNames(template)).toEqual(['immich-data', 'model-cache']);
+  });
+
+  it('should handle templates without commands', () => {
+    expect(TemplateInspector.getContainerNames({})).toEqual([]);
+    expect(TemplateInspector.getVolumeNames(undefined)).toEqual([]);
+  });
+
+  it('should recover the admin token from a container environment', () => {
+    expect(TemplateInspector.recoverAdminToken(template, ['PATH=/usr/bin', 'JWT_SECRET=abc123'])).toBe('abc123');
+    expect(TemplateInspector.recoverAdminToken(template, ['SECRET_KEY_BASE=xyzxyz'])).toBe('xyz');
+    expect(TemplateInspector.recoverAdminToken(template, ['OTHER=1'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'bun:test';
+import { migrateState, validateState, readStateFile, STATE_VERSION } from '../../src/utils/state-schema.js';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('state schema', () => {
+  const v1 = () => ({
+    version: 1,
+    installedAt: '2026-01-10T10:00:00.000Z',
+    ip: '192.168.1.100',
+    domain: 'homelab.lan',
+    networkName: 'homelab-network',
+    configPath: 'ws/init',
+    dataPath: 'ws/data',
+    storagePassword: 'Admin26!',
+    managementUI: 'dockhand',
+    selectedServices: ['caddy', 'copyparty', 'postgresql'],
+  });
+
+  it('should migrate version 1 to the current version and take out the shared password', () => {
+    const { state, from, secrets } = migrateState(v1());
+
+    expect(from).toBe(1);
+    expect(state.version).toBe(STATE_VERSION);
+    expect(state.storagePassword).toBeUndefined();
+    expect(state.storagePasswordRef).toBe('shared.password');
+    expect(secrets).toEqual({ 'shared.password': 'Admin26!' });
+    expect(validateState(state)).toEqual([]);
+  });
+
+  it('should treat files without a version as version 1', () => {
+    const { version, ...unversioned } = v1();
+
+    expect(migrateState(unversioned).from).toBe(1);
+  });
+
+  it('should refuse states written by a newer version', () => {
+    expect(() => migrateState({ ...v1(), version: STATE_VERSION + 1 })).toThrow('newer hal');
+  });
+
+  it('should report every field that does not match the schema', () => {
+    const { state } = migrateState(v1());
+    const problems = validateState({
+      ...state,
+      domain: undefined,
+      selectedServices: 'caddy',
+      portMappings: { n8n: { '5678': '5679' } },
+      progress: { n8n: { status: 'done', updatedAt: '2026-01-10T10:00:00.000Z' } },
+    });
+
+    expect(problems).toEqual([
+      'domain must be a string',
+      'selectedServices must be a list of service names',
+      'portMappings must be host port numbers per service',
+      'progress.n8n.status must be pending, installed, configured, failed',
+    ]);
+  });
+
+  it('should migrate version 2 without changes', () => {
+    const { state: v2 } = migrateState(v1());
+    const { state, from, secrets } = migrateState({ ...v2, version: 2 });
+
+    expect(from).toBe(2);
+    expect(state).toEqual({ ...v2, version: STATE_VERSION });
+    expect(secrets).toEqual({});
+  });
+
+  it('should validate route checks', () => {
+    const { state } = migrateState(v1());
+    const check = {
+      host: 'n8n.homelab.lan',
+      upstream: 'n8n:5678',
+      http: { status: 200, latencyMs: 12 },
+      https: { status: 502, latencyMs: 40, tlsValid: true },
+      broken: true,
+      reason: 'HTTPS 502: Caddy could not reach n8n:5678',
+      checkedAt: '2026-01-10T10:00:00.000Z',
+    };
+
+    expect(validateState({ ...state, routeChecks: { n8n: check } })).toEqual([]);
+    expect(validateState({ ...state, routeChecks: { n8n: { ...check, broken: 'yes', https: undefined } } })).toEqual([
+      'routeChecks.n8n.broken must be true or false',
+      'routeChecks.n8n.https must be an object',
+    ]);
+  });
+
+  it('should return null when the state file does not exist', async () => {
+    expect(await readStateFile(join(tmpdir(), 'hal-missing', 'onmind-hal.json'))).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { StateManager, HalState } from '../../src/utils/state.js';
+import { HomelabConfig, ServiceType, DistributionType } from '../../src/core/types.js';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { join, relative } from 'path';
+import { tmpdir, homedir } from 'os';
+import { CredentialStore, KEYFILE_ENV } from '../../src/utils/credentials.js';
+
+describe('StateManager', () => {
+  let dir: string;
+  // State paths are relative to the home directory
+  let configPath: string;
+  let config: HomelabConfig;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'hal-state-'));
+    configPath = relative(homedir(), dir);
+    process.env[KEYFILE_ENV] = join(dir, 'secrets.key');
+
+    config = {
+      ip: '192.168.1.100',
+      domain: 'homelab.lan',
+      networkName: 'homelab',
+      configPath,
+      dataPath: 'ws/data',
+      selectedServices: [ServiceType.CADDY, ServiceType.COPYPARTY, ServiceType.POSTGRESQL, ServiceType.N8N],
+      distribution: DistributionType.UBUNTU,
+    };
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env[KEYFILE_ENV];
+  });
+
+  it('should save progress and derive failed services', async () => {
+    const now = new Date().toISOString();
+    await StateManager.save(config, ServiceType.DOCKHAND, {
+      [ServiceType.POSTGRESQL]: { status: 'configured', updatedAt: now },
+      [ServiceType.N8N]: { status: 'failed', updatedAt: now, error: 'port 5678 in use' },
+    });
+
+    const state = await StateManager.load(configPath);
+    expect(state?.progress?.[ServiceType.N8N]?.error).toBe('port 5678 in use');
+    expect(state?.failedServices).toEqual([ServiceType.N8N]);
+  });
+
+  it('should keep the saved progress when none is given', async () => {
+    const now = new Date().toISOString();
+    await StateManager.save(config, ServiceType.DOCKHAND, {
+      [ServiceType.N8N]: { status: 'installed', updatedAt: now },
+    });
+    await StateManager.save(config, ServiceType.DOCKHAND);
+
+    const state = await StateManager.load(configPath);
+    expect(state?.progress?.[ServiceType.N8N]?.status).toBe('installed');
+  });
+
+  it('should drop progress of removed services unless they failed', async () => {
+    const now = new Date().toISOString();
+    config.selectedServices = [ServiceType.CADDY, ServiceType.COPYPARTY];
+    await StateManager.save(config, ServiceType.DOCKHAND, {
+      [ServiceType.POSTGRESQL]: { status: 'configured', updatedAt: now },
+      [ServiceType.N8N]: { status: 'failed', updatedAt: now },
+    });
+
+    const state = await StateManager.load(configPath);
+    expect(Object.keys(state?.progress || {})).toEqual([ServiceType.N8N]);
+  });
+
+  it('should keep reassigned ports of selected services only', async () => {
+    config.portMappings = {
+      [ServiceType.N8N]: { '5678': 5679 },
+      [ServiceType.GRAFANA]: { '3000': 3001 },
+    };
+    await StateManager.save(config, ServiceType.DOCKHAND);
+
+    const state = await StateManager.load(configPath);
+    expect(state?.portMappings).toEqual({ [ServiceType.N8N]: { '5678': 5679 } });
+    expect(StateManager.toConfig(state!).portMappings).toEqual(state!.portMappings);
+  });
+
+  it('should keep route checks of selected services only', async () => {
+    const check = (host: string) => ({
+      host,
+      upstream: 'app:3000',
+      http: { status: 200, latencyMs: 10 },
+      https: { status: 200, latencyMs: 30, tlsValid: true },
+      broken: false,
+      checkedAt: new Date().toISOString(),
+    });
+    config.routeChecks = {
+      [ServiceType.N8N]: check('n8n.homelab.local'),
+      [ServiceType.GRAFANA]: check('grafana.homelab.local'),
+    };
+    await StateManager.save(config, ServiceType.DOCKHAND);
+
+    const state = await StateManager.load(configPath);
+    expect(Object.keys(state?.routeChecks || {})).toEqual([ServiceType.N8N]);
+    expect(StateManager.toConfig(state!).routeChecks).toEqual(state!.routeChecks);
+  });
+
+  it('should keep the shared password out of the state file', async () => {
+    await StateManager.save({ ...config, storagePassword: 'Shared123' }, ServiceType.DOCKHAND);
+
+    const raw = readFileSync(StateManager.getPath(configPath), 'utf-8');
+    expect(raw).not.toContain('Shared123');
+    expect(readFileSync(CredentialStore.getPath(configPath), 'utf-8')).not.toContain('Shared123');
+    expect((await StateManager.load(configPath))?.storagePassword).toBe('Shared123');
+  });
+
+  it('should migrate a version 1 state and back up the old file without the password', async () => {
+    writeFileSync(StateManager.getPath(configPath), JSON.stringify({
+      version: 1,
+      installedAt: new Date().toISOString(),
+      ip: config.ip,
+      domain: config.domain,
+      networkName: config.networkName,
+      configPath,
+      dataPath: 'ws/data',
+      storagePassword: 'Legacy123',
+      managementUI: ServiceType.DOCKHAND,
+      selectedServices: [ServiceType.CADDY, null],
+    }));
+
+    const state = await StateManager.load(configPath);
+    expect(state?.storagePassword).toBe('Legacy123');
+    expect(state?.selectedServices).toEqual([ServiceType.CADDY]);
+
+    const migrated = JSON.parse(readFileSync(StateManager.getPath(configPath), 'utf-8')) as HalState;
+    expect(migrated.storagePassword).toBeUndefined();
+    expect(migrated.storagePasswordRef).toBe('shared.password');
+    expect(migrated.version).toBe(3);
+
+    const backup = readFileSync(`${StateManager.getPath(configPath)}.v1.bak`, 'utf-8');
+    expect(JSON.parse(backup).version).toBe(1);
+    expect(backup).not.toContain('Legacy123');
+  });
+
+  it('should reject a state that does not match the schema', async () => {
+    writeFileSync(StateManager.getPath(configPath), JSON.stringify({ version: 2, ip: 42 }));
+
+    await expect(StateManager.load(configPath)).rejects.toThrow('ip must be a string');
+  });
+
+  it('should list unfinished services in selection order', () => {
+    const now = new Date().toISOString();
+    const state = {
+      selectedServices: [ServiceType.CADDY, ServiceType.POSTGRESQL, ServiceType.N8N, ServiceType.GRAFANA],
+      progress: {
+        [ServiceType.CADDY]: { status: 'configured', updatedAt: now },
+        [ServiceType.POSTGRESQL]: { status: 'installed', updatedAt: now },
+        [ServiceType.N8N]: { status: 'pending', updatedAt: now },
+        [ServiceType.GRAFANA]: { status: 'failed', updatedAt: now },
+      },
+    } as HalState;
+
+    expect(StateManager.getUnfinished(state)).toEqual([ServiceType.POSTGRESQL, ServiceType.N8N]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'bun:test';
+import { StatusReporter } from '../../src/core/status.js';
+
+describe('StatusReporter', () => {
+  const now = new Date('2026-01-10T12:00:00Z');
+
+  it('should parse a running container', () => {
+    const json = JSON.stringify([{
+      Name: '/grafana',
+      RestartCount: 2,
+      State: { Status: 'running', StartedAt: '2026-01-08T09:30:00Z', Health: { Status: 'healthy' } },
+      NetworkSettings: {
+        Ports: {
+          '3000/tcp': [{ HostIp: '0.0.0.0', HostPort: '3000' }, { HostIp: '::', HostPort: '3000' }],
+          '9090/tcp': null,
+        },
+      },
+    }]);
+
+    const status = StatusReporter.parseInspect(json, now);
+
+    expect(status).toEqual({
+      name: 'grafana',
+      state: 'running',
+      health: 'healthy',
+      startedAt: '2026-01-08T09:30:00Z',
+      uptime: '2d 2h',
+      restartCount: 2,
+      ports: ['3000->3000/tcp'],
+    });
+  });
+
+  it('should not report uptime for stopped containers', () => {
+    const json = JSON.stringify([{
+      Name: 'redis',
+      State: { Status: 'exited', StartedAt: '2026-01-08T09:30:00Z' },
+      NetworkSettings: { Ports: {} },
+    }]);
+
+    const status = StatusReporter.parseInspect(json, now);
+
+    expect(status?.state).toBe('exited');
+    expect(status?.uptime).toBeUndefined();
+    expect(status?.restartCount).toBe(0);
+  });
+
+  it('should return null for invalid or empty output', () => {
+    expect(StatusReporter.parseInspect('[]')).toBeNull();
+    expect(StatusReporter.parseInspect('Error: no such object')).toBeNull();
+  });
+
+  it('should format uptime', () => {
+    expect(StatusReporter.formatUptime(new Date('2026-01-10T11:59:15Z'), now)).toBe('45s');
+    expect(StatusReporter.formatUptime(new Date('2026-01-10T11:15:00Z'), now)).toBe('45m');
+    expect(StatusReporter.formatUptime(new Date('2026-01-10T09:45:00Z'), now)).toBe('2h 15m');
+  });
+});
@@ -65,6 +65,16 @@ describe('TemplateValidator', () => {
       expect(result.errors).toContain('Missing required field: commands');
     });
 
+    it('should validate the healthcheck of docker templates', () => {
+      const commands = { run: 'docker run -d --name db postgres' };
+
+      expect(validator.validate('db', { commands, healthcheck: { exec: 'pg_isready' } }, 'docker').isValid).toBe(true);
+
+      const result = validator.validate('db', { commands, healthcheck: { exec: 'pg_isready', tcp: 5432 } }, 'docker');
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Custom validation failed for field: healthcheck');
+    });
+
     it('should validate service schema', () => {
       const serviceTemplate = {
         name: 'nginx',
@@ -0,0 +1,86 @@
+import { describe, it, expect, mock, spyOn, beforeEach, afterEach } from 'bun:test';
+import { ServiceUpgrader } from '../../src/core/upgrader.js';
+import { ServiceType, HomelabConfig, DistributionType } from '../../src/core/types.js';
+import { TemplateEngine } from '../../src/templates/engine.js';
+import { BaseService } from '../../src/services/base.js';
+import { ContainerRuntimeUtils } from '../../src/utils/container.js';
+
+// Mock Bun shell
+mock.module('bun', () => ({
+  $: mock(() => Promise.resolve({ exitCode: 0, stderr: '' }))
+}));
+
+describe('ServiceUpgrader', () => {
+  const config: HomelabConfig = {
+    ip: '192.168.1.100',
+    domain: 'homelab.local',
+    networkName: 'homelab-network',
+    selectedServices: [ServiceType.CADDY, ServiceType.COPYPARTY, ServiceType.N8N],
+    distribution: DistributionType.UBUNTU,
+    configPath: 'ws/init',
+    dataPath: 'ws/data',
+  };
+
+  // Runtime commands run by the upgrader; n8n runs sha256:old and the pull yields imageId
+  let commands: string[];
+  let imageId: string;
+  let recreate: ReturnType<typeof spyOn>;
+  let waitForHealthy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    commands = [];
+    imageId = 'sha256:new';
+    spyOn(ServiceUpgrader.prototype as any, 'run').mockImplementation(async (command: any) => {
+      commands.push(command);
+      if (command === 'docker inspect n8n') {
+        return JSON.stringify([{ Image: 'sha256:old', Config: { Image: 'n8nio/n8n:latest', Env: [] } }]);
+      }
+      return command.startsWith('docker image inspect') ? `${imageId}\n` : '';
+    });
+    spyOn(ContainerRuntimeUtils, 'detectRuntime').mockResolvedValue('docker');
+    recreate = spyOn(BaseService.prototype, 'recreate').mockResolvedValue(undefined);
+    waitForHealthy = spyOn(ContainerRuntimeUtils, 'waitForHealthy').mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    mock.restore();
+  });
+
+  it('should refuse to upgrade services that are not installed', async () => {
+    const upgrader = new ServiceUpgrader(config, new TemplateEngine('tests/fixtures/templates'));
+
+    await expect(upgrader.upgrade([ServiceType.GRAFANA])).rejects.toThrow('Not installed: grafana');
+  });
+
+  it('should record the new image of upgraded containers', async () => {
+    const [result] = await new ServiceUpgrader(config).upgrade([ServiceType.N8N]);
+
+    expect(commands).toContain('docker pull n8nio/n8n:latest');
+    expect(recreate).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({
+      service: ServiceType.N8N,
+      status: 'upgraded',
+      images: [{ container: 'n8n', image: 'n8nio/n8n:latest', from: 'sha256:old', to: 'sha256:new' }],
+    });
+  });
+
+  it('should leave containers alone when the image did not change', async () => {
+    imageId = 'sha256:old';
+
+    const [result] = await new ServiceUpgrader(config).upgrade([ServiceType.N8N]);
+
+    expect(result).toEqual({ service: ServiceType.N8N, status: 'unchanged', images: [] });
+    expect(recreate).not.toHaveBeenCalled();
+  });
+
+  it('should tag the recorded image back when the new one is not healthy', async () => {
+    waitForHealthy.mockResolvedValueOnce(false);
+
+    const [result] = await new ServiceUpgrader(config).upgrade([ServiceType.N8N]);
+
+    expect(result.status).toBe('rolled-back');
+    expect(result.message).toBe('n8n did not become healthy');
+    expect(commands).toContain('docker tag sha256:old n8nio/n8n:latest');
+    expect(recreate).toHaveBeenCalledTimes(2);
+  });
+});
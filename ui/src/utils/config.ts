@@ -1,6 +1,7 @@
 import { readFile, writeFile } from "fs/promises";
 import { join } from "path";
 import { homedir } from "os";
+import { readStateFile, STATE_FILENAME, type HalState } from "../../../src/utils/state-schema";
 
 const DEFAULT_CONFIG_PATH = "ws/init";
 const SERVICES_JSON = join(process.cwd(), "public", "data", "services.json");
@@ -10,10 +11,6 @@ interface ServicesData {
   services: any[];
 }
 
-interface HalState {
-  configPath?: string;
-}
-
 let cachedConfigPath: string | null = null;
 
 async function readServicesData(): Promise<ServicesData> {
@@ -25,11 +22,13 @@ async function writeServicesData(data: ServicesData): Promise<void> {
   await writeFile(SERVICES_JSON, JSON.stringify(data, null, 2) + "\n");
 }
 
+/**
+ * Read the installation state with the CLI's schema (migrated in memory, never written here)
+ */
 async function readHalState(): Promise<HalState | null> {
   try {
-    const halPath = join(homedir(), DEFAULT_CONFIG_PATH, "onmind-hal.json");
-    const raw = await readFile(halPath, "utf-8");
-    return JSON.parse(raw);
+    const halPath = join(homedir(), DEFAULT_CONFIG_PATH, STATE_FILENAME);
+    return (await readStateFile(halPath))?.state ?? null;
   } catch {
     return null;
   }